@@ -4,26 +4,53 @@ import dotenv from 'dotenv';
 import { createServer } from 'http';
 import WebSocket from 'ws';
 import { WebSocketHandlers } from './websocket/handlers';
+import { BrowserPool } from './services/browserPool';
+import { ProfileStore } from './services/profileStore';
+import { TokenVerifier } from './services/auth';
 
 dotenv.config();
 
 const PORT = parseInt(process.env.PORT || '4000', 10);
 
+// Browsers are shared between sessions; each session gets its own context
+const pool = new BrowserPool();
+// Saved cookies and storage, encrypted with AGENT_PROFILE_KEY
+const profiles = new ProfileStore();
+// Verifies the UI's Auth0 access tokens; profiles belong to the user they identify
+const auth = new TokenVerifier();
+
 const app = express();
 app.use(cors());
 app.use(express.json());
 
 // Health endpoint to let the API-Gateway know we are alive
 app.get('/health', (_req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  res.json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    sessions: wsHandlers.getSessionCount(),
+    clients: wsHandlers.getConnectedClientsCount(),
+    pool: pool.getStats()
+  });
 });
 
 const server = createServer(app);
 const wss = new WebSocket.Server({ server });
-const wsHandlers = new WebSocketHandlers();
+const wsHandlers = new WebSocketHandlers(pool, profiles, auth);
 
 wss.on('connection', (ws) => wsHandlers.handleConnection(ws));
 
 server.listen(PORT, () => {
   console.log(`[AGENT] Skeleton server listening on port ${PORT}`);
-}); 
\ No newline at end of file
+  pool.warmUp().catch(error => console.error('[AGENT] Failed to warm up the browser pool:', error));
+});
+
+// Close every session's browser before exiting
+const shutdown = async () => {
+  console.log('[AGENT] Shutting down');
+  await wsHandlers.closeAll();
+  await pool.shutdown();
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
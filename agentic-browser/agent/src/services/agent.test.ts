@@ -0,0 +1,185 @@
+import { AgentService } from './agent';
+import { BrowserService, PageObservation } from './browser';
+import { ReplayProvider, ReplayStep } from './providers';
+
+/** Just enough of BrowserService for the loop: one tab whose URL changes on goto */
+class FakeBrowser {
+    url = 'https://shop.test/';
+    visited: string[] = [];
+
+    async getPageObservation(): Promise<PageObservation> {
+        return { content: `Page at ${this.url}`, elementMap: new Map() };
+    }
+
+    async goto(url: string): Promise<void> {
+        this.visited.push(url);
+        this.url = url;
+    }
+
+    getPage() {
+        return { url: () => this.url, viewportSize: () => ({ width: 1280, height: 720 }) };
+    }
+
+    async getTabs() {
+        return [{ id: 1, url: this.url, title: 'Shop', active: true }];
+    }
+
+    async getFeedbackMessages(): Promise<string[]> {
+        return [];
+    }
+
+    settles = 0;
+
+    async waitForSettle(): Promise<void> {
+        this.settles++;
+    }
+
+    async describePoint(): Promise<string> {
+        return 'Button "Buy"';
+    }
+
+    async beginActionWatch(): Promise<void> {}
+
+    async mouseClick(): Promise<void> {}
+
+    async endActionWatch(): Promise<number> {
+        return 1;
+    }
+
+    getKnownElement() {
+        return undefined;
+    }
+}
+
+// Run one instruction from a replay script; returns everything the agent sent and asked the model
+async function run(script: ReplayStep[], instruction: string = 'Find the cheapest lamp', schema: any = null) {
+    const browser = new FakeBrowser();
+    const events: { type: string; payload: any }[] = [];
+    const agent = new AgentService(browser as unknown as BrowserService, (type, payload) => events.push({ type, payload }), { apiKey: 'unused' });
+    const provider = new ReplayProvider(script);
+    agent.useLLMProvider(provider);
+
+    await agent.onInstruction(instruction, schema);
+
+    const complete = events.find(event => event.type === 'agent_complete');
+    return { browser, events, complete: complete?.payload, requests: provider.getRequests() };
+}
+
+// The tool results the model was shown in a request
+const toolResults = (request: { messages: any[] }) =>
+    request.messages.filter(message => message.role === 'tool').map(message => JSON.parse(message.content));
+
+describe('AgentService (replayed)', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('plans, acts and finishes with the answer and the plan', async () => {
+        const { browser, complete, requests } = await run([
+            { toolCalls: [{ name: 'branch', arguments: { subgoals: ['Open the lamps category', 'Compare prices'] } }] },
+            { toolCalls: [{ name: 'goto', arguments: { url: 'https://shop.test/lamps' } }, { name: 'complete_subgoal' }] },
+            { toolCalls: [{ name: 'complete_subgoal' }] },
+            { toolCalls: [{ name: 'stop', arguments: { answer: 'The Basic lamp at $9' } }] }
+        ]);
+
+        expect(requests).toHaveLength(4);
+        expect(browser.visited).toEqual(['https://shop.test/lamps']);
+        expect(complete).toMatchObject({ status: 'success', answer: 'The Basic lamp at $9' });
+        expect(complete.planDetails[0].subgoals.map((subgoal: any) => [subgoal.id, subgoal.status]))
+            .toEqual([['S1', 'completed'], ['S2', 'completed']]);
+        expect(complete.planSummary[0].actions).toEqual([
+            '[Loop ID:1] branch([S1: Open the lamps category, S2: Compare prices])',
+            '[Loop ID:2] goto(https://shop.test/lamps)',
+            '[Loop ID:2] complete_subgoal() → now on: Compare prices',
+            '[Loop ID:3] complete_subgoal() → all subgoals finished'
+        ]);
+    });
+
+    it('shows the model the plan and the results of its previous calls', async () => {
+        const { requests } = await run([
+            { toolCalls: [{ name: 'branch', arguments: { subgoals: ['Open the lamps category'] } }] },
+            { toolCalls: [{ name: 'goto', arguments: { url: 'https://shop.test/lamps' } }] }
+        ]);
+
+        const second = requests[1];
+        const context = second.messages[second.messages.length - 1].content as string;
+        expect(context).toContain('- [S1] Open the lamps category (CURRENT)');
+        expect(toolResults(second)).toEqual([expect.objectContaining({ status: 'success', message: 'branch([S1: Open the lamps category])' })]);
+        expect(toolResults(requests[2])[1]).toMatchObject({ status: 'success', navigated: true, url: 'https://shop.test/lamps' });
+    });
+
+    it('reports refused planning calls as errors', async () => {
+        const { requests } = await run([
+            { toolCalls: [{ name: 'complete_subgoal' }] },
+            { toolCalls: [{ name: 'prune', arguments: { reason: 'dead end' } }] }
+        ]);
+
+        expect(toolResults(requests[2])).toEqual([
+            expect.objectContaining({ status: 'error', message: 'complete_subgoal() → failed: No subgoals in the current plan' }),
+            expect.objectContaining({ status: 'error', message: 'prune() → failed: No current subgoal' })
+        ]);
+    });
+
+    it('feeds argument errors back so the model can retry', async () => {
+        const { browser, requests } = await run([
+            { toolCalls: [{ name: 'goto', arguments: { link: 'https://shop.test/lamps' } }] },
+            { toolCalls: [{ name: 'goto', arguments: { url: 'https://shop.test/lamps' } }] }
+        ]);
+
+        const [rejected] = toolResults(requests[1]);
+        expect(rejected.status).toBe('error');
+        expect(rejected.validationErrors).toEqual(expect.arrayContaining([expect.objectContaining({ path: 'url' })]));
+        expect(browser.visited).toEqual(['https://shop.test/lamps']);
+    });
+
+    it('waits for the page to settle once per page action', async () => {
+        const { browser, requests } = await run([
+            { toolCalls: [{ name: 'click_at', arguments: { x: 100, y: 200 } }, { name: 'goto', arguments: { url: 'https://shop.test/lamps' } }] },
+            { toolCalls: [{ name: 'stop', arguments: { answer: 'Done' } }] }
+        ]);
+
+        expect(toolResults(requests[1]).map(result => result.status)).toEqual(['success', 'success']);
+        expect(browser.settles).toBe(2);
+    });
+
+    it('delivers the records that match the extraction schema', async () => {
+        const schema = { type: 'array', items: { type: 'object', properties: { name: { type: 'string' }, price: { type: 'number' } }, required: ['name', 'price'] } };
+        const { complete, requests } = await run([
+            { toolCalls: [{ name: 'extract', arguments: { records: [{ name: 'Basic', price: 9 }, { name: 'Deluxe', price: 'n/a' }] } }] },
+            { toolCalls: [{ name: 'extract', arguments: { records: [{ name: 'Deluxe' }] } }] },
+            { toolCalls: [{ name: 'stop', arguments: { answer: 'Done' } }] }
+        ], 'List the lamps', schema);
+
+        expect(complete.extraction).toEqual({ schema, records: [{ name: 'Basic', price: 9 }] });
+        const [, rejected] = toolResults(requests[2]);
+        expect(rejected.status).toBe('error');
+        expect(rejected.message).toContain('missing required property "price"');
+    });
+
+    it('ends the instruction when the same actions repeat on an unchanged page', async () => {
+        const note = { toolCalls: [{ name: 'note', arguments: { message: 'Lamps are on page 2' } }] };
+        const { complete, requests } = await run([note, note, note, note]);
+
+        expect(requests).toHaveLength(3);
+        expect(complete).toMatchObject({ status: 'budget_exhausted', reason: 'loop' });
+    });
+
+    it('refuses time limits that would overflow its timers', () => {
+        const agent = new AgentService(new FakeBrowser() as unknown as BrowserService, () => undefined, { apiKey: 'unused' });
+
+        expect(() => agent.setBudget({ maxDurationMs: 1e10 })).toThrow('Budget maxDurationMs must be at most 2147483647');
+        expect(agent.getBudget().maxDurationMs).toBe(600000);
+    });
+
+    it('finishes with "stop" once the script runs out', async () => {
+        const { complete, requests } = await run([{ content: 'Looking at the page' }]);
+
+        expect(requests).toHaveLength(2);
+        expect(complete.answer).toBe('Replay script exhausted');
+    });
+});
@@ -1,6 +1,13 @@
-import { LLMService, LLMResponse } from './llm';
-import { BrowserService, PageObservation, ElementDescriptor } from './browser';
-import { Planner, PlanContext } from './planner';
+import { LLMService, LLMResponse, LLMConfig } from './llm';
+import { LLMProvider } from './providers';
+import { BrowserService, ClickStrategy, PageObservation, ElementDescriptor, ElementChange, ObservationDiff, TabInfo, StaleElementError } from './browser';
+import { Planner, PlanContext, Subgoal } from './planner';
+import { ConversationMemory, ToolResult } from './memory';
+import { AgentTool, RetryPolicy, ToolContext, ToolRegistry, createDefaultToolRegistry } from './tools';
+import { StepImage, VisionConfig, estimateImageTokens, resolveVisionConfig } from './vision';
+import { BudgetExhaustion, BudgetTimeoutError, BudgetTracker, RunBudget, resolveRunBudget } from './budget';
+import { CancellationToken, CancelledError } from './cancellation';
+import { ExtractionResult, JsonSchema } from './extraction';
 
 // Utility function for retrying operations on specific errors
 async function retryOnError<T>(
@@ -19,39 +26,205 @@ async function retryOnError<T>(
     }
 }
 
+/** How the user ended an instruction: stopped it, or declared it done */
+export type CancelReason = 'stopped' | 'completed';
+
+/** Text in alerts / toasts that means the last action was rejected by the page */
+const ERROR_MESSAGE_PATTERN = /\b(error|failed|failure|invalid|incorrect|required|not found|try again|unable|denied|wrong|expired)\b/i;
+
+/** How long a stopped or timed-out instruction waits for its hung browser action before finishing anyway */
+const IN_FLIGHT_ACTION_GRACE_MS = 5000;
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    clickStrategies: ['default', 'scroll', 'force', 'keyboard'],
+    settleTimeoutMs: 3000
+};
+
+// Retry policy from AGENT_CLICK_STRATEGIES / AGENT_SETTLE_TIMEOUT_MS; unusable values fall back to the defaults
+function resolveRetryPolicy(): RetryPolicy {
+    const requested = (process.env.AGENT_CLICK_STRATEGIES ?? '').split(',').map(strategy => strategy.trim()).filter(Boolean);
+    const clickStrategies = requested.filter((strategy): strategy is ClickStrategy =>
+        DEFAULT_RETRY_POLICY.clickStrategies.includes(strategy as ClickStrategy));
+    if (clickStrategies.length < requested.length) {
+        console.warn(`[AGENT] Ignoring unknown click strategies in AGENT_CLICK_STRATEGIES (known: ${DEFAULT_RETRY_POLICY.clickStrategies.join(', ')})`);
+    }
+
+    let settleTimeoutMs = parseInt(process.env.AGENT_SETTLE_TIMEOUT_MS || String(DEFAULT_RETRY_POLICY.settleTimeoutMs), 10);
+    if (!Number.isFinite(settleTimeoutMs) || settleTimeoutMs < 0) {
+        console.warn(`[AGENT] AGENT_SETTLE_TIMEOUT_MS must be a number of milliseconds, using ${DEFAULT_RETRY_POLICY.settleTimeoutMs}`);
+        settleTimeoutMs = DEFAULT_RETRY_POLICY.settleTimeoutMs;
+    }
+
+    return {
+        clickStrategies: clickStrategies.length > 0 ? clickStrategies : DEFAULT_RETRY_POLICY.clickStrategies,
+        settleTimeoutMs
+    };
+}
 
 export class AgentService {
     private llm: LLMService;
     private browser: BrowserService;
     private sendResponse: (type: string, payload: any) => void;
     private planner: Planner;
+    private memory: ConversationMemory;
+    private tools: ToolRegistry;
     private isComplete: boolean = false;
     private isPausedForManualIntervention: boolean = false;
     private currentElementMap: Map<number, ElementDescriptor> = new Map();
     private loopIteration: number = 0;
-
-    constructor(browser: BrowserService, sendResponse: (type: string, payload: any) => void) {
+    private vision: VisionConfig;
+    private retryPolicy: RetryPolicy = resolveRetryPolicy();
+    /** Estimated image tokens spent on the current instruction (vision mode) */
+    private visionTokensUsed: number = 0;
+    private budget: RunBudget;
+    /** Spending of the current instruction against the budget */
+    private budgetTracker: BudgetTracker;
+    private isRunning: boolean = false;
+    private cancellation: CancellationToken = new CancellationToken();
+    private cancelReason: CancelReason = 'stopped';
+    /** Set while the user has paused the loop; resolved by resume() or cancelInstruction() */
+    private pauseGate: { promise: Promise<void>; release: () => void } | null = null;
+    /** Browser action still in flight, if any; a stopped instruction waits for it (within a grace period) so actions never overlap */
+    private inFlightAction: Promise<unknown> | null = null;
+    /** Settles the promise returned by onInstruction once the instruction is over */
+    private instructionDone: { resolve: () => void; reject: (error: unknown) => void } | null = null;
+
+    constructor(browser: BrowserService, sendResponse: (type: string, payload: any) => void, llmConfig: Partial<LLMConfig> = {}) {
         this.browser = browser;
-        this.llm = new LLMService();
+        this.llm = new LLMService(llmConfig);
         this.sendResponse = sendResponse;
         this.planner = new Planner();
+        this.memory = new ConversationMemory();
+        this.tools = createDefaultToolRegistry();
+        this.vision = resolveVisionConfig();
+        this.budget = resolveRunBudget();
+        this.budgetTracker = new BudgetTracker(this.budget);
+    }
+
+    // Add a site-specific or custom tool for this agent
+    registerTool(tool: AgentTool<any, any>): void {
+        this.tools.register(tool);
+    }
+
+    getToolRegistry(): ToolRegistry {
+        return this.tools;
     }
 
-    async onInstruction(instruction: string): Promise<void> {
+    // Run an instruction to the end, across manual-intervention pauses. One instruction at a time:
+    // callers queue further instructions until the returned promise settles.
+    /**
+     * @param extractionSchema JSON Schema the records saved with the extract tool must match
+     */
+    async onInstruction(instruction: string, extractionSchema: JsonSchema | null = null): Promise<void> {
+        if (this.instructionDone) {
+            throw new Error('An instruction is already running');
+        }
+
         // Always add the new instruction as a new goal to build upon previous context
-        this.planner.addGoal(instruction);
+        this.planner.addGoal(instruction, extractionSchema);
 
         console.log(`[AGENT] New instruction added. Plan depth: ${this.planner.getPlanDepth()}`);
         console.log(`[AGENT] Current goal: ${instruction}`);
 
         this.isComplete = false;
         this.loopIteration = 0; // Reset loop counter for new instruction
+        this.visionTokensUsed = 0;
+        this.budgetTracker = new BudgetTracker(this.budget);
+        this.cancellation = new CancellationToken();
+
+        const done = new Promise<void>((resolve, reject) => {
+            this.instructionDone = { resolve, reject };
+        });
 
         // Start the main processing loop
         await this.runProcessingLoop();
+        return done;
+    }
+
+    // Switch the LLM backend for this session; returns the resolved config without credentials
+    configureLLM(overrides: Partial<LLMConfig>): Omit<LLMConfig, 'apiKey'> {
+        this.llm.configure(overrides);
+        return this.llm.getConfig();
+    }
+
+    // Use an already constructed provider, e.g. a ReplayProvider driving the loop from a script
+    useLLMProvider(provider: LLMProvider): void {
+        this.llm.useProvider(provider);
+    }
+
+    // Turn vision mode on/off or change its settings for this session; returns the resolved settings
+    setVisionMode(overrides: Partial<VisionConfig>): VisionConfig {
+        this.vision = resolveVisionConfig(overrides, this.vision);
+        return { ...this.vision };
+    }
+
+    // Change how page actions are verified and retried
+    setRetryPolicy(overrides: Partial<RetryPolicy>): RetryPolicy {
+        this.retryPolicy = { ...this.retryPolicy, ...overrides };
+        return { ...this.retryPolicy };
+    }
+
+    getVisionMode(): VisionConfig {
+        return { ...this.vision };
+    }
+
+    // Stop the running (or manual-intervention-paused) instruction; returns false when there is nothing to stop
+    cancelInstruction(reason: CancelReason = 'stopped'): boolean {
+        const active = this.isRunning || this.isPausedForManualIntervention;
+        if (!active || this.isComplete || this.cancellation.isCancelled) return false;
+
+        console.log(`[AGENT] Instruction ${reason === 'completed' ? 'marked complete' : 'cancelled'} by the user`);
+        this.cancelReason = reason;
+        this.cancellation.cancel();
+        this.releasePause();
+
+        // Waiting for manual intervention: no loop is running to notice the cancellation
+        if (!this.isRunning) {
+            this.isPausedForManualIntervention = false;
+            this.finishCancelled();
+            this.settleInstruction();
+        }
+        return true;
     }
 
-    private buildContext(originalInstruction: string, pageObs: PageObservation): string {
+    // Hold the loop before its next step; the current action finishes first
+    pause(): boolean {
+        if (!this.isRunning || this.pauseGate || this.cancellation.isCancelled) return false;
+
+        let release!: () => void;
+        const promise = new Promise<void>(resolve => { release = resolve; });
+        this.pauseGate = { promise, release };
+        console.log(`[AGENT] Pause requested`);
+        return true;
+    }
+
+    resume(): boolean {
+        if (!this.pauseGate) return false;
+        console.log(`[AGENT] Resuming`);
+        this.releasePause();
+        return true;
+    }
+
+    isPaused(): boolean {
+        return this.pauseGate !== null;
+    }
+
+    private releasePause(): void {
+        this.pauseGate?.release();
+        this.pauseGate = null;
+    }
+
+    // Change the per-instruction limits; applies from the next instruction
+    setBudget(overrides: Partial<RunBudget>): RunBudget {
+        this.budget = resolveRunBudget(overrides, this.budget);
+        return { ...this.budget };
+    }
+
+    getBudget(): RunBudget {
+        return { ...this.budget };
+    }
+
+    private buildContext(originalInstruction: string, pageObs: PageObservation, tabs: TabInfo[] = []): string {
         const currentPlan = this.planner.getCurrentPlan();
         if (!currentPlan) return originalInstruction;
 
@@ -61,6 +234,7 @@ export class AgentService {
         const hasSubgoals = this.planner.hasSubgoals();
         const recentActions = this.planner.getRecentActions();
         const notes = this.planner.getCurrentNotes();
+        const prunedBranches = this.planner.getPrunedBranches();
 
         let context = '';
 
@@ -79,23 +253,20 @@ export class AgentService {
         context += `Current Goal: ${currentPlan.goal}\n`;
 
         if (hasSubgoals) {
-            context += `Active Subgoals:\n`;
-            subgoals.forEach((subgoal) => {
-                let statusLabel = '';
-                if (subgoal.status === 'completed') {
-                    statusLabel = ' (COMPLETED)';
-                } else if (subgoal.status === 'current') {
-                    statusLabel = ' (CURRENT)';
-                } else {
-                    statusLabel = ' (PENDING)';
-                }
-                context += `  - ${subgoal.description}${statusLabel}\n`;
-            });
+            context += `Subgoals:\n`;
+            context += this.renderSubgoals(subgoals, 1);
         } else {
             context += `⚠️ No subgoals yet - Consider using 'branch' to plan your steps!\n`;
             context += `💡 If the goal is already achieved, use 'stop' with your final answer!\n`;
         }
 
+        if (prunedBranches.length > 0) {
+            context += `Pruned Subgoals (dead ends - try a different approach):\n`;
+            prunedBranches.forEach(branch => {
+                context += `  - [${branch.id}] ${branch.description} → pruned: ${branch.reason}\n`;
+            });
+        }
+
         if (recentActions.length > 0) {
             context += `Recent Actions:\n`;
             recentActions.forEach(action => {
@@ -110,7 +281,15 @@ export class AgentService {
             });
         }
 
-        context += `\nPlan Depth: ${planDepth} goals, ${subgoals.length} subgoals (use 'branch' once per plan to add sub-goals)\n`;
+        const extraction = this.planner.getExtraction();
+        if (extraction) {
+            if (extraction.schema) {
+                context += `Extraction Schema (each record saved with 'extract' must match it):\n${JSON.stringify(extraction.schema)}\n`;
+            }
+            context += `Records extracted so far: ${extraction.records.length}\n`;
+        }
+
+        context += `\nPlan Depth: ${planDepth} goals, ${this.planner.getAllSubgoals().length} subgoals (use 'branch' to add or nest sub-goals)\n`;
         context += `Current Iteration ID: ${this.loopIteration}\n`;
 
         // Add completion reminder when it seems like task might be done
@@ -121,6 +300,18 @@ export class AgentService {
         }
         context += `\n`;
 
+        if (tabs.length > 1) {
+            context += `**Open Tabs:**\n`;
+            tabs.forEach(tab => {
+                context += `  - Tab ${tab.id}: ${tab.title || 'Untitled'} (${tab.url})${tab.active ? ' (CURRENT)' : ''}\n`;
+            });
+            context += `\n`;
+        }
+
+        if (pageObs.diff) {
+            context += `**Changes since last action:**\n${this.renderDiff(pageObs.diff)}\n`;
+        }
+
         // Include page observation
         context += `**Current Page:**\n${pageObs.content}\n`;
         context += `\nUse element IDs [number] for click actions (e.g., click with elementId: 1)`;
@@ -129,6 +320,60 @@ export class AgentService {
         return context;
     }
 
+    // Render an observation diff one change per line, capping long element lists
+    private renderDiff(diff: ObservationDiff): string {
+        const lines: string[] = [];
+        const maxElements = 15;
+        const listElements = (label: string, changes: ElementChange[], describe: (change: ElementChange) => string) => {
+            if (changes.length === 0) return;
+            lines.push(`${label}:`);
+            changes.slice(0, maxElements).forEach(change => lines.push(`    - ${describe(change)}`));
+            if (changes.length > maxElements) lines.push(`    - …and ${changes.length - maxElements} more`);
+        };
+
+        if (diff.urlChanged) lines.push(`URL changed: ${diff.urlChanged.from} → ${diff.urlChanged.to}`);
+        if (diff.titleChanged) lines.push(`Title changed: "${diff.titleChanged.from}" → "${diff.titleChanged.to}"`);
+        diff.dialogsOpened.forEach(dialog => lines.push(`Dialog opened: "${dialog}"`));
+        diff.dialogsClosed.forEach(dialog => lines.push(`Dialog closed: "${dialog}"`));
+        diff.announcements.forEach(text => lines.push(`New message: "${text}"`));
+
+        if (diff.urlChanged) {
+            // A different document - every element is new, so element-level changes are just noise
+            lines.push(`New page loaded (${diff.added.length} interactive elements)`);
+        } else {
+            listElements('Added', diff.added, change => `${change.role} "${change.name}" [${change.id}]`);
+            listElements('Removed', diff.removed, change => `${change.role} "${change.name}" [${change.id}]`);
+            listElements('Changed', diff.changed, change =>
+                `${change.role} "${change.name}" [${change.id}]: ${change.from || '(default)'} → ${change.to || '(default)'}`);
+        }
+
+        if (lines.length === 0) return `  - No visible changes on the page\n`;
+        return lines.map(line => line.startsWith('    ') ? line : `  - ${line}`).join('\n') + '\n';
+    }
+
+    // Render the subgoal tree one line per subgoal. Finished subtrees are collapsed.
+    private renderSubgoals(subgoals: Subgoal[], depth: number): string {
+        let rendered = '';
+        for (const subgoal of subgoals) {
+            const indent = '  '.repeat(depth);
+            let line = `${indent}- [${subgoal.id}] ${subgoal.description} (${subgoal.status.toUpperCase()})`;
+
+            if (subgoal.children.length > 0 && subgoal.status !== 'current' && subgoal.status !== 'pending') {
+                line += ` [${subgoal.children.length} sub-step${subgoal.children.length > 1 ? 's' : ''} hidden]`;
+                rendered += `${line}\n`;
+            } else {
+                rendered += `${line}\n`;
+                rendered += this.renderSubgoals(subgoal.children, depth + 1);
+            }
+        }
+        return rendered;
+    }
+
+    private getCurrentUrl(): string | undefined {
+        const page = this.browser.getPage();
+        return page ? page.url() : undefined;
+    }
+
     // Helper method to add actions with iteration ID prefix
     private addActionWithIteration(action: string): void {
         this.planner.addAction(`[Loop ID:${this.loopIteration}] ${action}`);
@@ -139,6 +384,7 @@ export class AgentService {
         if (this.isPausedForManualIntervention) {
             console.log(`[AGENT] Resuming processing after manual intervention completion`);
             this.isPausedForManualIntervention = false;
+            this.budgetTracker.resume();
 
             this.addActionWithIteration('manual_intervention_complete()');
             this.planner.addNote('Manual intervention complete. User unblocked the issue.');
@@ -150,6 +396,7 @@ export class AgentService {
                 await this.runProcessingLoop();
             } else {
                 console.log(`[AGENT] No goals remaining or task already complete`);
+                this.settleInstruction();
             }
         } else {
             console.log(`[AGENT] Resume called but agent was not paused for manual intervention`);
@@ -158,7 +405,88 @@ export class AgentService {
 
     // Shared processing loop used by both onInstruction and resumeAfterManualIntervention
     private async runProcessingLoop(): Promise<void> {
+        let failure: unknown;
+        let timedOut = false;
+        this.isRunning = true;
+        try {
+            await this.runSteps();
+        } catch (error) {
+            if (error instanceof BudgetTimeoutError) timedOut = true;
+            else if (!(error instanceof CancelledError)) failure = error;
+        } finally {
+            await this.waitForInFlightAction();
+            this.isRunning = false;
+            this.releasePause();
+        }
+
+        if (timedOut && !this.isComplete) {
+            this.finishWithBudgetExhausted(this.budgetTracker.check() ?? {
+                reason: 'time',
+                message: `Ran out of the ${Math.round(this.budget.maxDurationMs / 1000)}s time limit`,
+                usage: this.budgetTracker.getUsage()
+            });
+        } else if (this.cancellation.isCancelled && !this.isComplete) {
+            this.finishCancelled();
+        }
+        // Waiting for manual intervention: the instruction continues in resumeAfterManualIntervention
+        if (failure !== undefined || !this.isPausedForManualIntervention) {
+            this.settleInstruction(failure);
+        }
+    }
+
+    // Actions never overlap, but a hung one must not keep the instruction open forever
+    private async waitForInFlightAction(): Promise<void> {
+        const action = this.inFlightAction;
+        if (!action) return;
+
+        let timer: NodeJS.Timeout | undefined;
+        const gaveUp = await Promise.race([
+            action.then(() => false),
+            new Promise<boolean>(resolve => { timer = setTimeout(() => resolve(true), IN_FLIGHT_ACTION_GRACE_MS); })
+        ]);
+        clearTimeout(timer);
+        if (gaveUp) {
+            console.warn(`[AGENT] Browser action still running after ${IN_FLIGHT_ACTION_GRACE_MS}ms, finishing without it`);
+        }
+        this.inFlightAction = null;
+    }
+
+    /**
+     * Settle with the operation, or reject with CancelledError when the instruction is stopped
+     * or BudgetTimeoutError when its time runs out. The operation itself keeps running.
+     */
+    private guard<T>(operation: Promise<T>): Promise<T> {
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new BudgetTimeoutError()), this.budgetTracker.remainingMs());
+        });
+        return this.cancellation.race(Promise.race([operation, timeout])).finally(() => clearTimeout(timer));
+    }
+
+    private settleInstruction(failure?: unknown): void {
+        const done = this.instructionDone;
+        this.instructionDone = null;
+        if (failure === undefined) {
+            done?.resolve();
+        } else if (done) {
+            done.reject(failure);
+        } else {
+            console.error(`[AGENT] Processing failed:`, failure);
+        }
+    }
+
+    private async runSteps(): Promise<void> {
         while (!this.isComplete && this.planner.hasActivePlans() && !this.isPausedForManualIntervention) {
+            await this.waitWhilePaused();
+            this.cancellation.throwIfCancelled();
+
+            const exhausted = this.budgetTracker.check();
+            if (exhausted) {
+                this.finishWithBudgetExhausted(exhausted);
+                break;
+            }
+            this.budgetTracker.recordStep();
+
             this.loopIteration++; // Increment loop counter
             console.log(`[AGENT] Starting loop iteration ${this.loopIteration}`);
             const currentPlan = this.planner.getCurrentPlan();
@@ -166,7 +494,7 @@ export class AgentService {
             // Get current page observation (with navigation retry)
             const obsStart = Date.now();
             const pageObs = await retryOnError(
-                () => this.browser.getPageObservation(),
+                () => this.guard(this.browser.getPageObservation()),
                 (error) => error.message.includes('Execution context was destroyed')
             );
             console.log(`[AGENT] Page observation took ${Date.now() - obsStart}ms`);
@@ -174,17 +502,35 @@ export class AgentService {
 
             // Use the current goal for context building
             const currentGoal = currentPlan?.goal || '';
-            const context = this.buildContext(currentGoal, pageObs);
+            const tabs = await this.browser.getTabs();
+            let context = this.buildContext(currentGoal, pageObs, tabs);
+            const { image, note } = await this.captureStepImage(pageObs);
+            if (note) context += `\n${note}`;
 
             console.log('context: ', context);
-            const llmResponse: LLMResponse = await this.llm.getResponse([
-                { role: 'user', content: context }
-            ]);
+            this.memory.startTurn(context, `[Loop ID:${this.loopIteration}] Page observation of ${this.getCurrentUrl() || 'unknown URL'} (omitted)`, image);
+            const messages = this.memory.getMessages();
+            const llmResponse: LLMResponse = await this.guard(this.llm.getResponse(messages, this.tools.buildToolDefinitions()));
+            this.memory.recordAssistant(llmResponse);
+            this.budgetTracker.recordUsage(llmResponse.usage ?? { inputTokens: this.memory.countTokens(messages), outputTokens: 0 });
 
             if (llmResponse.toolCalls && llmResponse.toolCalls.length > 0) {
+                // The same actions on the same page again: the earlier attempts changed nothing
+                const repeats = this.budgetTracker.recordActions(pageObs.content, llmResponse.toolCalls);
+                if (repeats >= this.budget.maxRepeats) {
+                    this.finishWithBudgetExhausted(this.budgetTracker.check()!);
+                    break;
+                }
+                if (repeats > 1) {
+                    const calls = llmResponse.toolCalls.map(call => call.name).join(', ');
+                    this.planner.addNote(`Repeated ${calls} on an unchanged page (${repeats}x) - it had no effect, try a different approach`);
+                }
+
                 for (const toolCall of llmResponse.toolCalls) {
-                    await this.toolActivation(toolCall.name, toolCall.arguments);
+                    const toolResult = await this.toolActivation(toolCall.name, toolCall.arguments);
+                    this.memory.recordToolResult(toolCall.id, toolCall.name, toolCall.arguments, toolResult);
                     if (this.isComplete || this.isPausedForManualIntervention) break;
+                    this.cancellation.throwIfCancelled();
                 }
             }
 
@@ -199,6 +545,7 @@ export class AgentService {
 
         // Log why the loop ended
         if (this.isPausedForManualIntervention) {
+            this.budgetTracker.pause();
             console.log(`[AGENT] Processing paused - waiting for manual intervention completion`);
         } else if (this.isComplete) {
             console.log(`[AGENT] Processing complete`);
@@ -207,167 +554,189 @@ export class AgentService {
         }
     }
 
-    private async toolActivation(actionName: string, args: any): Promise<void> {
-        try {
-            switch (actionName) {
-                case 'branch':
-                    if (args.subgoals && Array.isArray(args.subgoals)) {
-                        const newSubgoals = args.subgoals.filter((sg: string) => sg && sg.trim());
-                        if (newSubgoals.length > 0) {
-                            const wasEmpty = !this.planner.hasSubgoals();
-
-                            if (this.planner.addSubgoals(newSubgoals)) {
-                                if (wasEmpty) {
-                                    console.log(`[AGENT] Started working on first subgoal: ${newSubgoals[0]}`);
-                                }
-
-                                console.log(`[AGENT] Branched to ${newSubgoals.length} subgoal${newSubgoals.length > 1 ? 's' : ''}: [${newSubgoals.join(', ')}]`);
-
-                                const allSubgoals = this.planner.getSubgoalDescriptions();
-                                console.log(`[AGENT] All current subgoals: [${allSubgoals.join(', ')}]`);
-
-                                this.addActionWithIteration(`branch([${newSubgoals.join(', ')}])`);
-                            } else {
-                                console.log(`[AGENT] Failed to add subgoals`);
-                            }
-                        } else {
-                            console.log(`[AGENT] Branch called but no valid subgoals provided`);
-                        }
-                    } else {
-                        console.log(`[AGENT] Branch called without subgoals array`);
-                    }
-                    break;
-
-
-                case 'complete_subgoal':
-                    const result = this.planner.completeCurrentSubgoal();
-                    if (result.completed) {
-                        if (result.next) {
-                            console.log(`[AGENT] Completed previous subgoal, now working on: ${result.next}`);
-                            this.addActionWithIteration(`complete_subgoal() → now on: ${result.next}`);
-                        } else if (result.allCompleted) {
-                            console.log(`[AGENT] Completed final subgoal! All subgoals done.`);
-                            this.addActionWithIteration(`complete_subgoal() → all subgoals completed`);
-                        }
-                    } else {
-                        console.log(`[AGENT] No current subgoal to complete`);
-                    }
-                    break;
+    private async waitWhilePaused(): Promise<void> {
+        const gate = this.pauseGate;
+        if (!gate) return;
 
-                case 'note':
-                    const note = args.message || args.content || '';
-                    if (this.planner.addNote(note)) {
-                        console.log(`[AGENT] Noted: ${note}`);
-                        this.addActionWithIteration(`note(${note})`);
-                    }
-                    break;
+        console.log(`[AGENT] Paused before loop iteration ${this.loopIteration + 1}`);
+        this.budgetTracker.pause();
+        await gate.promise;
+        this.budgetTracker.resume();
+    }
 
-                case 'manual_intervention':
-                    const reason = args.reason || 'Manual intervention required';
-                    const suggestion = args.suggestion || 'Please complete the required action in the browser';
-                    const page = this.browser.getPage();
-                    const currentUrl = page ? await page.url() : 'Unknown URL';
+    // Stopped by the user: report what was done so far
+    private finishCancelled(): void {
+        this.isComplete = true;
+        const markedComplete = this.cancelReason === 'completed';
+        this.addActionWithIteration(markedComplete ? 'marked_complete_by_user()' : 'cancelled_by_user()');
+        this.planner.addNote(markedComplete ? 'The user marked this instruction as complete.' : 'The user stopped this instruction before it finished.');
+
+        this.sendResponse('agent_complete', {
+            status: markedComplete ? 'completed_by_user' : 'cancelled',
+            answer: markedComplete ? 'Marked complete by the user' : 'Stopped by the user',
+            ...this.extractionPayload(),
+            planSummary: this.planner.getSummary(),
+            planDetails: this.planner.getDetailedSummary()
+        });
+    }
 
-                    console.log(`[AGENT] Manual intervention requested: ${reason}`);
-                    console.log(`[AGENT] Suggestion: ${suggestion}`);
-                    console.log(`[AGENT] Pausing agent processing until intervention is complete`);
+    // Out of budget: end the instruction with what was achieved so far instead of a final answer
+    private finishWithBudgetExhausted(exhaustion: BudgetExhaustion): void {
+        this.isComplete = true;
+        console.log(`[AGENT] Budget exhausted (${exhaustion.reason}): ${exhaustion.message}`);
+        this.addActionWithIteration(`budget_exhausted(${exhaustion.reason})`);
+
+        const completed = this.planner.getSubgoalsByStatus('completed').map(subgoal => subgoal.description);
+        const unfinished = this.planner.getAllSubgoals()
+            .filter(subgoal => subgoal.status === 'current' || subgoal.status === 'pending')
+            .map(subgoal => subgoal.description);
+
+        let summary = `Stopped before finishing: ${exhaustion.message}.`;
+        if (completed.length > 0) summary += ` Completed: ${completed.join('; ')}.`;
+        if (unfinished.length > 0) summary += ` Not finished: ${unfinished.join('; ')}.`;
+        summary += ` Last page: ${this.getCurrentUrl() || 'unknown'}.`;
+
+        this.sendResponse('agent_complete', {
+            status: 'budget_exhausted',
+            reason: exhaustion.reason,
+            answer: summary,
+            usage: exhaustion.usage,
+            ...this.extractionPayload(),
+            planSummary: this.planner.getSummary(),
+            planDetails: this.planner.getDetailedSummary()
+        });
+    }
 
-                    // Pause the agent processing
-                    this.isPausedForManualIntervention = true;
+    // Records gathered so far are delivered however the instruction ends
+    private extractionPayload(): { extraction?: ExtractionResult } {
+        const extraction = this.planner.getExtraction();
+        return extraction ? { extraction } : {};
+    }
 
-                    this.sendResponse('manual_intervention', {
-                        reasoning: reason,
-                        suggestion: suggestion,
-                        currentUrl: currentUrl,
-                        timestamp: Date.now()
-                    });
+    // Vision mode: an annotated screenshot for this step, unless it would exceed the instruction's image token budget
+    private async captureStepImage(pageObs: PageObservation): Promise<{ image?: StepImage; note?: string }> {
+        if (!this.vision.enabled) return {};
 
-                    this.addActionWithIteration(`manual_intervention("${reason}")`);
-                    break;
-
-                case 'stop':
-                    this.isComplete = true;
-                    const finalAnswer = args.answer || args.message || 'Task completed';
-                    console.log(`[AGENT] Stopped: ${finalAnswer}`);
-                    this.sendResponse('agent_complete', {
-                        answer: finalAnswer,
-                        planSummary: this.planner.getSummary()
-                    });
-                    break;
+        const viewport = this.browser.getPage()?.viewportSize() || { width: 1280, height: 720 };
+        const tokens = estimateImageTokens(viewport.width, viewport.height, this.vision.detail);
+        if (this.visionTokensUsed + tokens > this.vision.tokenBudget) {
+            console.log(`[AGENT] Vision budget exhausted (${this.visionTokensUsed}/${this.vision.tokenBudget} tokens), continuing text-only`);
+            return { note: `(Screenshot budget for this instruction is used up - continuing with the text page content only)` };
+        }
 
-                case 'click':
-                    if (args.elementId && this.currentElementMap.has(args.elementId)) {
-                        const elementDesc = this.currentElementMap.get(args.elementId)!;
-                        const page = this.browser.getPage();
-                        const beforeUrl = page ? await page.url() : undefined;
-                        await this.browser.click(elementDesc.selector);
-
-                        // Check if page changed after click
-                        await new Promise(resolve => setTimeout(resolve, 1000)); // Wait for potential navigation
-                        const afterUrl = page ? await page.url() : undefined;
-                        const pageChanged = beforeUrl !== afterUrl;
-
-                        console.log(`[AGENT] Clicked element ${args.elementId}: ${elementDesc.name} (${elementDesc.selector})`);
-
-                        if (pageChanged) {
-                            this.addActionWithIteration(`click("${elementDesc.name}") → navigated to new page`);
-                        } else {
-                            this.addActionWithIteration(`click("${elementDesc.name}") → success`);
-                        }
-                    } else if (args.selector) {
-                        await this.browser.click(args.selector);
-                        console.log(`[AGENT] Clicked selector: ${args.selector}`);
-                        this.addActionWithIteration(`click(${args.selector})`);
-                    } else {
-                        throw new Error('No valid elementId or selector provided for click');
-                    }
-                    break;
+        try {
+            const screenshot = await this.browser.captureMarkedScreenshot(pageObs.elementMap, this.vision.quality);
+            this.visionTokensUsed += tokens;
+            return {
+                image: { dataUrl: `data:image/jpeg;base64,${screenshot.data}`, detail: this.vision.detail, tokens },
+                note: `A screenshot of the ${screenshot.width}x${screenshot.height} viewport is attached. Boxes labelled with numbers mark elements by their ID [number] ` +
+                    `(${screenshot.marks} marked); 'click_at' takes coordinates in the same pixels.`
+            };
+        } catch (error) {
+            console.error(`[AGENT] Could not capture screenshot for vision mode:`, error);
+            return {};
+        }
+    }
 
-                case 'type':
-                    if (args.elementId && this.currentElementMap.has(args.elementId)) {
-                        const elementDesc = this.currentElementMap.get(args.elementId)!;
-                        await this.browser.type(elementDesc.selector, args.text);
-                        console.log(`[AGENT] Typed "${args.text}" into element ${args.elementId}: ${elementDesc.name} (${elementDesc.selector})`);
-                        this.addActionWithIteration(`type("${elementDesc.name}", "${args.text}")`);
-                    } else if (args.selector) {
-                        await this.browser.type(args.selector, args.text);
-                        console.log(`[AGENT] Typed "${args.text}" into selector: ${args.selector}`);
-                        this.addActionWithIteration(`type(${args.selector}, "${args.text}")`);
-                    } else {
-                        throw new Error('No valid elementId or selector provided for type');
-                    }
-                    break;
+    private async toolActivation(actionName: string, rawArgs: unknown): Promise<ToolResult> {
+        const beforeUrl = this.getCurrentUrl();
+
+        const validation = this.tools.validate(actionName, rawArgs);
+        if (!validation.success) {
+            console.warn(`[AGENT] Rejected tool call: ${validation.message}`);
+            this.addActionWithIteration(`invalid(${actionName}): ${validation.message.slice(0, 120)}`);
+            return {
+                status: 'error',
+                message: `${validation.message}. Fix the arguments and call the tool again.`,
+                navigated: false,
+                url: beforeUrl,
+                validationErrors: validation.issues
+            };
+        }
 
-                case 'enter':
-                    await this.browser.enter();
-                    console.log(`[AGENT] Pressed Enter key`);
-                    this.addActionWithIteration('enter()');
-                    break;
+        const { tool, args } = validation;
+        const feedbackBefore = tool.affectsPage ? await this.browser.getFeedbackMessages() : [];
 
-                case 'goto':
-                    await this.browser.goto(args.url);
-                    console.log(`[AGENT] Navigated to: ${args.url}`);
-                    this.addActionWithIteration(`goto(${args.url})`);
-                    break;
+        try {
+            const action = tool.handler(args, this.createToolContext());
+            this.inFlightAction = action.catch(() => undefined);
+            const output = await this.guard(action);
+            const summary = tool.summarize(args, output);
+
+            if (!tool.affectsPage) {
+                this.addActionWithIteration(summary);
+                const afterUrl = this.getCurrentUrl();
+                const status = tool.failed?.(output) ? 'error' : 'success';
+                return { status, message: summary, navigated: beforeUrl !== afterUrl, url: afterUrl };
+            }
 
-                case 'goBack':
-                    await this.browser.goBack();
-                    console.log(`[AGENT] Went back`);
-                    this.addActionWithIteration('goBack()');
-                    break;
+            // Post-condition: let the page settle, then look for error messages the action caused
+            if (!tool.settlesPage) await this.guard(this.browser.waitForSettle(this.retryPolicy.settleTimeoutMs));
+            const pageMessages = (await this.browser.getFeedbackMessages()).filter(text => !feedbackBefore.includes(text));
+            const pageErrors = pageMessages.filter(text => ERROR_MESSAGE_PATTERN.test(text));
+            const afterUrl = this.getCurrentUrl();
 
-                default:
-                    console.warn(`[AGENT] Unknown action: ${actionName}`);
-                    break;
+            if (pageErrors.length > 0) {
+                const message = `${summary}, but the page reported an error: ${pageErrors.map(text => `"${text}"`).join(', ')}`;
+                this.addActionWithIteration(`${summary} → page error: ${pageErrors[0].slice(0, 80)}`);
+                return { status: 'error', message, navigated: beforeUrl !== afterUrl, url: afterUrl, pageMessages };
             }
+
+            this.addActionWithIteration(summary);
+            return {
+                status: 'success',
+                message: summary,
+                navigated: beforeUrl !== afterUrl,
+                url: afterUrl,
+                ...(pageMessages.length > 0 && { pageMessages })
+            };
         } catch (error) {
+            if (error instanceof CancelledError || error instanceof BudgetTimeoutError) throw error;
             console.error(`[AGENT] Error executing ${actionName}:`, error);
-            debugger
-            this.addActionWithIteration(`error(${actionName}(${args.elementId})): error: ${error instanceof Error ? error.message?.slice(0, 80) : 'Unknown error'}`);
+            this.addActionWithIteration(`error(${actionName}(${JSON.stringify(args)})): error: ${error instanceof Error ? error.message?.slice(0, 80) : 'Unknown error'}`);
             this.sendResponse('agent_error', {
                 action: actionName,
                 error: error instanceof Error ? error.message : 'Unknown error'
             });
+
+            const afterUrl = this.getCurrentUrl();
+            return {
+                status: 'error',
+                message: error instanceof Error ? error.message : 'Unknown error',
+                navigated: beforeUrl !== afterUrl,
+                url: afterUrl
+            };
+        }
+    }
+
+    private createToolContext(): ToolContext {
+        return {
+            browser: this.browser,
+            planner: this.planner,
+            sendResponse: this.sendResponse,
+            getElement: (elementId: number) => this.getElement(elementId),
+            getCurrentUrl: () => this.getCurrentUrl(),
+            markComplete: () => {
+                this.isComplete = true;
+            },
+            pauseForManualIntervention: () => {
+                this.isPausedForManualIntervention = true;
+            },
+            retryPolicy: this.retryPolicy,
+            cancellation: this.cancellation
+        };
+    }
+
+    // Look up an element from the latest observation
+    private getElement(elementId: number): ElementDescriptor {
+        const elementDesc = this.currentElementMap.get(elementId);
+        if (!elementDesc) {
+            const knownElement = this.browser.getKnownElement(elementId);
+            if (knownElement) {
+                throw new StaleElementError(elementId, knownElement);
+            }
+            throw new Error(`Element [${elementId}] is not on the current page. Use an ID from the latest page content.`);
         }
+        return elementDesc;
     }
 }
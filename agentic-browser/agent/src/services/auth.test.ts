@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+import { TokenVerifier } from './auth';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const jwks = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1' }] };
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+// An RS256 token for the test tenant, valid for an hour unless the claims say otherwise
+const sign = (claims: Record<string, unknown>, header: Record<string, unknown> = { alg: 'RS256', kid: 'key-1' }): string => {
+    const now = Math.floor(Date.now() / 1000);
+    const body = `${encode(header)}.${encode({ iss: 'https://tenant.test/', aud: 'agent-api', sub: 'auth0|ann', exp: now + 3600, ...claims })}`;
+    return `${body}.${crypto.sign('RSA-SHA256', Buffer.from(body), privateKey).toString('base64url')}`;
+};
+
+describe('TokenVerifier', () => {
+    let fetchKeys: jest.SpyInstance;
+    let verifier: TokenVerifier;
+
+    beforeEach(() => {
+        fetchKeys = jest.spyOn(global, 'fetch').mockImplementation(async () => new Response(JSON.stringify(jwks)));
+        verifier = new TokenVerifier('tenant.test', 'agent-api');
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('identifies the user of a valid token', async () => {
+        await expect(verifier.verify(sign({}))).resolves.toEqual({ id: 'auth0|ann' });
+        await expect(verifier.verify(sign({ aud: ['other-api', 'agent-api'] }))).resolves.toEqual({ id: 'auth0|ann' });
+        expect(fetchKeys).toHaveBeenCalledTimes(1);
+        expect(fetchKeys.mock.calls[0][0]).toBe('https://tenant.test/.well-known/jwks.json');
+    });
+
+    it('rejects tokens that were tampered with or not signed by the tenant', async () => {
+        const [header, , signature] = sign({}).split('.');
+        const forged = `${header}.${encode({ iss: 'https://tenant.test/', aud: 'agent-api', sub: 'auth0|bob', exp: 9999999999 })}.${signature}`;
+
+        await expect(verifier.verify(forged)).rejects.toThrow('Invalid token signature');
+        await expect(verifier.verify(sign({}, { alg: 'none', kid: 'key-1' }))).rejects.toThrow('Unsupported token signature');
+        await expect(verifier.verify(sign({}, { alg: 'RS256', kid: 'key-2' }))).rejects.toThrow('Token was signed with an unknown key');
+        await expect(verifier.verify('not-a-token')).rejects.toThrow('Malformed token');
+    });
+
+    it('checks expiry, issuer, audience and subject', async () => {
+        await expect(verifier.verify(sign({ exp: Math.floor(Date.now() / 1000) - 3600 }))).rejects.toThrow('Token has expired');
+        await expect(verifier.verify(sign({ iss: 'https://other.test/' }))).rejects.toThrow('Token was issued by another tenant');
+        await expect(verifier.verify(sign({ aud: 'other-api' }))).rejects.toThrow('Token is not meant for this server');
+        await expect(verifier.verify(sign({ sub: '' }))).rejects.toThrow('Token has no subject');
+    });
+
+    it('refuses to verify when authentication is not configured', async () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const anonymous = new TokenVerifier('', '');
+
+        expect(anonymous.isEnabled()).toBe(false);
+        await expect(anonymous.verify(sign({}))).rejects.toThrow('Authentication is not configured on the agent server');
+    });
+});
@@ -0,0 +1,119 @@
+import crypto from 'crypto';
+
+/** The signed-in user behind a connection, from a verified access token */
+export interface UserIdentity {
+    /** Stable user ID (the token's `sub` claim) */
+    id: string;
+}
+
+/** Signing keys are refreshed this often, and at most this often when a token names an unknown key */
+const KEYS_MAX_AGE_MS = 10 * 60 * 1000;
+const KEYS_MIN_REFRESH_MS = 30 * 1000;
+const KEYS_FETCH_TIMEOUT_MS = 5000;
+/** Allowed clock difference when checking exp / nbf */
+const CLOCK_SKEW_S = 60;
+
+const decodeSegment = (segment: string): any => {
+    try {
+        return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    } catch {
+        throw new Error('Malformed token');
+    }
+};
+
+/**
+ * Verifies the Auth0 access tokens the UI sends in the connection handshake: RS256 signatures
+ * checked against the tenant's published keys, plus issuer, audience and expiry. Without
+ * AGENT_AUTH0_DOMAIN and AGENT_AUTH0_AUDIENCE every connection is anonymous.
+ */
+export class TokenVerifier {
+    private issuer: string | null;
+    private keys: Map<string, crypto.KeyObject> = new Map();
+    private keysFetchedAt = 0;
+
+    constructor(
+        domain: string | undefined = process.env.AGENT_AUTH0_DOMAIN,
+        private audience: string | undefined = process.env.AGENT_AUTH0_AUDIENCE
+    ) {
+        this.issuer = domain && audience ? `https://${domain.replace(/^https?:\/\//, '').replace(/\/+$/, '')}/` : null;
+        if (!this.issuer) {
+            console.warn('[AUTH] AGENT_AUTH0_DOMAIN / AGENT_AUTH0_AUDIENCE are not set, all connections are anonymous');
+        }
+    }
+
+    isEnabled(): boolean {
+        return this.issuer !== null;
+    }
+
+    async verify(token: string): Promise<UserIdentity> {
+        if (!this.issuer) {
+            throw new Error('Authentication is not configured on the agent server');
+        }
+
+        const segments = typeof token === 'string' ? token.split('.') : [];
+        if (segments.length !== 3) {
+            throw new Error('Malformed token');
+        }
+        const [encodedHeader, encodedPayload, signature] = segments;
+        const header = decodeSegment(encodedHeader);
+        const claims = decodeSegment(encodedPayload);
+
+        if (header?.alg !== 'RS256' || typeof header.kid !== 'string') {
+            throw new Error('Unsupported token signature');
+        }
+        const key = await this.getKey(header.kid);
+        const signed = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+        if (!crypto.verify('RSA-SHA256', signed, key, Buffer.from(signature, 'base64url'))) {
+            throw new Error('Invalid token signature');
+        }
+
+        const now = Date.now() / 1000;
+        if (typeof claims.exp !== 'number' || claims.exp < now - CLOCK_SKEW_S) {
+            throw new Error('Token has expired');
+        }
+        if (typeof claims.nbf === 'number' && claims.nbf > now + CLOCK_SKEW_S) {
+            throw new Error('Token is not valid yet');
+        }
+        if (claims.iss !== this.issuer) {
+            throw new Error('Token was issued by another tenant');
+        }
+        const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+        if (!audiences.includes(this.audience)) {
+            throw new Error('Token is not meant for this server');
+        }
+        if (typeof claims.sub !== 'string' || !claims.sub) {
+            throw new Error('Token has no subject');
+        }
+
+        return { id: claims.sub };
+    }
+
+    private async getKey(kid: string): Promise<crypto.KeyObject> {
+        const age = Date.now() - this.keysFetchedAt;
+        // Refresh periodically, and early when the tenant may have rotated its keys
+        if (age > KEYS_MAX_AGE_MS || (!this.keys.has(kid) && age > KEYS_MIN_REFRESH_MS)) {
+            await this.fetchKeys();
+        }
+
+        const key = this.keys.get(kid);
+        if (!key) {
+            throw new Error('Token was signed with an unknown key');
+        }
+        return key;
+    }
+
+    private async fetchKeys(): Promise<void> {
+        const response = await fetch(`${this.issuer}.well-known/jwks.json`, { signal: AbortSignal.timeout(KEYS_FETCH_TIMEOUT_MS) });
+        if (!response.ok) {
+            throw new Error(`Could not fetch signing keys (HTTP ${response.status})`);
+        }
+
+        const { keys } = await response.json() as { keys?: (crypto.JsonWebKey & { kid?: string })[] };
+        this.keys = new Map(
+            (keys || [])
+                .filter(jwk => jwk.kty === 'RSA' && typeof jwk.kid === 'string')
+                .map(jwk => [jwk.kid as string, crypto.createPublicKey({ key: jwk, format: 'jwk' })])
+        );
+        this.keysFetchedAt = Date.now();
+    }
+}
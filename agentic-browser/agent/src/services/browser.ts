@@ -1,109 +1,491 @@
-import { chromium, Browser, BrowserContext, Page, CDPSession } from 'playwright';
-import { DomParser, PageObservation, ElementDescriptor } from './domParser';
-
-
-
-export { PageObservation, ElementDescriptor };
+import { BrowserContext, Page, CDPSession, Locator } from 'playwright';
+import { DomParser, PageObservation, ElementDescriptor, ElementBox, ElementChange, ObservationDiff, StaleElementError, parseRoleSelector, scopeToFrames, splitFrameSelector } from './domParser';
+import { BrowserPool } from './browserPool';
+import { StorageState } from './profileStore';
+import { SessionLaunchConfig, resolveLaunchConfig, toContextOptions } from './launchConfig';
+
+
+
+export { PageObservation, ElementDescriptor, ElementBox, ElementChange, ObservationDiff, StaleElementError };
+
+export interface TabInfo {
+  id: number;
+  url: string;
+  title: string;
+  active: boolean;
+}
+
+export interface TabEvent {
+  type: 'tab_opened' | 'tab_closed' | 'tab_switched';
+  tabId: number;
+  tabs: TabInfo[];
+}
+
+export interface MarkedScreenshot {
+  /** Base64 JPEG */
+  data: string;
+  width: number;
+  height: number;
+  /** Number of elements marked on the image */
+  marks: number;
+}
+
+/** Ways to click an element, tried in order by the click tool's retry policy */
+export type ClickStrategy = 'default' | 'scroll' | 'force' | 'keyboard';
+
+/** The DOM counts as settled after this long without mutations */
+const DOM_QUIET_MS = 300;
+
+const BEGIN_WATCH_SCRIPT = `(() => {
+  window.__agentActionWatch?.observer.disconnect();
+  const watch = { count: 0 };
+  watch.observer = new MutationObserver(records => { watch.count += records.length; });
+  watch.observer.observe(document, { subtree: true, childList: true, attributes: true, characterData: true });
+  window.__agentActionWatch = watch;
+})()`;
+
+const END_WATCH_SCRIPT = `(() => {
+  const watch = window.__agentActionWatch;
+  if (!watch) return null;
+  watch.observer.disconnect();
+  delete window.__agentActionWatch;
+  return watch.count;
+})()`;
+
+// Resolves once no mutation happened for quietMs, or after timeoutMs
+const domQuietScript = (quietMs: number, timeoutMs: number): string => `new Promise(resolve => {
+  let timer;
+  const done = () => { observer.disconnect(); clearTimeout(timer); clearTimeout(deadline); resolve(); };
+  const observer = new MutationObserver(() => { clearTimeout(timer); timer = setTimeout(done, ${quietMs}); });
+  observer.observe(document, { subtree: true, childList: true, attributes: true, characterData: true });
+  timer = setTimeout(done, ${quietMs});
+  const deadline = setTimeout(done, ${timeoutMs});
+})`;
+
+const FEEDBACK_SCRIPT = `(() => {
+  const selector = '[role="alert"], [role="alertdialog"], [role="status"], [aria-live="assertive"], [aria-live="polite"], .toast, .error, .alert';
+  const texts = [];
+  for (const el of document.querySelectorAll(selector)) {
+    if (el.getClientRects().length === 0) continue;
+    const text = (el.textContent || '').replace(/\\s+/g, ' ').trim().slice(0, 200);
+    if (text && !texts.includes(text)) texts.push(text);
+  }
+  return texts;
+})()`;
+
+/** Upper bound on marks per screenshot, so dense pages stay legible */
+const MAX_MARKS = 150;
+const MARKS_OVERLAY_ID = '__agent_marks__';
+
+// Page script drawing the set-of-marks overlay (a string, as the agent build has no DOM typings)
+const drawMarksScript = (marks: ({ id: number } & ElementBox)[]): string => `(() => {
+  const overlay = document.createElement('div');
+  overlay.id = '${MARKS_OVERLAY_ID}';
+  overlay.style.cssText = 'position:fixed;left:0;top:0;width:0;height:0;pointer-events:none;z-index:2147483647';
+  for (const mark of ${JSON.stringify(marks)}) {
+    const box = document.createElement('div');
+    box.style.cssText = 'position:fixed;box-sizing:border-box;border:2px solid #ff1493;' +
+      'left:' + mark.x + 'px;top:' + mark.y + 'px;width:' + mark.width + 'px;height:' + mark.height + 'px';
+    const label = document.createElement('span');
+    label.textContent = String(mark.id);
+    label.style.cssText = 'position:absolute;left:-2px;top:' + (mark.y < 16 ? '0' : '-16px') +
+      ';background:#ff1493;color:#fff;font:bold 11px/14px monospace;padding:0 3px';
+    box.appendChild(label);
+    overlay.appendChild(box);
+  }
+  document.documentElement.appendChild(overlay);
+})()`;
 
 export class BrowserService {
-  private browser: Browser | null = null;
   private context: BrowserContext | null = null;
+  // The active tab; every action and observation targets it
   private page: Page | null = null;
+  private pages: Map<number, Page> = new Map();
+  private activeTabId: number | null = null;
+  private nextTabId: number = 1;
+  private tabListener: ((event: TabEvent) => void) | null = null;
   private cdpSession: CDPSession | null = null;
   private isStreaming: boolean = false;
+  private frameHandler: ((frameData: string) => void) | null = null;
+  // CDP sessions that already forward screencast frames, so restarting the stream does not add listeners
+  private screencastSessions: WeakSet<CDPSession> = new WeakSet();
   private domParser: DomParser;
 
-  constructor() {
+  constructor(private pool: BrowserPool, private launchConfig: SessionLaunchConfig = resolveLaunchConfig()) {
     this.domParser = new DomParser();
   }
 
-  async initialize(): Promise<void> {
-    this.browser = await chromium.launch({
-      headless: true,
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-extensions',
-        '--disable-plugins',
-        '--disable-background-timer-throttling',
-        '--disable-backgrounding-occluded-windows',
-        '--disable-renderer-backgrounding',
-        '--disable-features=TranslateUI',
-        '--disable-background-networking',
-        '--disable-sync',
-        '--disable-default-apps',
-        '--no-first-run'
-      ]
+  /**
+   * Take an isolated context from the pool, set up per the launch config, and open the start page.
+   * @param onQueued called with the queue position while the pool is full
+   * @param storageState cookies and localStorage to start from (e.g. a saved profile's)
+   */
+  async initialize(onQueued?: (position: number) => void, storageState?: StorageState): Promise<void> {
+    const contextOptions = { ...toContextOptions(this.launchConfig), storageState };
+    await this.setupContext(await this.pool.acquire(this, { onQueued, contextOptions }));
+  }
+
+  /**
+   * Swap the current context for a fresh one with the same launch config, starting from
+   * `storageState` (e.g. another profile's). All tabs are closed; streaming continues on the new first tab.
+   */
+  async resetContext(storageState?: StorageState): Promise<void> {
+    await this.stopScreencast().catch(() => undefined);
+    this.context = null;
+    this.page = null;
+    this.cdpSession = null;
+    this.pages.clear();
+    this.activeTabId = null;
+
+    await this.setupContext(await this.pool.renew(this, { ...toContextOptions(this.launchConfig), storageState }));
+    if (this.frameHandler) {
+      await this.startStreaming(this.frameHandler);
+    }
+  }
+
+  // Cookies and localStorage of the current context
+  async getStorageState(): Promise<StorageState> {
+    if (!this.context) {
+      throw new Error('Browser not initialized');
+    }
+    return this.context.storageState();
+  }
+
+  private async setupContext(context: BrowserContext): Promise<void> {
+    this.context = context;
+    // New tabs and popups (target=_blank links, OAuth windows, window.open)
+    this.context.on('page', (page) => {
+      this.handleNewPage(page).catch(error => console.error('[BROWSER] Error handling new tab:', error));
     });
 
-    this.context = await this.browser.newContext();
     this.page = await this.context.newPage();
+    this.activeTabId = this.registerPage(this.page);
     this.cdpSession = await this.page.context().newCDPSession(this.page);
 
-    await this.page.goto('https://www.google.com');
+    await this.page.goto(this.launchConfig.startUrl);
+  }
+
+  getLaunchConfig(): SessionLaunchConfig {
+    return this.launchConfig;
   }
 
   getPage(): Page | null {
     return this.page;
   }
 
-  async click(selector: string): Promise<void> {
-    if (!this.page) {
-      throw new Error('Browser not initialized');
+  // Receive tab opened/closed/switched notifications
+  setTabListener(listener: (event: TabEvent) => void): void {
+    this.tabListener = listener;
+  }
+
+  async getTabs(): Promise<TabInfo[]> {
+    const tabs: TabInfo[] = [];
+    for (const [id, page] of this.pages) {
+      const title = await page.title().catch(() => '');
+      tabs.push({ id, url: page.url(), title, active: id === this.activeTabId });
+    }
+    return tabs;
+  }
+
+  getActiveTabId(): number | null {
+    return this.activeTabId;
+  }
+
+  async switchTab(tabId: number): Promise<void> {
+    await this.activateTab(tabId);
+    await this.emitTabEvent('tab_switched', tabId);
+  }
+
+  async closeTab(tabId?: number): Promise<void> {
+    const id = tabId ?? this.activeTabId;
+    const page = id !== null ? this.pages.get(id) : undefined;
+    if (id === null || !page) {
+      throw new Error(`Tab ${tabId} does not exist`);
+    }
+    if (this.pages.size === 1) {
+      throw new Error('Cannot close the last open tab');
+    }
+
+    // The page 'close' handler takes care of bookkeeping and switching tabs
+    await page.close();
+  }
+
+  // Track a page and return its tab ID (idempotent)
+  private registerPage(page: Page): number {
+    for (const [id, tracked] of this.pages) {
+      if (tracked === page) return id;
+    }
+
+    const tabId = this.nextTabId++;
+    this.pages.set(tabId, page);
+    page.on('close', () => {
+      this.handlePageClosed(tabId).catch(error => console.error('[BROWSER] Error handling closed tab:', error));
+    });
+    return tabId;
+  }
+
+  private async handleNewPage(page: Page): Promise<void> {
+    const tabId = this.registerPage(page);
+    // The first page is activated by initialize()
+    if (this.activeTabId === null || this.activeTabId === tabId) return;
+
+    console.log(`[BROWSER] New tab ${tabId} opened`);
+    await page.waitForLoadState('domcontentloaded').catch(() => undefined);
+
+    // Follow the new tab, like a user would after clicking a link that opens one
+    await this.activateTab(tabId);
+    await this.emitTabEvent('tab_opened', tabId);
+  }
+
+  private async handlePageClosed(tabId: number): Promise<void> {
+    // Tabs of a context that was already reset or closed
+    if (!this.pages.delete(tabId)) return;
+    console.log(`[BROWSER] Tab ${tabId} closed`);
+
+    if (this.activeTabId === tabId) {
+      this.cdpSession = null;
+      this.isStreaming = false;
+      const remaining = Array.from(this.pages.keys());
+      this.activeTabId = null;
+      this.page = null;
+      if (remaining.length > 0) {
+        await this.activateTab(remaining[remaining.length - 1]);
+      }
+    }
+
+    await this.emitTabEvent('tab_closed', tabId);
+  }
+
+  // Point the service (and the screencast) at another tab
+  private async activateTab(tabId: number): Promise<void> {
+    const page = this.pages.get(tabId);
+    if (!page) {
+      throw new Error(`Tab ${tabId} does not exist`);
+    }
+    if (tabId === this.activeTabId && this.page === page) {
+      return;
     }
 
-    // Handle special getByRole selectors for international text
-    if (selector.startsWith('getByRole:')) {
-      const [, role, name] = selector.split(':', 3);
+    const previousSession = this.cdpSession;
+    if (previousSession) {
       try {
-        await this.page.getByRole(role as any, { name }).click({ timeout: 3000 });
+        await this.stopScreencast();
+        await previousSession.detach();
       } catch (error) {
-        if (error instanceof Error && error.message.includes('strict mode violation')) {
-          await this.page.getByRole(role as any, { name }).first().click({ timeout: 3000 });
-        } else if (error instanceof Error && error.message.includes('intercepts pointer events')) {
-          // Try alternative click strategies for complex dropdowns
-          const locator = this.page.getByRole(role as any, { name });
-          try {
-            // Try force click to bypass pointer event interception
-            await locator.click({ force: true, timeout: 3000 });
-          } catch (forceError) {
-            // Try selecting the option directly for dropdowns
-            if (role === 'combobox') {
-              await locator.selectOption({ label: name });
-            } else {
-              throw error;
-            }
-          }
-        } else {
-          throw error;
-        }
+        // The previous tab may already be gone
       }
-    } else {
-      await this.page.click(selector, { timeout: 3000 });
+    }
+
+    this.page = page;
+    this.activeTabId = tabId;
+    await page.bringToFront();
+    this.cdpSession = await page.context().newCDPSession(page);
+    this.isStreaming = false;
+
+    if (this.frameHandler) {
+      await this.startStreaming(this.frameHandler);
     }
   }
 
-  async type(selector: string, text: string): Promise<void> {
+  private async emitTabEvent(type: TabEvent['type'], tabId: number): Promise<void> {
+    if (!this.tabListener) return;
+    this.tabListener({ type, tabId, tabs: await this.getTabs() });
+  }
+
+  async click(selector: string, strategy: ClickStrategy = 'default'): Promise<void> {
+    const locator = await this.locate(selector);
+
+    switch (strategy) {
+      case 'scroll':
+        await locator.scrollIntoViewIfNeeded({ timeout: 3000 });
+        await locator.click({ timeout: 3000 });
+        return;
+
+      case 'force':
+        // Bypass actionability checks, e.g. when an overlay intercepts pointer events
+        await locator.click({ force: true, timeout: 3000 });
+        return;
+
+      case 'keyboard':
+        await locator.focus({ timeout: 3000 });
+        await this.page!.keyboard.press(parseRoleSelector(selector)?.role === 'checkbox' ? 'Space' : 'Enter');
+        return;
+    }
+
+    try {
+      await locator.click({ timeout: 3000 });
+    } catch (error) {
+      // Native <select> behind a combobox: pick the option directly instead of clicking
+      const roleSelector = parseRoleSelector(selector);
+      if (error instanceof Error && error.message.includes('intercepts pointer events') && roleSelector?.role === 'combobox') {
+        await locator.selectOption({ label: roleSelector.name }, { timeout: 3000 });
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  // Start counting DOM mutations, so an action's effect can be measured with endActionWatch()
+  async beginActionWatch(): Promise<void> {
     if (!this.page) {
       throw new Error('Browser not initialized');
     }
+    await this.page.evaluate(BEGIN_WATCH_SCRIPT).catch(() => undefined);
+  }
 
-    // Handle special getByRole selectors for international text  
-    if (selector.startsWith('getByRole:')) {
-      const [, role, name] = selector.split(':', 3);
-      try {
-        await this.page.getByRole(role as any, { name }).fill(text, { timeout: 3000 });
-      } catch (error) {
-        if (error instanceof Error && error.message.includes('strict mode violation')) {
-          await this.page.getByRole(role as any, { name }).first().fill(text, { timeout: 3000 });
-        } else {
-          throw error;
+  // Number of DOM mutations since beginActionWatch(), or null if the document was replaced (navigation)
+  async endActionWatch(): Promise<number | null> {
+    if (!this.page) {
+      throw new Error('Browser not initialized');
+    }
+    return this.page.evaluate<number | null>(END_WATCH_SCRIPT).catch(() => null);
+  }
+
+  // Wait until the DOM has been quiet for a moment and the network is idle, bounded by timeoutMs
+  async waitForSettle(timeoutMs = 3000): Promise<void> {
+    if (!this.page) {
+      throw new Error('Browser not initialized');
+    }
+    const page = this.page;
+    const started = Date.now();
+
+    await page.waitForLoadState('domcontentloaded', { timeout: timeoutMs }).catch(() => undefined);
+    const remaining = Math.max(timeoutMs - (Date.now() - started), 0);
+    await Promise.all([
+      page.waitForLoadState('networkidle', { timeout: remaining }).catch(() => undefined),
+      // Navigation destroys the execution context mid-wait; domcontentloaded above already covered it
+      page.evaluate(domQuietScript(DOM_QUIET_MS, remaining)).catch(() => undefined)
+    ]);
+  }
+
+  // Attributes that reflect an element's state (checked, expanded, value, …), or null if it is gone
+  async getElementState(selector: string): Promise<string | null> {
+    if (!this.page) {
+      throw new Error('Browser not initialized');
+    }
+    return this.domParser.locate(this.page, selector).evaluate((el: any) => [
+      el.getAttribute('aria-checked'), el.getAttribute('aria-expanded'), el.getAttribute('aria-pressed'),
+      el.getAttribute('aria-selected'), el.getAttribute('aria-disabled'), el.getAttribute('class'),
+      el.checked, el.value, el.disabled
+    ].map(String).join('|'), undefined, { timeout: 500 }).catch(() => null);
+  }
+
+  // Visible text of alert / status / toast regions, used to spot errors reported after an action
+  async getFeedbackMessages(): Promise<string[]> {
+    if (!this.page) {
+      return [];
+    }
+    return this.page.evaluate<string[]>(FEEDBACK_SCRIPT).catch(() => []);
+  }
+
+  async type(selector: string, text: string): Promise<void> {
+    await this.withLocator(selector, locator => locator.fill(text, { timeout: 3000 }));
+  }
+
+  async hover(selector: string): Promise<void> {
+    await this.withLocator(selector, locator => locator.hover({ timeout: 3000 }));
+  }
+
+  async setChecked(selector: string, checked: boolean): Promise<void> {
+    await this.withLocator(selector, locator => locator.setChecked(checked, { timeout: 3000 }));
+  }
+
+  // Select options on a native <select>, or open a custom ARIA combobox/listbox and click the options
+  async selectOption(selector: string, values: string[]): Promise<string[]> {
+    if (!this.page) {
+      throw new Error('Browser not initialized');
+    }
+    const page = this.page;
+
+    return this.withLocator(selector, async locator => {
+      const isNativeSelect = await locator.evaluate(el => el.tagName === 'SELECT', undefined, { timeout: 3000 });
+      if (isNativeSelect) {
+        // Match by value first, then by visible label
+        try {
+          return await locator.selectOption(values, { timeout: 3000 });
+        } catch {
+          return await locator.selectOption(values.map(label => ({ label })), { timeout: 3000 });
         }
       }
-    } else {
-      await this.page.fill(selector, text, { timeout: 3000 });
+
+      // Options live in the same frame as the dropdown
+      const { framePath } = splitFrameSelector(selector);
+      await locator.click({ timeout: 3000 });
+      for (const value of values) {
+        const option = scopeToFrames(framePath, `role=option[name=${JSON.stringify(value)}]`);
+        await this.domParser.locate(page, option).first().click({ timeout: 3000 });
+      }
+      return values;
+    });
+  }
+
+  async scrollElementIntoView(selector: string): Promise<void> {
+    await this.withLocator(selector, locator => locator.scrollIntoViewIfNeeded({ timeout: 3000 }));
+  }
+
+  // Scroll the page with the mouse wheel from the middle of the viewport. Defaults to most of one screen.
+  async scrollPage(direction: 'up' | 'down' | 'left' | 'right', amount?: number): Promise<{ scrollX: number; scrollY: number }> {
+    if (!this.page) {
+      throw new Error('Browser not initialized');
     }
+
+    const viewport = this.page.viewportSize() || { width: 1280, height: 720 };
+    const vertical = direction === 'up' || direction === 'down';
+    const distance = amount ?? Math.round((vertical ? viewport.height : viewport.width) * 0.8);
+    const sign = direction === 'up' || direction === 'left' ? -1 : 1;
+
+    await this.page.mouse.move(viewport.width / 2, viewport.height / 2);
+    await this.page.mouse.wheel(vertical ? 0 : sign * distance, vertical ? sign * distance : 0);
+    // Give lazy-loading / infinite-scroll handlers a moment to react
+    await this.page.waitForTimeout(300);
+
+    return this.page.evaluate<{ scrollX: number; scrollY: number }>('({ scrollX: window.scrollX, scrollY: window.scrollY })');
+  }
+
+  // Press a key or shortcut, e.g. pressKey('a', ['Control']) → Control+a
+  async pressKey(key: string, modifiers: string[] = []): Promise<string> {
+    if (!this.page) {
+      throw new Error('Browser not initialized');
+    }
+
+    const combo = [...modifiers, key].map(k => this.mapKeyName(k)).join('+');
+    await this.page.keyboard.press(combo);
+    return combo;
+  }
+
+  async focus(selector: string): Promise<void> {
+    await this.withLocator(selector, locator => locator.focus({ timeout: 3000 }));
+  }
+
+  // Resolve a selector from the element map, failing with StaleElementError if the element is gone
+  private async locate(selector: string): Promise<Locator> {
+    if (!this.page) {
+      throw new Error('Browser not initialized');
+    }
+    return this.domParser.locateFresh(this.page, selector);
+  }
+
+  // Run an action on the element, falling back to the first match when a CSS selector is ambiguous
+  private async withLocator<T>(selector: string, action: (locator: Locator) => Promise<T>): Promise<T> {
+    const locator = await this.locate(selector);
+    try {
+      return await action(locator);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('strict mode violation')) {
+        return await action(locator.first());
+      }
+      throw error;
+    }
+  }
+
+  // Show a collapsed section of the page in full on the next observations
+  expandSection(sectionId: string): boolean {
+    return this.domParser.expandSection(sectionId);
+  }
+
+  // Last known descriptor for an element ID from an earlier observation
+  getKnownElement(elementId: number): ElementDescriptor | undefined {
+    return this.domParser.getKnownElement(elementId);
   }
 
   async goBack(): Promise<void> {
@@ -135,6 +517,29 @@ export class BrowserService {
     return await this.domParser.getPageObservation(this.page);
   }
 
+  // Screenshot with a labelled box over every visible element of the observation (set-of-marks).
+  // The overlay is only in the page while the screenshot is taken.
+  async captureMarkedScreenshot(elementMap: Map<number, ElementDescriptor>, quality = 60): Promise<MarkedScreenshot> {
+    if (!this.page) {
+      throw new Error('Browser not initialized');
+    }
+    const page = this.page;
+    const viewport = page.viewportSize() || { width: 1280, height: 720 };
+
+    const marks = [...elementMap]
+      .filter(([, { box }]) => box && box.x < viewport.width && box.y < viewport.height && box.x + box.width > 0 && box.y + box.height > 0)
+      .slice(0, MAX_MARKS)
+      .map(([id, { box }]) => ({ id, ...box! }));
+
+    await page.evaluate(drawMarksScript(marks));
+    try {
+      const image = await page.screenshot({ type: 'jpeg', quality, scale: 'css' });
+      return { data: image.toString('base64'), width: viewport.width, height: viewport.height, marks: marks.length };
+    } finally {
+      await page.evaluate(`document.getElementById('${MARKS_OVERLAY_ID}')?.remove()`).catch(() => undefined);
+    }
+  }
+
   // Mouse control methods for manual intervention
   async mouseMove(x: number, y: number): Promise<void> {
     if (!this.page) {
@@ -143,6 +548,21 @@ export class BrowserService {
     await this.page.mouse.move(x, y);
   }
 
+  // Describe what is at a viewport point, e.g. 'button "Save"' or 'canvas', for logging coordinate clicks
+  async describePoint(x: number, y: number): Promise<string> {
+    if (!this.page) {
+      throw new Error('Browser not initialized');
+    }
+
+    return this.page.evaluate<string>(`(() => {
+      const el = document.elementFromPoint(${x}, ${y});
+      if (!el) return 'nothing';
+      const label = (el.getAttribute('aria-label') || el.textContent || el.getAttribute('title') || '').replace(/\\s+/g, ' ').trim().slice(0, 60);
+      const role = el.getAttribute('role') || el.tagName.toLowerCase();
+      return label ? role + ' "' + label + '"' : role;
+    })()`);
+  }
+
   async mouseClick(x: number, y: number, button: 'left' | 'right' | 'middle' = 'left', clickCount: number = 1): Promise<void> {
     if (!this.page) {
       throw new Error('Browser not initialized');
@@ -269,38 +689,60 @@ export class BrowserService {
   }
 
   async startStreaming(onFrame: (frameData: string) => void): Promise<void> {
+    // Remember the handler so the screencast can follow tab switches
+    this.frameHandler = onFrame;
     if (!this.cdpSession || this.isStreaming) {
       return;
     }
 
-    await this.cdpSession.send('Page.enable');
-    await this.cdpSession.send('Runtime.enable');
+    const session = this.cdpSession;
+    await session.send('Page.enable');
+    await session.send('Runtime.enable');
 
-    this.cdpSession.on('Page.screencastFrame', (event: any) => {
-      onFrame(event.data);
-      this.cdpSession?.send('Page.screencastFrameAck', { sessionId: event.sessionId });
-    });
+    if (!this.screencastSessions.has(session)) {
+      this.screencastSessions.add(session);
+      session.on('Page.screencastFrame', (event: any) => {
+        this.frameHandler?.(event.data);
+        session.send('Page.screencastFrameAck', { sessionId: event.sessionId }).catch(() => undefined);
+      });
+    }
 
-    await this.cdpSession.send('Page.startScreencast', {
-      format: 'jpeg',
-      quality: 80,
-      maxWidth: 1280,
-      maxHeight: 720
-    });
+    const { format, quality, maxWidth, maxHeight } = this.launchConfig.screencast;
+    await session.send('Page.startScreencast', { format, quality, maxWidth, maxHeight });
 
     this.isStreaming = true;
   }
 
   async stopStreaming(): Promise<void> {
+    this.frameHandler = null;
+    await this.stopScreencast();
+  }
+
+  private async stopScreencast(): Promise<void> {
     if (!this.cdpSession || !this.isStreaming) {
       return;
     }
 
-    await this.cdpSession.send('Page.stopScreencast');
     this.isStreaming = false;
+    await this.cdpSession.send('Page.stopScreencast');
   }
 
   isStreamingActive(): boolean {
     return this.isStreaming;
   }
-} 
\ No newline at end of file
+
+  // Give the context back to the pool for good; the service cannot be used afterwards
+  async close(): Promise<void> {
+    this.frameHandler = null;
+    this.tabListener = null;
+    await this.stopScreencast().catch(() => undefined);
+
+    this.context = null;
+    this.page = null;
+    this.cdpSession = null;
+    this.pages.clear();
+    this.activeTabId = null;
+    // Also stops waiting if the pool had not handed out a context yet
+    await this.pool.release(this);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,148 @@
+import { chromium, Browser, BrowserContext } from 'playwright';
+import { BrowserPool, resolvePoolConfig } from './browserPool';
+
+/** Stands in for a Chromium process: hands out contexts and remembers what was closed */
+class FakeBrowser {
+    contexts: { closed: boolean; options: unknown }[] = [];
+    closed = false;
+    private onDisconnected: (() => void) | null = null;
+
+    async newContext(options?: unknown) {
+        const context = { closed: false, options, close: async () => { context.closed = true; } };
+        this.contexts.push(context);
+        return context;
+    }
+
+    on(event: string, listener: () => void): void {
+        if (event === 'disconnected') this.onDisconnected = listener;
+    }
+
+    async close(): Promise<void> {
+        this.closed = true;
+    }
+
+    crash(): void {
+        this.onDisconnected?.();
+    }
+}
+
+// Let launches and context creation finish
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('resolvePoolConfig', () => {
+    it('rejects pools that cannot serve a session', () => {
+        expect(() => resolvePoolConfig({ maxBrowsers: 0 })).toThrow('Browser pool needs at least one browser and one context per browser');
+        expect(() => resolvePoolConfig({ contextsPerBrowser: NaN })).toThrow('Browser pool needs at least one browser and one context per browser');
+        expect(() => resolvePoolConfig({ maxBrowsers: 1, warmBrowsers: 2 })).toThrow('Warm browsers must be between 0 and 1');
+    });
+});
+
+describe('BrowserPool', () => {
+    let launched: FakeBrowser[];
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        launched = [];
+        jest.spyOn(chromium, 'launch').mockImplementation(async () => {
+            const browser = new FakeBrowser();
+            launched.push(browser);
+            return browser as unknown as Browser;
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('spreads sessions over browsers up to the limit', async () => {
+        const pool = new BrowserPool({ maxBrowsers: 2, contextsPerBrowser: 2, warmBrowsers: 0 });
+
+        await Promise.all([{}, {}, {}].map(owner => pool.acquire(owner, { contextOptions: { locale: 'de-DE' } })));
+
+        expect(launched).toHaveLength(2);
+        expect(launched[0].contexts[0].options).toEqual({ locale: 'de-DE' });
+        expect(pool.getStats()).toEqual({ browsers: 2, contextsInUse: 3, capacity: 4, waiting: 0, utilization: 0.75 });
+    });
+
+    it('queues sessions while the pool is full and admits them in order', async () => {
+        const pool = new BrowserPool({ maxBrowsers: 1, contextsPerBrowser: 1, warmBrowsers: 0 });
+        const [first, second, third] = [{}, {}, {}];
+        const positions: number[] = [];
+        await pool.acquire(first);
+
+        const secondContext = pool.acquire(second, { onQueued: position => positions.push(position) });
+        const thirdContext = pool.acquire(third);
+        expect(pool.getStats().waiting).toBe(2);
+
+        await pool.release(first);
+
+        expect(launched[0].contexts[0].closed).toBe(true);
+        await expect(secondContext).resolves.toBe(launched[0].contexts[1]);
+        expect(positions).toEqual([1]);
+        expect(pool.getStats()).toMatchObject({ contextsInUse: 1, waiting: 1 });
+
+        await pool.release(third);
+        await expect(thirdContext).rejects.toThrow('Stopped waiting for a browser');
+    });
+
+    it('refuses a second context for the same owner', async () => {
+        const pool = new BrowserPool({ warmBrowsers: 0 });
+        const owner = {};
+        await pool.acquire(owner);
+
+        await expect(pool.acquire(owner)).rejects.toThrow('This owner already holds or waits for a browser context');
+    });
+
+    it('keeps the warm browsers and closes the spare ones', async () => {
+        const pool = new BrowserPool({ maxBrowsers: 2, contextsPerBrowser: 1, warmBrowsers: 1 });
+        await pool.warmUp();
+        const [first, second] = [{}, {}];
+        await pool.acquire(first);
+        await pool.acquire(second);
+        expect(launched).toHaveLength(2);
+
+        await pool.release(first);
+        await pool.release(second);
+        await flush();
+
+        expect(pool.getStats().browsers).toBe(1);
+        expect(launched.filter(browser => browser.closed)).toHaveLength(1);
+    });
+
+    it('renews a context on the same browser without giving up the slot', async () => {
+        const pool = new BrowserPool({ maxBrowsers: 1, contextsPerBrowser: 1, warmBrowsers: 0 });
+        const owner = {};
+        const original = await pool.acquire(owner);
+
+        const renewed = await pool.renew(owner, { locale: 'fr-FR' });
+
+        expect((original as unknown as { closed: boolean }).closed).toBe(true);
+        expect(renewed).toBe(launched[0].contexts[1] as unknown as BrowserContext);
+        expect(pool.getStats().contextsInUse).toBe(1);
+        await expect(pool.renew({})).rejects.toThrow('No browser context to renew');
+    });
+
+    it('launches a new browser after one crashed', async () => {
+        const pool = new BrowserPool({ maxBrowsers: 1, contextsPerBrowser: 2, warmBrowsers: 0 });
+        const owner = {};
+        await pool.acquire(owner);
+
+        launched[0].crash();
+        await pool.release(owner);
+        await pool.acquire({});
+
+        expect(launched).toHaveLength(2);
+        expect(pool.getStats().browsers).toBe(1);
+    });
+
+    it('rejects waiting sessions on shutdown', async () => {
+        const pool = new BrowserPool({ maxBrowsers: 1, contextsPerBrowser: 1, warmBrowsers: 0 });
+        await pool.acquire({});
+        const waiting = pool.acquire({});
+
+        await pool.shutdown();
+
+        await expect(waiting).rejects.toThrow('Browser pool is shutting down');
+        expect(launched[0].closed).toBe(true);
+    });
+});
@@ -0,0 +1,271 @@
+import { chromium, Browser, BrowserContext, BrowserContextOptions } from 'playwright';
+
+export interface BrowserPoolConfig {
+    /** Chromium processes the pool may run at once */
+    maxBrowsers: number;
+    /** Isolated contexts (sessions) served by one browser process */
+    contextsPerBrowser: number;
+    /** Browser processes kept running even when no session uses them */
+    warmBrowsers: number;
+}
+
+export interface BrowserPoolStats {
+    browsers: number;
+    contextsInUse: number;
+    capacity: number;
+    /** Sessions waiting for a free context */
+    waiting: number;
+    /** contextsInUse / capacity, 0..1 */
+    utilization: number;
+}
+
+export interface AcquireOptions {
+    contextOptions?: BrowserContextOptions;
+    /** Called with the 1-based queue position while the pool is full, and again whenever it moves up */
+    onQueued?: (position: number) => void;
+}
+
+interface PooledBrowser {
+    browser: Promise<Browser>;
+    contexts: number;
+}
+
+interface Lease {
+    entry: PooledBrowser;
+    context: BrowserContext | null;
+}
+
+interface Waiter {
+    owner: object;
+    options: AcquireOptions;
+    resolve: (context: BrowserContext) => void;
+    reject: (error: Error) => void;
+}
+
+const LAUNCH_ARGS = [
+    '--no-sandbox',
+    '--disable-setuid-sandbox',
+    '--disable-dev-shm-usage',
+    '--disable-extensions',
+    '--disable-plugins',
+    '--disable-background-timer-throttling',
+    '--disable-backgrounding-occluded-windows',
+    '--disable-renderer-backgrounding',
+    '--disable-features=TranslateUI',
+    '--disable-background-networking',
+    '--disable-sync',
+    '--disable-default-apps',
+    '--no-first-run'
+];
+
+/**
+ * Pool limits from explicit overrides, then environment variables, then defaults.
+ */
+export function resolvePoolConfig(overrides: Partial<BrowserPoolConfig> = {}): BrowserPoolConfig {
+    const config: BrowserPoolConfig = {
+        maxBrowsers: overrides.maxBrowsers ?? parseInt(process.env.AGENT_POOL_MAX_BROWSERS || '2', 10),
+        contextsPerBrowser: overrides.contextsPerBrowser ?? parseInt(process.env.AGENT_POOL_CONTEXTS_PER_BROWSER || '4', 10),
+        warmBrowsers: overrides.warmBrowsers ?? parseInt(process.env.AGENT_POOL_WARM_BROWSERS || '1', 10)
+    };
+
+    if (!(config.maxBrowsers >= 1) || !(config.contextsPerBrowser >= 1)) {
+        throw new Error('Browser pool needs at least one browser and one context per browser');
+    }
+    if (!(config.warmBrowsers >= 0) || config.warmBrowsers > config.maxBrowsers) {
+        throw new Error(`Warm browsers must be between 0 and ${config.maxBrowsers}`);
+    }
+
+    return config;
+}
+
+/**
+ * Shares a few Chromium processes between sessions. Each session gets its own isolated
+ * BrowserContext; when every slot is taken, sessions wait in FIFO order for one to free up.
+ */
+export class BrowserPool {
+    private browsers: PooledBrowser[] = [];
+    private leases: Map<object, Lease> = new Map();
+    private waiters: Waiter[] = [];
+    private config: BrowserPoolConfig;
+
+    constructor(config: Partial<BrowserPoolConfig> = {}) {
+        this.config = resolvePoolConfig(config);
+    }
+
+    // Start the warm browsers ahead of the first session
+    async warmUp(): Promise<void> {
+        while (this.browsers.length < this.config.warmBrowsers) {
+            this.launch();
+        }
+        await Promise.all(this.browsers.map(entry => entry.browser.catch(() => undefined)));
+    }
+
+    /**
+     * Get a fresh context for `owner`, waiting for a free slot if the pool is full.
+     * Rejects if the owner releases before a slot frees up.
+     */
+    acquire(owner: object, options: AcquireOptions = {}): Promise<BrowserContext> {
+        if (this.leases.has(owner) || this.waiters.some(waiter => waiter.owner === owner)) {
+            return Promise.reject(new Error('This owner already holds or waits for a browser context'));
+        }
+        if (this.leases.size < this.capacity()) {
+            return this.grant(owner, options);
+        }
+
+        return new Promise<BrowserContext>((resolve, reject) => {
+            this.waiters.push({ owner, options, resolve, reject });
+            console.log(`[POOL] Pool full (${this.leases.size}/${this.capacity()}), queued at position ${this.waiters.length}`);
+            options.onQueued?.(this.waiters.length);
+        });
+    }
+
+    // Give the owner's context back (or stop waiting for one) and let the next waiter in
+    async release(owner: object): Promise<void> {
+        const waiting = this.waiters.findIndex(waiter => waiter.owner === owner);
+        if (waiting !== -1) {
+            const [waiter] = this.waiters.splice(waiting, 1);
+            waiter.reject(new Error('Stopped waiting for a browser'));
+            this.notifyPositions(waiting);
+            return;
+        }
+
+        const lease = this.leases.get(owner);
+        if (!lease) return;
+        this.leases.delete(owner);
+        lease.entry.contexts--;
+
+        await lease.context?.close().catch(() => undefined);
+        // Waiters take the freed slot first, so a browser is not closed only to be relaunched
+        this.admitWaiters();
+        this.closeSpareBrowsers();
+    }
+
+    /**
+     * Replace the owner's context with a new one on the same browser, keeping its slot.
+     */
+    async renew(owner: object, contextOptions?: BrowserContextOptions): Promise<BrowserContext> {
+        const lease = this.leases.get(owner);
+        if (!lease?.context) {
+            throw new Error('No browser context to renew');
+        }
+
+        const previous = lease.context;
+        lease.context = null;
+        await previous.close().catch(() => undefined);
+
+        const browser = await lease.entry.browser;
+        const context = await browser.newContext(contextOptions);
+        // Released while the new context was being created
+        if (this.leases.get(owner) !== lease) {
+            await context.close().catch(() => undefined);
+            throw new Error('The browser context was released');
+        }
+        lease.context = context;
+        return context;
+    }
+
+    getStats(): BrowserPoolStats {
+        const capacity = this.capacity();
+        return {
+            browsers: this.browsers.length,
+            contextsInUse: this.leases.size,
+            capacity,
+            waiting: this.waiters.length,
+            utilization: capacity > 0 ? this.leases.size / capacity : 0
+        };
+    }
+
+    async shutdown(): Promise<void> {
+        this.waiters.splice(0).forEach(waiter => waiter.reject(new Error('Browser pool is shutting down')));
+        this.leases.clear();
+        const browsers = this.browsers.splice(0);
+        await Promise.all(browsers.map(entry => entry.browser.then(browser => browser.close()).catch(() => undefined)));
+    }
+
+    private capacity(): number {
+        return this.config.maxBrowsers * this.config.contextsPerBrowser;
+    }
+
+    // Reserve a slot synchronously, then open the context on the least busy browser
+    private async grant(owner: object, options: AcquireOptions): Promise<BrowserContext> {
+        const entry = this.pickBrowser();
+        const lease: Lease = { entry, context: null };
+        entry.contexts++;
+        this.leases.set(owner, lease);
+
+        try {
+            const browser = await entry.browser;
+            const context = await browser.newContext(options.contextOptions);
+            // Released while the context was being created
+            if (this.leases.get(owner) !== lease) {
+                await context.close().catch(() => undefined);
+                throw new Error('Stopped waiting for a browser');
+            }
+            lease.context = context;
+            return context;
+        } catch (error) {
+            if (this.leases.get(owner) === lease) {
+                this.leases.delete(owner);
+                entry.contexts--;
+                this.admitWaiters();
+            }
+            throw error;
+        }
+    }
+
+    private pickBrowser(): PooledBrowser {
+        const available = this.browsers
+            .filter(entry => entry.contexts < this.config.contextsPerBrowser)
+            .sort((a, b) => a.contexts - b.contexts)[0];
+        return available || this.launch();
+    }
+
+    private launch(): PooledBrowser {
+        const entry: PooledBrowser = {
+            browser: chromium.launch({ headless: true, args: LAUNCH_ARGS }),
+            contexts: 0
+        };
+        this.browsers.push(entry);
+        console.log(`[POOL] Launching browser ${this.browsers.length}/${this.config.maxBrowsers}`);
+
+        entry.browser.then(
+            browser => browser.on('disconnected', () => this.forget(entry)),
+            error => {
+                console.error('[POOL] Failed to launch browser:', error);
+                this.forget(entry);
+            }
+        );
+        return entry;
+    }
+
+    // A crashed or failed browser leaves the pool; new sessions get a new one
+    private forget(entry: PooledBrowser): void {
+        const index = this.browsers.indexOf(entry);
+        if (index !== -1) this.browsers.splice(index, 1);
+    }
+
+    // Close unused browsers beyond the warm ones
+    private closeSpareBrowsers(): void {
+        let spare = this.browsers.length - this.config.warmBrowsers;
+        for (const entry of [...this.browsers]) {
+            if (spare <= 0) break;
+            if (entry.contexts > 0) continue;
+            this.forget(entry);
+            spare--;
+            entry.browser.then(browser => browser.close()).catch(() => undefined);
+            console.log(`[POOL] Closed idle browser (${this.browsers.length} left)`);
+        }
+    }
+
+    private admitWaiters(): void {
+        while (this.waiters.length > 0 && this.leases.size < this.capacity()) {
+            const waiter = this.waiters.shift()!;
+            this.grant(waiter.owner, waiter.options).then(waiter.resolve, waiter.reject);
+        }
+        this.notifyPositions(0);
+    }
+
+    private notifyPositions(from: number): void {
+        this.waiters.slice(from).forEach((waiter, index) => waiter.options.onQueued?.(from + index + 1));
+    }
+}
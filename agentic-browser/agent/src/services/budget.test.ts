@@ -0,0 +1,105 @@
+import { BudgetTracker, RunBudget, resolveRunBudget } from './budget';
+
+const budget = (overrides: Partial<RunBudget> = {}): RunBudget => resolveRunBudget({
+    maxSteps: 10,
+    maxTokens: 1000,
+    maxCostUsd: 0,
+    inputCostPerMTok: 0,
+    outputCostPerMTok: 0,
+    maxDurationMs: 60000,
+    maxRepeats: 3,
+    ...overrides
+});
+
+describe('resolveRunBudget', () => {
+    it('layers overrides over the base budget', () => {
+        const base = budget();
+
+        expect(resolveRunBudget({ maxSteps: 5 }, base)).toEqual({ ...base, maxSteps: 5 });
+    });
+
+    it('rejects limits that are not positive numbers', () => {
+        expect(() => budget({ maxSteps: 0 })).toThrow('Budget maxSteps must be a positive number');
+        expect(() => budget({ maxTokens: NaN })).toThrow('Budget maxTokens must be a positive number');
+        expect(() => budget({ maxDurationMs: Infinity })).toThrow('Budget maxDurationMs must be a positive number');
+        expect(() => budget({ inputCostPerMTok: -1 })).toThrow('Budget inputCostPerMTok must be zero or a positive number');
+    });
+
+    it('rejects durations setTimeout cannot wait for', () => {
+        expect(budget({ maxDurationMs: 2147483647 }).maxDurationMs).toBe(2147483647);
+        expect(() => budget({ maxDurationMs: 1e10 })).toThrow('Budget maxDurationMs must be at most 2147483647');
+    });
+
+    it('rejects a cost limit without model prices', () => {
+        expect(() => budget({ maxCostUsd: 1 })).toThrow('A cost limit needs model prices');
+        expect(budget({ maxCostUsd: 1, outputCostPerMTok: 10 }).maxCostUsd).toBe(1);
+    });
+});
+
+describe('BudgetTracker', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('has budget left until a limit is reached', () => {
+        const tracker = new BudgetTracker(budget({ maxSteps: 2 }));
+        tracker.recordStep();
+        expect(tracker.check()).toBeNull();
+
+        tracker.recordStep();
+
+        expect(tracker.check()).toMatchObject({ reason: 'steps', message: 'Reached the step limit of 2', usage: { steps: 2 } });
+    });
+
+    it('counts prompt and completion tokens together', () => {
+        const tracker = new BudgetTracker(budget({ maxTokens: 1000 }));
+        tracker.recordUsage({ inputTokens: 900, outputTokens: 99 });
+        expect(tracker.check()).toBeNull();
+
+        tracker.recordUsage({ inputTokens: 0, outputTokens: 1 });
+
+        expect(tracker.check()?.reason).toBe('tokens');
+    });
+
+    it('prices tokens for the cost limit', () => {
+        const tracker = new BudgetTracker(budget({ maxTokens: 100000, maxCostUsd: 0.01, inputCostPerMTok: 2, outputCostPerMTok: 10 }));
+        tracker.recordUsage({ inputTokens: 2500, outputTokens: 500 });
+
+        expect(tracker.getUsage().costUsd).toBeCloseTo(0.01);
+        expect(tracker.check()?.reason).toBe('cost');
+    });
+
+    it('detects the same actions repeated on an unchanged page', () => {
+        const tracker = new BudgetTracker(budget({ maxRepeats: 3 }));
+        const click = [{ name: 'click', arguments: { elementId: 4 } }];
+
+        expect(tracker.recordActions('page A', click)).toBe(1);
+        expect(tracker.recordActions('page B', click)).toBe(1);
+        expect(tracker.recordActions('page A', [{ name: 'click', arguments: { elementId: 5 } }])).toBe(1);
+        expect(tracker.recordActions('page A', click)).toBe(2);
+        expect(tracker.check()).toBeNull();
+
+        expect(tracker.recordActions('page A', click)).toBe(3);
+        expect(tracker.check()?.reason).toBe('loop');
+    });
+
+    it('stops the clock while paused', () => {
+        jest.useFakeTimers({ now: 0 });
+        const tracker = new BudgetTracker(budget({ maxDurationMs: 10000 }));
+
+        jest.advanceTimersByTime(4000);
+        tracker.pause();
+        jest.advanceTimersByTime(60000);
+        tracker.resume();
+        jest.advanceTimersByTime(1000);
+
+        expect(tracker.getUsage().elapsedMs).toBe(5000);
+        expect(tracker.remainingMs()).toBe(5000);
+        expect(tracker.check()).toBeNull();
+
+        jest.advanceTimersByTime(5000);
+
+        expect(tracker.remainingMs()).toBe(0);
+        expect(tracker.check()?.reason).toBe('time');
+    });
+});
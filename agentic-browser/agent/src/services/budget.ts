@@ -0,0 +1,180 @@
+import { createHash } from 'crypto';
+import { TokenUsage } from './providers';
+
+export interface RunBudget {
+    /** Loop iterations allowed per instruction */
+    maxSteps: number;
+    /** Prompt + completion tokens allowed per instruction */
+    maxTokens: number;
+    /**
+     * Spend allowed per instruction in USD; 0 (the default) disables the cost limit.
+     * Needs the model prices below, which also default to 0 - a cap without prices is rejected.
+     */
+    maxCostUsd: number;
+    /** Model prices in USD per million tokens, used to turn token usage into cost */
+    inputCostPerMTok: number;
+    outputCostPerMTok: number;
+    /** Wall-clock time allowed per instruction; LLM calls and page actions are cut off when it runs out */
+    maxDurationMs: number;
+    /** Stop after the same actions were taken on an unchanged page this many times */
+    maxRepeats: number;
+}
+
+export type BudgetExhaustedReason = 'steps' | 'tokens' | 'cost' | 'time' | 'loop';
+
+export interface BudgetUsage {
+    steps: number;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+    elapsedMs: number;
+}
+
+export interface BudgetExhaustion {
+    reason: BudgetExhaustedReason;
+    message: string;
+    usage: BudgetUsage;
+}
+
+/**
+ * Thrown when an LLM call or page action is still running when the instruction's time budget runs out.
+ */
+export class BudgetTimeoutError extends Error {
+    constructor(message: string = 'Instruction time budget exhausted') {
+        super(message);
+        this.name = 'BudgetTimeoutError';
+    }
+}
+
+/** Longest delay setTimeout supports (about 24.8 days); longer ones fire immediately */
+const MAX_DURATION_MS = 2 ** 31 - 1;
+
+function envNumber(name: string, fallback: string): number {
+    return parseFloat(process.env[name] || fallback);
+}
+
+/**
+ * Resolve per-instruction limits from explicit overrides, then environment variables, then defaults.
+ */
+export function resolveRunBudget(overrides: Partial<RunBudget> = {}, base?: RunBudget): RunBudget {
+    const budget: RunBudget = {
+        maxSteps: overrides.maxSteps ?? base?.maxSteps ?? envNumber('AGENT_MAX_STEPS', '50'),
+        maxTokens: overrides.maxTokens ?? base?.maxTokens ?? envNumber('AGENT_MAX_TOKENS', '1000000'),
+        maxCostUsd: overrides.maxCostUsd ?? base?.maxCostUsd ?? envNumber('AGENT_MAX_COST_USD', '0'),
+        inputCostPerMTok: overrides.inputCostPerMTok ?? base?.inputCostPerMTok ?? envNumber('AGENT_INPUT_COST_PER_MTOK', '0'),
+        outputCostPerMTok: overrides.outputCostPerMTok ?? base?.outputCostPerMTok ?? envNumber('AGENT_OUTPUT_COST_PER_MTOK', '0'),
+        maxDurationMs: overrides.maxDurationMs ?? base?.maxDurationMs ?? envNumber('AGENT_MAX_INSTRUCTION_MS', '600000'),
+        maxRepeats: overrides.maxRepeats ?? base?.maxRepeats ?? envNumber('AGENT_MAX_REPEATS', '3')
+    };
+
+    for (const key of ['maxSteps', 'maxTokens', 'maxDurationMs', 'maxRepeats'] as const) {
+        if (!Number.isFinite(budget[key]) || budget[key] <= 0) {
+            throw new Error(`Budget ${key} must be a positive number`);
+        }
+    }
+    if (budget.maxDurationMs > MAX_DURATION_MS) {
+        throw new Error(`Budget maxDurationMs must be at most ${MAX_DURATION_MS}`);
+    }
+    for (const key of ['maxCostUsd', 'inputCostPerMTok', 'outputCostPerMTok'] as const) {
+        if (!Number.isFinite(budget[key]) || budget[key] < 0) {
+            throw new Error(`Budget ${key} must be zero or a positive number`);
+        }
+    }
+    if (budget.maxCostUsd > 0 && budget.inputCostPerMTok === 0 && budget.outputCostPerMTok === 0) {
+        throw new Error('A cost limit needs model prices (inputCostPerMTok / outputCostPerMTok, or AGENT_INPUT_COST_PER_MTOK / AGENT_OUTPUT_COST_PER_MTOK)');
+    }
+
+    return budget;
+}
+
+/**
+ * Tracks what one instruction has spent against its RunBudget. Loops are detected by
+ * fingerprinting each step's page observation together with the actions the model chose on it:
+ * seeing the same pair again means the last attempt changed nothing.
+ */
+export class BudgetTracker {
+    private startedAt = Date.now();
+    private pausedAt: number | null = null;
+    private pausedMs = 0;
+    private steps = 0;
+    private inputTokens = 0;
+    private outputTokens = 0;
+    private repeats: Map<string, number> = new Map();
+    private maxRepeatCount = 0;
+
+    constructor(private budget: RunBudget) {}
+
+    /** Stop the clock, e.g. while waiting for manual intervention */
+    pause(): void {
+        if (this.pausedAt === null) this.pausedAt = Date.now();
+    }
+
+    resume(): void {
+        if (this.pausedAt === null) return;
+        this.pausedMs += Date.now() - this.pausedAt;
+        this.pausedAt = null;
+    }
+
+    recordStep(): void {
+        this.steps++;
+    }
+
+    recordUsage(usage: TokenUsage): void {
+        this.inputTokens += usage.inputTokens;
+        this.outputTokens += usage.outputTokens;
+    }
+
+    /** Record the actions taken on an observation; returns how often this exact pair has been seen */
+    recordActions(observation: string, actions: { name: string; arguments: any }[]): number {
+        const signature = createHash('sha1')
+            .update(observation)
+            .update(JSON.stringify(actions.map(action => [action.name, action.arguments])))
+            .digest('hex');
+        const count = (this.repeats.get(signature) ?? 0) + 1;
+        this.repeats.set(signature, count);
+        this.maxRepeatCount = Math.max(this.maxRepeatCount, count);
+        return count;
+    }
+
+    getUsage(): BudgetUsage {
+        return {
+            steps: this.steps,
+            inputTokens: this.inputTokens,
+            outputTokens: this.outputTokens,
+            costUsd: (this.inputTokens * this.budget.inputCostPerMTok + this.outputTokens * this.budget.outputCostPerMTok) / 1_000_000,
+            elapsedMs: (this.pausedAt ?? Date.now()) - this.startedAt - this.pausedMs
+        };
+    }
+
+    /** Time left before the duration limit (0 when it has been reached) */
+    remainingMs(): number {
+        return Math.max(this.budget.maxDurationMs - this.getUsage().elapsedMs, 0);
+    }
+
+    getBudget(): RunBudget {
+        return { ...this.budget };
+    }
+
+    /** The first limit that has been reached, or null while there is budget left */
+    check(): BudgetExhaustion | null {
+        const usage = this.getUsage();
+        const exhausted = (reason: BudgetExhaustedReason, message: string) => ({ reason, message, usage });
+
+        if (this.maxRepeatCount >= this.budget.maxRepeats) {
+            return exhausted('loop', `Repeated the same actions on an unchanged page ${this.maxRepeatCount} times`);
+        }
+        if (usage.steps >= this.budget.maxSteps) {
+            return exhausted('steps', `Reached the step limit of ${this.budget.maxSteps}`);
+        }
+        if (usage.inputTokens + usage.outputTokens >= this.budget.maxTokens) {
+            return exhausted('tokens', `Used ${usage.inputTokens + usage.outputTokens} of ${this.budget.maxTokens} tokens`);
+        }
+        if (this.budget.maxCostUsd > 0 && usage.costUsd >= this.budget.maxCostUsd) {
+            return exhausted('cost', `Spent $${usage.costUsd.toFixed(4)} of the $${this.budget.maxCostUsd} limit`);
+        }
+        if (usage.elapsedMs >= this.budget.maxDurationMs) {
+            return exhausted('time', `Ran for ${Math.round(usage.elapsedMs / 1000)}s, over the ${Math.round(this.budget.maxDurationMs / 1000)}s limit`);
+        }
+        return null;
+    }
+}
@@ -0,0 +1,51 @@
+/**
+ * Thrown when work is abandoned because its CancellationToken was cancelled.
+ */
+export class CancelledError extends Error {
+    constructor(message: string = 'Instruction cancelled') {
+        super(message);
+        this.name = 'CancelledError';
+    }
+}
+
+/**
+ * Cooperative cancellation for one instruction. The loop checks it between steps,
+ * long-running calls are raced against it, and tools can check it between attempts.
+ */
+export class CancellationToken {
+    private cancelled = false;
+    private listeners: (() => void)[] = [];
+
+    get isCancelled(): boolean {
+        return this.cancelled;
+    }
+
+    cancel(): void {
+        if (this.cancelled) return;
+        this.cancelled = true;
+        this.listeners.splice(0).forEach(listener => listener());
+    }
+
+    throwIfCancelled(): void {
+        if (this.cancelled) throw new CancelledError();
+    }
+
+    /**
+     * Settle with the operation, or reject with CancelledError as soon as the token is cancelled.
+     * The operation itself keeps running; its late result is ignored.
+     */
+    race<T>(operation: Promise<T>): Promise<T> {
+        if (this.cancelled) {
+            operation.catch(() => undefined);
+            return Promise.reject(new CancelledError());
+        }
+
+        return new Promise<T>((resolve, reject) => {
+            const onCancel = () => reject(new CancelledError());
+            this.listeners.push(onCancel);
+            operation.then(resolve, reject).finally(() => {
+                this.listeners = this.listeners.filter(listener => listener !== onCancel);
+            });
+        });
+    }
+}
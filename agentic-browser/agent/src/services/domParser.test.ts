@@ -0,0 +1,131 @@
+import { Page } from 'playwright';
+import { DomParser } from './domParser';
+
+// Just enough of a Page for getPageObservation: an accessibility snapshot, no child frames and no layout
+const fakePage = (state: { url: string; title: string; snapshot: any }): Page => {
+    const mainFrame = { url: () => state.url, evaluate: async () => [] };
+    const byRole = { evaluateAll: async () => [], nth: () => ({ boundingBox: async () => null }) };
+    return {
+        waitForLoadState: async () => undefined,
+        title: async () => state.title,
+        url: () => state.url,
+        accessibility: { snapshot: async () => state.snapshot },
+        mainFrame: () => mainFrame,
+        frames: () => [mainFrame],
+        getByRole: () => byRole
+    } as unknown as Page;
+};
+
+const tree = (...children: any[]) => ({ role: 'WebArea', name: '', children });
+const text = (name: string) => ({ role: 'text', name });
+const button = (name: string, extra: Record<string, unknown> = {}) => ({ role: 'button', name, ...extra });
+
+describe('DomParser', () => {
+    let parser: DomParser;
+    let state: { url: string; title: string; snapshot: any };
+    let page: Page;
+
+    const idsOf = async (): Promise<Record<string, number[]>> => {
+        const { elementMap } = await parser.getPageObservation(page);
+        const ids: Record<string, number[]> = {};
+        for (const [id, descriptor] of elementMap) (ids[descriptor.name] ??= []).push(id);
+        return ids;
+    };
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        parser = new DomParser(6000);
+        state = { url: 'https://shop.test/cart', title: 'Cart', snapshot: tree() };
+        page = fakePage(state);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('element IDs', () => {
+        it('keeps IDs when the text next to an element changes', async () => {
+            state.snapshot = tree(text('Lamp - $12'), button('Remove'), text('Chair - $40'), button('Remove'), text('3 items'), button('Checkout'));
+            const before = await idsOf();
+
+            state.snapshot = tree(text('Lamp - $10'), button('Remove'), text('Chair - $35'), button('Remove'), text('4 items'), button('Checkout'));
+
+            expect(await idsOf()).toEqual(before);
+        });
+
+        it('keeps IDs of other elements when one is added or removed', async () => {
+            state.snapshot = tree(button('Search'), button('Checkout'));
+            const before = await idsOf();
+
+            state.snapshot = tree(button('Search'), button('Apply coupon'), button('Checkout'));
+            const after = await idsOf();
+
+            expect(after.Search).toEqual(before.Search);
+            expect(after.Checkout).toEqual(before.Checkout);
+            expect(after['Apply coupon'][0]).toBeGreaterThan(Math.max(...before.Search, ...before.Checkout));
+        });
+
+        it('hands out new IDs on another document but still knows the old ones', async () => {
+            state.snapshot = tree(button('Checkout'));
+            const [checkout] = (await idsOf()).Checkout;
+
+            state.url = 'https://shop.test/payment';
+            state.snapshot = tree(button('Checkout'));
+
+            expect((await idsOf()).Checkout).not.toContain(checkout);
+            expect(parser.getKnownElement(checkout)).toMatchObject({ role: 'button', name: 'Checkout' });
+        });
+
+        it('keeps IDs when only the URL fragment changes', async () => {
+            state.snapshot = tree(button('Checkout'));
+            const before = await idsOf();
+
+            state.url = 'https://shop.test/cart#summary';
+
+            expect(await idsOf()).toEqual(before);
+        });
+    });
+
+    describe('diff', () => {
+        it('has no diff for the first observation', async () => {
+            state.snapshot = tree(button('Checkout'));
+
+            expect((await parser.getPageObservation(page)).diff).toBeUndefined();
+        });
+
+        it('reports added, removed and changed elements, dialogs and title changes', async () => {
+            state.snapshot = tree(button('Checkout'), button('Gift wrap', { pressed: false }), button('Remove'));
+            const ids = await idsOf();
+
+            state.title = 'Cart (1)';
+            state.snapshot = tree(
+                button('Checkout', { disabled: true }),
+                button('Gift wrap', { pressed: true }),
+                { role: 'dialog', name: 'Confirm', children: [button('Yes')] }
+            );
+            const { diff, elementMap } = await parser.getPageObservation(page);
+            const yes = [...elementMap].find(([, descriptor]) => descriptor.name === 'Yes')![0];
+
+            expect(diff).toEqual({
+                added: [{ id: yes, role: 'button', name: 'Yes' }],
+                removed: [{ id: ids.Remove[0], role: 'button', name: 'Remove' }],
+                changed: [
+                    { id: ids.Checkout[0], role: 'button', name: 'Checkout', from: '', to: '(disabled)' },
+                    { id: ids['Gift wrap'][0], role: 'button', name: 'Gift wrap', from: '', to: '(pressed)' }
+                ],
+                dialogsOpened: ['Confirm'],
+                dialogsClosed: [],
+                announcements: [],
+                titleChanged: { from: 'Cart', to: 'Cart (1)' }
+            });
+        });
+
+        it('reports URL changes', async () => {
+            await parser.getPageObservation(page);
+
+            state.url = 'https://shop.test/payment';
+
+            expect((await parser.getPageObservation(page)).diff?.urlChanged).toEqual({ from: 'https://shop.test/cart', to: 'https://shop.test/payment' });
+        });
+    });
+});
@@ -1,4 +1,5 @@
-import { Page, Locator } from 'playwright';
+import { Page, Frame, FrameLocator, Locator } from 'playwright';
+import { get_encoding, Tiktoken } from '@dqbd/tiktoken';
 
 /**
  * High‑level representation of an element in the observation output.
@@ -10,6 +11,72 @@ export interface ElementDescriptor {
     name: string;
     /** Locator string that can be resolved via page.locator() or page.getByRole() */
     selector: string;
+    /** Position among elements matching the same role selector, in document order */
+    nth: number;
+    /** Current value of a form field (masked for passwords) */
+    value?: string;
+    placeholder?: string;
+    required?: boolean;
+    invalid?: boolean;
+    /** Error text (aria-errormessage / aria-describedby / native validation) when invalid, otherwise the field description */
+    description?: string;
+    /** Enclosing <form>, e.g. "form-1" */
+    formId?: string;
+    /** URL of the iframe the element lives in (absent for the top frame) */
+    frameUrl?: string;
+    /** Position in viewport CSS pixels when observed (absent for hidden elements) */
+    box?: ElementBox;
+}
+
+/** Rectangle in viewport CSS pixels */
+export interface ElementBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** DOM-side details of a form control, collected by FORM_FIELDS_SCRIPT */
+interface FormFieldInfo {
+    /** Candidate accessible names (aria-label, <label>s, placeholder, title, name) used to match a11y nodes */
+    names: string[];
+    type: string;
+    placeholder: string;
+    required: boolean;
+    invalid: boolean;
+    errorText: string;
+    description: string;
+    formIndex: number;
+    formLabel: string;
+}
+
+/**
+ * An element that appeared, disappeared or changed state between two observations.
+ */
+export interface ElementChange {
+    id: number;
+    role: string;
+    name: string;
+    /** State before the change (e.g. "(checked)"), for changed elements */
+    from?: string;
+    /** State after the change, for changed elements */
+    to?: string;
+}
+
+/**
+ * What changed on the page since the previous observation.
+ */
+export interface ObservationDiff {
+    urlChanged?: { from: string; to: string };
+    titleChanged?: { from: string; to: string };
+    added: ElementChange[];
+    removed: ElementChange[];
+    changed: ElementChange[];
+    /** Names of dialogs that opened / closed */
+    dialogsOpened: string[];
+    dialogsClosed: string[];
+    /** New text in alert / status regions (toasts, validation banners, …) */
+    announcements: string[];
 }
 
 /**
@@ -18,10 +85,112 @@ export interface ElementDescriptor {
 export interface PageObservation {
     /** Markdown‑ish summary of the visible UI */
     content: string;
-    /** Map of incremental element IDs → descriptor used for replaying actions */
+    /** Map of element IDs → descriptor used for replaying actions. IDs are stable across observations. */
     elementMap: Map<number, ElementDescriptor>;
+    /** Changes against the previous observation (absent for the first one) */
+    diff?: ObservationDiff;
+}
+
+/** A top-level region of the page, rendered (and collapsed) as a unit */
+interface Section {
+    /** Stable within a document, e.g. "main-1", "navigation-2", "page-3" */
+    id: string;
+    role: string;
+    lines: { text: string; isText: boolean }[];
+    elementCount: number;
+}
+
+/** Walk state for one frame */
+interface FrameScope {
+    /** iframe selectors from the top frame down (empty for the top frame) */
+    framePath: string[];
+    frameUrl: string;
+    /** Prefix for form IDs so forms in different frames stay apart */
+    formPrefix: string;
+    /** Occurrence counters used to tell apart elements that share a role (and name) */
+    roleCounts: Map<string, number>;
+    roleNameCounts: Map<string, number>;
+    formFields: FormFieldInfo[];
+    formFieldCursor: number;
+    /** Nearest heading or text before the current node, which tells apart elements sharing a role and name */
+    lastText: string;
+}
+
+/** Where an element sits among all elements of its role in its frame, in document order */
+interface RolePosition {
+    framePath: string[];
+    role: string;
+    roleIndex: number;
+}
+
+/** An element ID handed out on the current document */
+interface ElementIdentity {
+    id: number;
+    /** Position among elements with the same role and name when last seen */
+    nth: number;
+    /** FrameScope.lastText when the element was last seen */
+    context: string;
+    /** Observation counter when last seen */
+    lastSeen: number;
+}
+
+/** What we remember of an observation to diff the next one against */
+interface ObservedState {
+    url: string;
+    title: string;
+    elements: Map<number, { role: string; name: string; state: string }>;
+    dialogs: string[];
+    announcements: string[];
+}
+
+/**
+ * Thrown when an element from an earlier observation can no longer be found on the page.
+ */
+export class StaleElementError extends Error {
+    constructor(public elementId: number | undefined, public descriptor: ElementDescriptor) {
+        super(`Element ${elementId !== undefined ? `[${elementId}] ` : ''}"${descriptor.name}" (${descriptor.role}) is no longer present on the page. ` +
+            `The page has changed since it was observed - use an ID from the latest page content.`);
+        this.name = 'StaleElementError';
+    }
+}
+
+/** Parsed form of a `getByRole:<role>:<nth>:<name>` selector */
+export interface RoleSelector {
+    role: string;
+    nth: number;
+    /** Empty when the element has no accessible name (matched by role and position only) */
+    name: string;
 }
 
+export const buildRoleSelector = (role: string, nth: number, name: string): string =>
+    `getByRole:${role}:${nth}:${name}`;
+
+/**
+ * Scope a selector to an iframe chain: one `frame:<iframe selector>` line per frame, outermost first,
+ * followed by the selector inside the innermost frame.
+ */
+export const scopeToFrames = (framePath: string[], selector: string): string =>
+    `${framePath.map(frameSelector => `frame:${frameSelector}\n`).join('')}${selector}`;
+
+/** Split a (possibly frame-scoped) selector into its iframe chain and the selector inside it. */
+export const splitFrameSelector = (selector: string): { framePath: string[]; selector: string } => {
+    const framePath: string[] = [];
+    let rest = selector;
+    let match: RegExpExecArray | null;
+    while ((match = /^frame:([^\n]*)\n/.exec(rest))) {
+        framePath.push(match[1]);
+        rest = rest.slice(match[0].length);
+    }
+    return { framePath, selector: rest };
+};
+
+/** Parse a role selector, keeping colons inside the accessible name intact. */
+export const parseRoleSelector = (selector: string): RoleSelector | null => {
+    const match = /^getByRole:([^:]+):(\d+):(.*)$/s.exec(splitFrameSelector(selector).selector);
+    if (!match) return null;
+    return { role: match[1], nth: parseInt(match[2], 10), name: match[3] };
+};
+
 /**
  * Roles considered interactive / actionable by default.
  * (Extend as needed – Playwright role selectors follow ARIA spec.)
@@ -42,22 +211,204 @@ const INTERACTIVE_ROLES = new Set([
     'slider',
 ]);
 
+const DIALOG_ROLES = new Set(['dialog', 'alertdialog']);
+const LANDMARK_ROLES = new Set(['navigation', 'main', 'contentinfo', 'banner', 'complementary']);
+
+const TABLE_ROLES = new Set(['table', 'grid', 'treegrid']);
+const TABLE_CELL_ROLES = new Set(['cell', 'gridcell', 'columnheader', 'rowheader']);
+/** Roles that make a list item too structured to render on a single line */
+const BLOCK_ROLES = new Set(['heading', 'list', 'table', 'grid', 'treegrid', 'dialog', 'alertdialog', 'form']);
+/** Tables with more body rows than this are cut off */
+const TABLE_MAX_ROWS = 20;
+
+/** Lists with more items than this are collapsed to a preview */
+const LIST_COLLAPSE_THRESHOLD = 8;
+const LIST_PREVIEW_ITEMS = 3;
+/** Runs of consecutive text lines longer than this are summarized */
+const TEXT_RUN_MAX_LINES = 8;
+const TEXT_RUN_PREVIEW_LINES = 3;
+/** Section roles collapsed first when the page is over budget; `main` is never collapsed */
+const COLLAPSE_ORDER = ['contentinfo', 'complementary', 'navigation', 'banner', 'iframe', 'page'];
+/** At most this many child frames are observed (ads and trackers can add dozens) */
+const MAX_FRAMES = 10;
+/** Element IDs not seen for this many observations of a document are forgotten */
+const ID_RETENTION_OBSERVATIONS = 5;
+const LIVE_REGION_ROLES = new Set(['alert', 'status']);
+
 /** Convenience */
 const isInteractiveRole = (role: string | undefined): role is string =>
     !!role && INTERACTIVE_ROLES.has(role);
 
+/** Roles of form controls that get DOM-side details (placeholder, validation, form grouping) */
+const FORM_FIELD_ROLES = new Set(['textbox', 'searchbox', 'combobox', 'listbox', 'checkbox', 'radio', 'switch', 'slider']);
+
+/**
+ * Collects form control details the accessibility snapshot lacks, in document order.
+ * A string so it runs in the page without DOM typings in the agent build.
+ */
+const FORM_FIELDS_SCRIPT = `(() => {
+    const text = value => (value || '').replace(/\\s+/g, ' ').trim();
+    // aria-describedby / aria-errormessage IDs resolve within the element's own (shadow) root
+    const byIds = (el, ids) => (ids || '').split(/\\s+/).filter(Boolean)
+        .map(id => text((el.getRootNode().getElementById ? el.getRootNode() : document).getElementById(id)?.textContent))
+        .filter(Boolean).join(' ');
+    const forms = Array.from(document.forms);
+    const selector = 'input, textarea, select, [contenteditable="true"], [role="textbox"], [role="combobox"], [role="checkbox"], [role="radio"], [role="switch"]';
+
+    // Document order, descending into open shadow roots like the accessibility tree does
+    const controls = [];
+    const collect = root => {
+        for (const el of root.querySelectorAll('*')) {
+            if (el.matches(selector)) controls.push(el);
+            if (el.shadowRoot) collect(el.shadowRoot);
+        }
+    };
+    collect(document);
+
+    const fields = [];
+    for (const el of controls) {
+        if (el.tagName === 'INPUT' && ['hidden', 'submit', 'button', 'reset', 'image'].includes(el.type)) continue;
+        const style = getComputedStyle(el);
+        if (style.display === 'none' || style.visibility === 'hidden') continue;
+
+        let userInvalid = false;
+        try { userInvalid = el.matches(':user-invalid'); } catch (e) {}
+        const invalid = el.getAttribute('aria-invalid') === 'true' || userInvalid;
+        const description = byIds(el, el.getAttribute('aria-describedby'));
+        const form = el.form || el.closest('form');
+        fields.push({
+            names: [el.getAttribute('aria-label'), ...Array.from(el.labels || []).map(label => label.textContent),
+                el.getAttribute('placeholder'), el.getAttribute('title'), el.getAttribute('name')].map(text).filter(Boolean),
+            type: (el.getAttribute('type') || el.tagName).toLowerCase(),
+            placeholder: text(el.getAttribute('placeholder')),
+            required: !!el.required || el.getAttribute('aria-required') === 'true',
+            invalid,
+            errorText: invalid ? (byIds(el, el.getAttribute('aria-errormessage')) || description || text(el.validationMessage)) : '',
+            description,
+            formIndex: form ? forms.indexOf(form) : -1,
+            formLabel: form ? text(form.getAttribute('aria-label') || form.getAttribute('name') || form.id) : ''
+        });
+    }
+    return fields;
+})()`;
+
 /** Sanitize whitespace and collapse long strings */
 const clean = (txt: string, max = 120): string => {
     const out = txt.replace(/\s+/g, ' ').trim();
     return out.length > max ? out.slice(0, max - 1) + '…' : out;
 };
 
+/** Concatenated accessible text of a node and its descendants */
+const collectText = (node: any): string => {
+    const parts: string[] = [];
+    const visit = (n: any) => {
+        if (n.name) parts.push(n.name);
+        for (const child of n.children || []) visit(child);
+    };
+    visit(node);
+    return clean(Array.from(new Set(parts)).join(' '), 200);
+};
+
+/** Roles whose inline text in an ARIA snapshot is the current value rather than content */
+const ARIA_VALUE_ROLES = new Set(['textbox', 'searchbox', 'combobox', 'spinbutton', 'slider']);
+
+const unquoteYaml = (text: string): string => {
+    if (text.length > 1 && text.startsWith('"') && text.endsWith('"')) {
+        try {
+            return JSON.parse(text);
+        } catch {
+            return text;
+        }
+    }
+    return text;
+};
+
+/** Split an ARIA snapshot entry into key and inline value at the first colon outside quotes */
+const splitAriaEntry = (entry: string): { key: string; value: string } => {
+    let inQuote = false;
+    for (let i = 0; i < entry.length; i++) {
+        const char = entry[i];
+        if (char === '\\' && inQuote) i++;
+        else if (char === '"') inQuote = !inQuote;
+        else if (char === ':' && !inQuote && (i + 1 === entry.length || entry[i + 1] === ' ')) {
+            return { key: unquoteYaml(entry.slice(0, i)), value: unquoteYaml(entry.slice(i + 1).trim()) };
+        }
+    }
+    return { key: unquoteYaml(entry), value: '' };
+};
+
+/**
+ * Convert a Playwright ARIA snapshot (YAML) into the node shape of page.accessibility.snapshot().
+ * Used for child frames, which the accessibility snapshot of the top frame does not cover.
+ */
+const parseAriaSnapshot = (yaml: string): any => {
+    const root = { role: 'WebArea', name: '', children: [] as any[] };
+    const stack: { indent: number; node: any }[] = [{ indent: -1, node: root }];
+
+    for (const line of yaml.split('\n')) {
+        const match = /^(\s*)- (.*)$/.exec(line);
+        if (!match) continue;
+        const indent = match[1].length;
+        const { key, value } = splitAriaEntry(match[2]);
+        if (key.startsWith('/')) continue; // properties such as /url
+
+        while (stack[stack.length - 1].indent >= indent) stack.pop();
+        const parent = stack[stack.length - 1].node;
+
+        const head = /^([a-z]+)(?:\s+"((?:[^"\\]|\\.)*)")?((?:\s*\[[^\]]*\])*)\s*$/i.exec(key);
+        if (!head) {
+            parent.children.push({ role: 'text', name: key });
+            continue;
+        }
+
+        const [, role, rawName, attributes] = head;
+        const node: any = { role, name: rawName ? unquoteYaml(`"${rawName}"`) : '', children: [] };
+        for (const [, attribute, attributeValue] of attributes.matchAll(/\[(\w+)(?:=([^\]]+))?\]/g)) {
+            if (attribute === 'level') node.level = parseInt(attributeValue, 10);
+            else node[attribute] = attributeValue === 'mixed' ? 'mixed' : attributeValue !== 'false';
+        }
+        if (role === 'text') {
+            node.name = value;
+        } else if (value) {
+            if (ARIA_VALUE_ROLES.has(role)) node.value = value;
+            else node.children.push({ role: 'text', name: value });
+        }
+
+        parent.children.push(node);
+        stack.push({ indent, node });
+    }
+
+    return root;
+};
+
+const diffList = <T>(before: T[], after: T[]): T[] => after.filter(item => !before.includes(item));
+
 /**
  * DOM / accessibility‑tree parser for a Playwright Page.
  * Produces a structured snapshot that is easy for an LLM to read & reference.
  */
 export class DomParser {
-    private idCounter = 1;
+    /** Element IDs on the current document, by frame + role + name */
+    private identities = new Map<string, ElementIdentity[]>();
+    private identityDocument = '';
+    private observationCount = 0;
+    /** Last known descriptor for every ID handed out, used to explain stale references */
+    private knownElements = new Map<number, ElementDescriptor>();
+    private nextId = 1;
+    /** Previous observation, used to compute ObservationDiff */
+    private previous: ObservedState | null = null;
+    /** Sections / lists / text runs on the latest observation that expand_section can target */
+    private sectionIds = new Set<string>();
+    /** Sections the agent asked to see in full, for the document in expandedDocument */
+    private expandedSections = new Set<string>();
+    private expandedDocument = '';
+    private encoder: Tiktoken;
+
+    constructor(
+        private tokenBudget: number = parseInt(process.env.AGENT_OBSERVATION_TOKEN_BUDGET || '6000', 10)
+    ) {
+        this.encoder = get_encoding('o200k_base');
+    }
 
     async getPageObservation(page: Page): Promise<PageObservation> {
         await page.waitForLoadState('domcontentloaded');
@@ -84,50 +435,449 @@ export class DomParser {
             // Extremely rare – fallback to raw body text
             const bodyText = await page.textContent('body');
             if (bodyText) content += `\n${clean(bodyText, 400)}\n`;
-            return { content, elementMap };
+            const diff = this.recordObservation({ url: page.url(), title, elements: new Map(), dialogs: [], announcements: [] });
+            return { content, elementMap, diff };
         }
 
-        const lines: string[] = [];
-        this.idCounter = 1;
+        const documentKey = this.documentKey(page.url());
+        const elementStates: ObservedState['elements'] = new Map();
+        /** IDs already given to an element in this observation */
+        const claimed = new Set<number>();
+        const positions = new Map<number, RolePosition>();
+        this.observationCount++;
+
+        // IDs are never carried over to another document; descriptors from the last observation are
+        // kept so references to the page just left are still reported as stale
+        if (documentKey !== this.identityDocument) {
+            this.identityDocument = documentKey;
+            this.identities.clear();
+            const lastSeen = new Set(this.previous?.elements.keys() ?? []);
+            for (const id of this.knownElements.keys()) {
+                if (!lastSeen.has(id)) this.knownElements.delete(id);
+            }
+        }
+        const dialogs: string[] = [];
+        const announcements: string[] = [];
+
+        // Expanded sections only apply to the document they were expanded on
+        if (documentKey !== this.expandedDocument) {
+            this.expandedDocument = documentKey;
+            this.expandedSections.clear();
+        }
+
+        // Top-level landmarks become their own sections; everything else goes into "page" sections between them
+        const sections: Section[] = [];
+        const sectionCounts = new Map<string, number>();
+        const openSection = (role: string): Section => {
+            const count = (sectionCounts.get(role) ?? 0) + 1;
+            sectionCounts.set(role, count);
+            const section: Section = { id: `${role}-${count}`, role, lines: [], elementCount: 0 };
+            sections.push(section);
+            return section;
+        };
+        let current = openSection('page');
+        let listCount = 0;
+
+        let tableCount = 0;
+
+        // Per-frame state: role selectors and form details only make sense within one frame
+        let scope = await this.createFrameScope(page.mainFrame(), [], '');
 
-        /** Recursively process a11y tree nodes */
-        const walk = (node: any, depth = 0) => {
+        // Match a11y form controls to their DOM details in document order, by name where possible
+        const matchFormField = (name: string): FormFieldInfo | undefined => {
+            const wanted = name.toLowerCase();
+            const lookahead = scope.formFields.slice(scope.formFieldCursor, scope.formFieldCursor + 10);
+            const offset = wanted
+                ? lookahead.findIndex(field => field.names.some(candidate => candidate.toLowerCase() === wanted))
+                : 0;
+            if (offset < 0 || offset >= lookahead.length) return undefined;
+            scope.formFieldCursor += offset + 1;
+            return lookahead[offset];
+        };
+        const formLabels = new Map<string, string>();
+        let currentFormId: string | undefined;
+
+        /** Register an interactive node under its stable ID and describe it, e.g. `Button "Save" [12] (disabled)` */
+        const describeElement = (node: any): { text: string; descriptor: ElementDescriptor } => {
+            const { role, name = '', checked, disabled, value, expanded, pressed, selected, required, invalid, description } = node as {
+                role: string; name?: string; checked?: boolean | 'mixed'; disabled?: boolean; value?: string;
+                expanded?: boolean; pressed?: boolean | 'mixed'; selected?: boolean; required?: boolean;
+                invalid?: string; description?: string;
+            };
+            const label = name || value || role;
+            const roleIndex = scope.roleCounts.get(role) ?? 0;
+            scope.roleCounts.set(role, roleIndex + 1);
+            const nameIndex = scope.roleNameCounts.get(`${role}|${name}`) ?? 0;
+            scope.roleNameCounts.set(`${role}|${name}`, nameIndex + 1);
+
+            // Unnamed elements can only be told apart by their position among all elements of that role
+            const nth = name ? nameIndex : roleIndex;
+            const id = this.identify(`${scope.framePath.join('>')}|${role}|${name}`, nth, scope.lastText, claimed);
+            const descriptor: ElementDescriptor = {
+                role,
+                name: label,
+                selector: scopeToFrames(scope.framePath, buildRoleSelector(role, nth, name)),
+                nth,
+                ...(scope.framePath.length > 0 && { frameUrl: scope.frameUrl })
+            };
+
+            // Form controls: current value, placeholder, validation state and enclosing form
+            if (FORM_FIELD_ROLES.has(role)) {
+                const field = matchFormField(name);
+                const isInvalid = (!!invalid && invalid !== 'false') || !!field?.invalid;
+                if (name && value) descriptor.value = field?.type === 'password' ? '••••••' : clean(value, 80);
+                if (field?.placeholder && field.placeholder !== name) descriptor.placeholder = field.placeholder;
+                if (required || field?.required) descriptor.required = true;
+                if (isInvalid) descriptor.invalid = true;
+                const fieldDescription = isInvalid ? field?.errorText || description : description || field?.description;
+                if (fieldDescription) descriptor.description = clean(fieldDescription, 160);
+                if (field && field.formIndex >= 0) descriptor.formId = `${scope.formPrefix}form-${field.formIndex + 1}`;
+                if (descriptor.formId) formLabels.set(descriptor.formId, field!.formLabel);
+            }
+
+            elementMap.set(id, descriptor);
+            this.knownElements.set(id, descriptor);
+            positions.set(id, { framePath: scope.framePath, role, roleIndex });
+            current.elementCount++;
+            const state = [
+                checked ? '(checked)' : '',
+                disabled ? '(disabled)' : '',
+                descriptor.required ? '(required)' : '',
+                descriptor.invalid ? '(invalid)' : ''
+            ].filter(Boolean).join(' ');
+            const diffState = [
+                state,
+                expanded !== undefined ? (expanded ? '(expanded)' : '(collapsed)') : '',
+                pressed ? '(pressed)' : '',
+                selected ? '(selected)' : '',
+                name && value ? `(value "${clean(value, 40)}")` : ''
+            ].filter(Boolean).join(' ');
+            elementStates.set(id, { role, name: label, state: diffState });
+
+            const details = [
+                descriptor.value !== undefined ? `value="${descriptor.value}"` : '',
+                descriptor.placeholder ? `placeholder="${descriptor.placeholder}"` : '',
+                state,
+                descriptor.description ? `${descriptor.invalid ? 'error' : 'hint'}: "${descriptor.description}"` : ''
+            ].filter(Boolean).join(' ');
+            return { text: `${role.charAt(0).toUpperCase() + role.slice(1)} "${label}" [${id}] ${details}`.trimEnd(), descriptor };
+        };
+
+        /** Flatten a subtree to one line of text, keeping interactive elements (and their IDs) inline */
+        const inlineText = (node: any, max = 200): string => {
+            const parts: string[] = [];
+            const visit = (n: any, collectText: boolean) => {
+                if (isInteractiveRole(n.role)) {
+                    parts.push(describeElement(n).text);
+                    // Nested interactive nodes (e.g. options) still need IDs, but their text is in the label already
+                    for (const child of n.children || []) visit(child, false);
+                    return;
+                }
+                const children: any[] = n.children || [];
+                if (collectText && n.name && (children.length === 0 || n.role === 'text' || n.role === 'staticText')) {
+                    if (parts[parts.length - 1] !== n.name) parts.push(n.name);
+                    scope.lastText = clean(n.name, 80);
+                }
+                for (const child of children) visit(child, collectText);
+            };
+            visit(node, true);
+            return clean(parts.join(' '), max);
+        };
+
+        /** Render a table / grid as a Markdown table, limiting the number of rows shown */
+        const renderTable = (node: any, depth: number, render: boolean, emit: (text: string) => void) => {
+            const indent = '  '.repeat(depth);
+            const rows: any[] = [];
+            const collectRows = (n: any) => {
+                for (const child of n.children || []) {
+                    if (child.role === 'row') rows.push(child);
+                    else if (!TABLE_ROLES.has(child.role)) collectRows(child);
+                }
+            };
+            collectRows(node);
+
+            const cellsOf = (row: any): any[] => {
+                const cells = (row.children || []).filter((child: any) => TABLE_CELL_ROLES.has(child.role));
+                return cells.length > 0 ? cells : [row];
+            };
+            const toRow = (cells: string[], width: number) =>
+                `${indent}| ${Array.from({ length: width }, (_, i) => (cells[i] ?? '').replace(/\|/g, '\\|')).join(' | ')} |`;
+
+            // Header: a leading row made of column headers; otherwise number the columns
+            const firstCells = rows.length > 0 ? cellsOf(rows[0]) : [];
+            const hasHeader = firstCells.length > 0 && firstCells.every(cell => cell.role === 'columnheader');
+            const headerCells = hasHeader ? firstCells.map(cell => inlineText(cell, 60)) : null;
+            const bodyRows = hasHeader ? rows.slice(1) : rows;
+
+            const tableId = `table-${++tableCount}`;
+            const limited = bodyRows.length > TABLE_MAX_ROWS;
+            if (limited) this.sectionIds.add(tableId);
+            const shownRows = limited && !this.expandedSections.has(tableId) ? TABLE_MAX_ROWS : bodyRows.length;
+
+            const body = bodyRows.map(row => cellsOf(row).map(cell => inlineText(cell, 80)));
+            if (!render) return;
+            const width = Math.max(headerCells?.length ?? 0, ...body.map(cells => cells.length), 1);
+
+            emit(`\n${indent}**Table${node.name ? `: ${clean(node.name)}` : ''}**`);
+            emit(toRow(headerCells ?? Array.from({ length: width }, (_, i) => `Column ${i + 1}`), width));
+            emit(`${indent}|${' --- |'.repeat(width)}`);
+            body.slice(0, shownRows).forEach(cells => emit(toRow(cells, width)));
+            if (shownRows < body.length) {
+                emit(`${indent}… ${body.length - shownRows} more rows - expand_section("${tableId}")`);
+            }
+        };
+
+        /** List items with only inline content become one bullet line */
+        const isInlineItem = (node: any): boolean => {
+            const hasBlock = (n: any): boolean =>
+                (n.children || []).some((child: any) => BLOCK_ROLES.has(child.role) || hasBlock(child));
+            return !hasBlock(node);
+        };
+
+        /** Recursively process a11y tree nodes. Nodes in collapsed regions are registered but not rendered. */
+        const walk = (node: any, depth = 0, render = true) => {
             const indent = '  '.repeat(depth);
-            const { role, name = '', level, checked, disabled, value } = node as {
-                role?: string; name?: string; level?: number; checked?: boolean;
-                disabled?: boolean; value?: string;
+            const { role, name = '', level } = node as { role?: string; name?: string; level?: number };
+            const emit = (text: string, isText = false) => {
+                if (render) current.lines.push({ text, isText });
             };
 
+            if (role && LIVE_REGION_ROLES.has(role)) {
+                const text = collectText(node);
+                if (text) announcements.push(text);
+            }
+
+            // Top-level landmark → new section, walked on its own
+            if (role && LANDMARK_ROLES.has(role) && current.role === 'page' && render) {
+                current = openSection(role);
+                emit(`\n${indent}__${role.toUpperCase()}__:`);
+                for (const child of node.children || []) walk(child, depth + 1);
+                current = openSection('page');
+                return;
+            }
+
+            // Tables → Markdown tables (cells are rendered inline, so no recursion)
+            if (role && TABLE_ROLES.has(role)) {
+                renderTable(node, depth, render, emit);
+                return;
+            }
+
+            // Simple list items → one bullet per item
+            if (role === 'listitem' && isInlineItem(node)) {
+                const text = inlineText(node);
+                if (text) emit(`${indent}- ${text}`);
+                return;
+            }
+
             // Headings → Markdown style
             if (role === 'heading') {
                 const lvl = level ?? 0;
-                lines.push(`\n${indent}**${name || 'Heading'}** (Level ${lvl})`);
+                emit(`\n${indent}**${name || 'Heading'}** (Level ${lvl})`);
+                scope.lastText = clean(name, 80);
             }
             // Text nodes – small snippets only
             else if (role === 'text' || role === 'staticText') {
-                if (name) lines.push(`${indent}${clean(name)}`);
+                if (name) emit(`${indent}${clean(name)}`, true);
+                if (name) scope.lastText = clean(name, 80);
             }
             // Landmark / region roles as section headers
-            else if (role === 'navigation' || role === 'main' || role === 'contentinfo' || role === 'banner') {
-                lines.push(`\n${indent}__${role.toUpperCase()}__:`);
+            else if (role && LANDMARK_ROLES.has(role)) {
+                emit(`\n${indent}__${role.toUpperCase()}__:`);
+            }
+            // Dialogs / modals
+            else if (role && DIALOG_ROLES.has(role)) {
+                dialogs.push(name || role);
+                emit(`\n${indent}__DIALOG${name ? ` "${clean(name)}"` : ''}__:`);
             }
             // Interactive elements
             else if (isInteractiveRole(role)) {
-                const label = name || value || role;
-                const id = this.idCounter++;
-                const selector = `getByRole:${role}:${label}`;
-                elementMap.set(id, { role, name: label, selector });
-                const state = [checked ? '(checked)' : '', disabled ? '(disabled)' : ''].filter(Boolean).join(' ');
-                lines.push(`${indent}- ${role.charAt(0).toUpperCase() + role.slice(1)} "${label}" [${id}] ${state}`.trim());
+                const { text, descriptor } = describeElement(node);
+                // Group fields by their <form>: a header whenever a field from another form shows up
+                if (descriptor.formId && descriptor.formId !== currentFormId) {
+                    const formLabel = formLabels.get(descriptor.formId);
+                    emit(`\n${indent}__FORM${formLabel ? ` "${clean(formLabel)}"` : ''}__ (${descriptor.formId}):`);
+                }
+                if (FORM_FIELD_ROLES.has(role)) currentFormId = descriptor.formId;
+                emit(`${indent}- ${text}`);
+            }
+
+            const children: any[] = node.children || [];
+
+            // Long lists (search results, product grids, …) → show the first few items, collapse the rest
+            const itemCount = children.filter(child => child.role === 'listitem').length;
+            if (role === 'list' && itemCount > LIST_COLLAPSE_THRESHOLD) {
+                const sectionId = `list-${++listCount}`;
+                this.sectionIds.add(sectionId);
+                if (render && !this.expandedSections.has(sectionId)) {
+                    const elementsBefore = current.elementCount;
+                    children.forEach((child, index) => walk(child, depth + 1, index < LIST_PREVIEW_ITEMS));
+                    const hidden = children.length - LIST_PREVIEW_ITEMS;
+                    emit(`${indent}  … ${hidden} more items collapsed (${current.elementCount - elementsBefore} interactive elements in list) - expand_section("${sectionId}")`);
+                    return;
+                }
             }
 
             // Recurse
-            for (const child of node.children || []) walk(child, depth + 1);
+            for (const child of children) walk(child, depth + 1, render);
         };
 
+        this.sectionIds.clear();
         walk(snapshot);
-        content += `\n${lines.join('\n')}`;
-        return { content, elementMap };
+
+        // Child frames (same- and cross-origin iframes) are walked separately, each as its own section
+        const frames = page.frames().filter(frame => frame !== page.mainFrame() && !frame.isDetached()).slice(0, MAX_FRAMES);
+        for (const [index, frame] of frames.entries()) {
+            const frameSnapshot = await frame.locator(':root').ariaSnapshot({ timeout: 2000 })
+                .then(parseAriaSnapshot)
+                .catch(error => {
+                    console.log(`[AGENT] Could not snapshot frame ${frame.url()}: ${error}`);
+                    return null;
+                });
+            if (!frameSnapshot || frameSnapshot.children.length === 0) continue;
+
+            const framePath = await this.framePathOf(frame);
+            if (!framePath) continue;
+            scope = await this.createFrameScope(frame, framePath, `frame-${index + 1}/`);
+            current = openSection('iframe');
+            currentFormId = undefined;
+            current.lines.push({ text: `\n__IFRAME "${clean(frame.name() || frame.url(), 80)}"__:`, isText: false });
+            walk(frameSnapshot, 1);
+        }
+
+        sections.forEach(section => this.sectionIds.add(section.id));
+        this.forgetUnseenElements();
+        await this.measureElements(page, elementMap, positions);
+        content += `\n${this.fitToBudget(sections.filter(section => section.lines.length > 0))}`;
+        const diff = this.recordObservation({ url: page.url(), title, elements: elementStates, dialogs, announcements });
+        return { content, elementMap, diff };
+    }
+
+    /**
+     * Always show a section in full on later observations of the current document.
+     * Returns false when the section ID is not on the current page.
+     */
+    expandSection(sectionId: string): boolean {
+        if (!this.sectionIds.has(sectionId)) return false;
+        this.expandedSections.add(sectionId);
+        return true;
+    }
+
+    // Render the sections, shrinking them until the content fits the token budget:
+    // long text runs are summarized, then low-priority landmarks collapsed, then the rest truncated
+    private fitToBudget(sections: Section[]): string {
+        let textRunCount = 0;
+        const rendered = sections.map(section => {
+            const lines: string[] = [];
+            let run: string[] = [];
+            const flushRun = () => {
+                if (run.length > TEXT_RUN_MAX_LINES) {
+                    const runId = `text-${++textRunCount}`;
+                    this.sectionIds.add(runId);
+                    if (!this.expandedSections.has(runId)) {
+                        const hidden = run.length - TEXT_RUN_PREVIEW_LINES;
+                        lines.push(...run.slice(0, TEXT_RUN_PREVIEW_LINES));
+                        lines.push(`${run[0].match(/^\s*/)![0]}… ${hidden} more lines of text - expand_section("${runId}")`);
+                        run = [];
+                        return;
+                    }
+                }
+                lines.push(...run);
+                run = [];
+            };
+            for (const line of section.lines) {
+                if (line.isText) {
+                    run.push(line.text);
+                } else {
+                    flushRun();
+                    lines.push(line.text);
+                }
+            }
+            flushRun();
+            return { section, lines, text: lines.join('\n'), tokens: this.countTokens(lines.join('\n')), collapsed: false };
+        });
+
+        const total = () => rendered.reduce((sum, entry) => sum + entry.tokens, 0);
+        const isPinned = (section: Section) => section.role === 'main' || this.expandedSections.has(section.id);
+
+        // Collapse low-priority landmarks first (largest first within the same priority)
+        const candidates = rendered
+            .filter(entry => !isPinned(entry.section))
+            .sort((a, b) => COLLAPSE_ORDER.indexOf(a.section.role) - COLLAPSE_ORDER.indexOf(b.section.role) || b.tokens - a.tokens);
+        for (const entry of candidates) {
+            if (total() <= this.tokenBudget) break;
+            const label = entry.section.role === 'page' ? 'CONTENT' : entry.section.role.toUpperCase();
+            entry.text = `\n__${label}__ collapsed (${entry.section.elementCount} interactive elements, ~${entry.tokens} tokens) - expand_section("${entry.section.id}")`;
+            entry.tokens = this.countTokens(entry.text);
+            entry.collapsed = true;
+        }
+
+        // Still too big (e.g. a huge main landmark) → truncate what is left, largest first
+        const remaining = rendered
+            .filter(entry => !entry.collapsed && !this.expandedSections.has(entry.section.id))
+            .sort((a, b) => b.tokens - a.tokens);
+        for (const entry of remaining) {
+            const excess = total() - this.tokenBudget;
+            if (excess <= 0) break;
+            const allowed = Math.max(entry.tokens - excess, 0);
+            let kept = 0;
+            let used = 0;
+            while (kept < entry.lines.length && used + this.countTokens(entry.lines[kept]) <= allowed) {
+                used += this.countTokens(entry.lines[kept]);
+                kept++;
+            }
+            if (kept >= entry.lines.length) continue;
+            entry.text = [
+                ...entry.lines.slice(0, kept),
+                `… ${entry.lines.length - kept} more lines truncated - scroll or expand_section("${entry.section.id}")`
+            ].join('\n');
+            entry.tokens = this.countTokens(entry.text);
+        }
+
+        return rendered.map(entry => entry.text).join('\n');
+    }
+
+    private countTokens(text: string): number {
+        return this.encoder.encode(text).length;
+    }
+
+    // Diff against the previous observation, then remember this one
+    private recordObservation(current: ObservedState): ObservationDiff | undefined {
+        const previous = this.previous;
+        this.previous = current;
+        if (!previous) return undefined;
+
+        const diff: ObservationDiff = {
+            added: [],
+            removed: [],
+            changed: [],
+            dialogsOpened: diffList(previous.dialogs, current.dialogs),
+            dialogsClosed: diffList(current.dialogs, previous.dialogs),
+            announcements: diffList(previous.announcements, current.announcements)
+        };
+        if (previous.url !== current.url) diff.urlChanged = { from: previous.url, to: current.url };
+        if (previous.title !== current.title) diff.titleChanged = { from: previous.title, to: current.title };
+
+        for (const [id, element] of current.elements) {
+            const before = previous.elements.get(id);
+            if (!before) {
+                diff.added.push({ id, role: element.role, name: element.name });
+            } else if (before.state !== element.state) {
+                diff.changed.push({ id, role: element.role, name: element.name, from: before.state, to: element.state });
+            }
+        }
+        for (const [id, element] of previous.elements) {
+            if (!current.elements.has(id)) diff.removed.push({ id, role: element.role, name: element.name });
+        }
+
+        return diff;
+    }
+
+    /**
+     * Last known descriptor for an ID from any earlier observation.
+     * Lets callers tell a stale reference apart from an ID that never existed.
+     */
+    getKnownElement(id: number): ElementDescriptor | undefined {
+        return this.knownElements.get(id);
     }
 
     /**
@@ -135,10 +885,180 @@ export class DomParser {
      * Use when executing actions.
      */
     resolveLocator(page: Page, desc: ElementDescriptor): Locator {
-        if (desc.selector.startsWith('getByRole:')) {
-            const [, role, name] = desc.selector.split(':', 3);
-            return page.getByRole(role as any, { name });
+        return this.locate(page, desc.selector);
+    }
+
+    /** Resolve a selector string (role selector or CSS) to a Locator pointing at exactly one element. */
+    locate(page: Page, selector: string): Locator {
+        const { framePath, selector: innerSelector } = splitFrameSelector(selector);
+        let scope: Page | FrameLocator = page;
+        for (const frameSelector of framePath) {
+            scope = scope.frameLocator(frameSelector);
+        }
+
+        const roleSelector = parseRoleSelector(innerSelector);
+        if (roleSelector) {
+            const { role, nth, name } = roleSelector;
+            const matches = name
+                ? scope.getByRole(role as any, { name, exact: true })
+                : scope.getByRole(role as any);
+            return matches.nth(nth);
+        }
+        return scope.locator(innerSelector);
+    }
+
+    /**
+     * Like locate(), but first checks the element is still on the page.
+     * Throws StaleElementError when the page re-rendered and the element is gone.
+     */
+    async locateFresh(page: Page, selector: string): Promise<Locator> {
+        const locator = this.locate(page, selector);
+        const roleSelector = parseRoleSelector(selector);
+        if (roleSelector && await locator.count() === 0) {
+            const { role, nth, name } = roleSelector;
+            throw new StaleElementError(undefined, { role, name: name || role, selector, nth });
+        }
+        return locator;
+    }
+
+    /**
+     * Attach the bounding box of every element (hidden or detached ones keep no box). All elements
+     * of a role in a frame are measured in one pass, so the number of queries does not grow with the page.
+     */
+    private async measureElements(page: Page, elementMap: Map<number, ElementDescriptor>, positions: Map<number, RolePosition>): Promise<void> {
+        const groups = new Map<string, { framePath: string[]; role: string; members: { id: number; roleIndex: number }[] }>();
+        for (const [id, { framePath, role, roleIndex }] of positions) {
+            const key = `${framePath.join('>')}|${role}`;
+            if (!groups.has(key)) groups.set(key, { framePath, role, members: [] });
+            groups.get(key)!.members.push({ id, roleIndex });
+        }
+
+        const frameOffsets = new Map<string, Promise<{ x: number; y: number } | null>>();
+        const setBox = (id: number, box: ElementBox | null, offset: { x: number; y: number }) => {
+            if (!box || box.width <= 0 || box.height <= 0) return;
+            elementMap.get(id)!.box = {
+                x: Math.round(box.x + offset.x),
+                y: Math.round(box.y + offset.y),
+                width: Math.round(box.width),
+                height: Math.round(box.height)
+            };
+        };
+
+        await Promise.all([...groups.values()].map(async ({ framePath, role, members }) => {
+            const frameKey = framePath.join('>');
+            if (!frameOffsets.has(frameKey)) frameOffsets.set(frameKey, this.frameOffset(page, framePath));
+            const offset = await frameOffsets.get(frameKey)!;
+            if (!offset) return;
+
+            let scope: Page | FrameLocator = page;
+            for (const frameSelector of framePath) {
+                scope = scope.frameLocator(frameSelector);
+            }
+            const boxes = await scope.getByRole(role as any).evaluateAll((elements: any[]) => elements.map(element => {
+                const rect = element.getBoundingClientRect();
+                return { x: rect.x, y: rect.y, width: rect.width, height: rect.height };
+            })).catch(() => null);
+
+            if (boxes && boxes.length === members.length) {
+                members.forEach(({ id, roleIndex }) => setBox(id, boxes[roleIndex] ?? null, offset));
+                return;
+            }
+            // The role query disagrees with the snapshot (e.g. the page changed in between): measure one by one
+            for (const { id } of members) {
+                const box = await this.locate(page, elementMap.get(id)!.selector).boundingBox({ timeout: 500 }).catch(() => null);
+                setBox(id, box, { x: 0, y: 0 });
+            }
+        }));
+    }
+
+    // Position of a frame's content in the top viewport (null if the frame is gone)
+    private async frameOffset(page: Page, framePath: string[]): Promise<{ x: number; y: number } | null> {
+        if (framePath.length === 0) return { x: 0, y: 0 };
+
+        let parent: Page | FrameLocator = page;
+        for (const frameSelector of framePath.slice(0, -1)) {
+            parent = parent.frameLocator(frameSelector);
+        }
+        const frameElement = parent.locator(framePath[framePath.length - 1]);
+        const [box, border] = await Promise.all([
+            frameElement.boundingBox({ timeout: 500 }).catch(() => null),
+            frameElement.evaluate((element: any) => ({ x: element.clientLeft, y: element.clientTop }), undefined, { timeout: 500 }).catch(() => ({ x: 0, y: 0 }))
+        ]);
+        return box && { x: box.x + border.x, y: box.y + border.y };
+    }
+
+    private async createFrameScope(frame: Frame, framePath: string[], formPrefix: string): Promise<FrameScope> {
+        const formFields = await frame.evaluate<FormFieldInfo[]>(FORM_FIELDS_SCRIPT).catch(error => {
+            console.log(`[AGENT] Could not collect form fields: ${error}`);
+            return [] as FormFieldInfo[];
+        });
+        return {
+            framePath,
+            frameUrl: frame.url(),
+            formPrefix,
+            roleCounts: new Map(),
+            roleNameCounts: new Map(),
+            formFields,
+            formFieldCursor: 0,
+            lastText: ''
+        };
+    }
+
+    // Chain of iframe selectors from the top frame down to this frame (null if the frame went away)
+    private async framePathOf(frame: Frame): Promise<string[] | null> {
+        const path: string[] = [];
+        for (let child = frame; child.parentFrame(); child = child.parentFrame()!) {
+            const frameElement = await child.frameElement().catch(() => null);
+            if (!frameElement) return null;
+            const index = await frameElement.evaluate((element: any) =>
+                Array.from(element.ownerDocument.querySelectorAll('iframe, frame')).indexOf(element));
+            await frameElement.dispose();
+            if (index < 0) return null;
+            path.unshift(`:is(iframe, frame) >> nth=${index}`);
+        }
+        return path;
+    }
+
+    /**
+     * ID for an element with this frame + role + name key, matched by its position among elements
+     * with that key. The nearby text only breaks ties between several candidates, so a counter or
+     * price changing next to an element does not give it a new ID.
+     */
+    private identify(key: string, nth: number, context: string, claimed: Set<number>): number {
+        const entries = this.identities.get(key) ?? [];
+        const candidates = entries.filter(entry => entry.nth === nth && !claimed.has(entry.id));
+        let identity = candidates.find(entry => entry.context === context) ?? candidates[0];
+        if (!identity) {
+            identity = { id: this.nextId++, nth, context, lastSeen: 0 };
+            entries.push(identity);
+            this.identities.set(key, entries);
+        }
+
+        identity.nth = nth;
+        identity.context = context;
+        identity.lastSeen = this.observationCount;
+        claimed.add(identity.id);
+        return identity.id;
+    }
+
+    // Drop IDs of elements that have been gone for a while, so long sessions on one document stay bounded
+    private forgetUnseenElements(): void {
+        for (const [key, entries] of this.identities) {
+            const kept = entries.filter(entry => this.observationCount - entry.lastSeen < ID_RETENTION_OBSERVATIONS);
+            if (kept.length === entries.length) continue;
+            entries.filter(entry => !kept.includes(entry)).forEach(entry => this.knownElements.delete(entry.id));
+            if (kept.length > 0) this.identities.set(key, kept);
+            else this.identities.delete(key);
+        }
+    }
+
+    // Elements keep their IDs across re-renders of the same document, not across pages
+    private documentKey(url: string): string {
+        try {
+            const { origin, pathname, search } = new URL(url);
+            return `${origin}${pathname}${search}`;
+        } catch {
+            return url;
         }
-        return page.locator(desc.selector);
     }
 }
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { JsonSchema, checkSchema, recordSchema, validateAgainstSchema } from './extraction';
+
+const product: JsonSchema = {
+    type: 'object',
+    properties: {
+        name: { type: 'string', minLength: 1 },
+        price: { type: 'number', minimum: 0 },
+        stock: { type: 'integer' },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+        condition: { enum: ['new', 'used'] }
+    },
+    required: ['name', 'price'],
+    additionalProperties: false
+};
+
+describe('checkSchema', () => {
+    it('accepts the supported subset', () => {
+        expect(checkSchema(product)).toBe(product);
+        expect(() => checkSchema({ type: ['string', 'null'], format: 'date', pattern: '^\\d{4}' })).not.toThrow();
+    });
+
+    it('rejects keywords it cannot enforce, with their path', () => {
+        expect(() => checkSchema({ type: 'object', properties: { name: { type: 'string', oneOf: [] } } }))
+            .toThrow('schema.properties.name: unsupported keyword "oneOf"');
+        expect(() => checkSchema({ type: 'array', items: { $ref: '#/definitions/item' } }))
+            .toThrow('schema.items: unsupported keyword "$ref"');
+    });
+
+    it('rejects formats it cannot check', () => {
+        expect(() => checkSchema({ type: 'string', format: 'hostname' })).toThrow('schema.format: unsupported format "hostname"');
+        expect(() => checkSchema({ type: 'string', format: 'toString' })).toThrow('schema.format: unsupported format "toString"');
+    });
+
+    it('rejects malformed schemas', () => {
+        expect(() => checkSchema('object')).toThrow('schema must be a JSON Schema object');
+        expect(() => checkSchema({ type: 'text' })).toThrow('schema.type: unknown type "text"');
+        expect(() => checkSchema({ required: 'name' })).toThrow('schema.required must be a list of property names');
+        expect(() => checkSchema({ pattern: '(' })).toThrow('schema.pattern is not a valid regular expression');
+        expect(() => checkSchema({ pattern: 'a'.repeat(201) })).toThrow('schema.pattern is too long');
+    });
+});
+
+describe('recordSchema', () => {
+    it('uses the items of an array schema as the record schema', () => {
+        expect(recordSchema({ type: 'array', items: product })).toBe(product);
+        expect(recordSchema(product)).toBe(product);
+    });
+});
+
+describe('validateAgainstSchema', () => {
+    it('accepts matching records', () => {
+        expect(validateAgainstSchema({ name: 'Lamp', price: 12.5, stock: 3, tags: ['home'], condition: 'new' }, product)).toEqual([]);
+    });
+
+    it('reports every violation with its path', () => {
+        const errors = validateAgainstSchema({ name: '', price: -1, stock: 1.5, tags: ['a', 'b', 3], color: 'red' }, product);
+
+        expect(errors).toEqual([
+            'name: must have at least 1 characters',
+            'price: must be >= 0',
+            'stock: expected integer, got number',
+            'tags: must have at most 2 items',
+            'tags[2]: expected string, got integer',
+            'color: unexpected property'
+        ]);
+    });
+
+    it('reports missing required properties and enum mismatches', () => {
+        expect(validateAgainstSchema({ condition: 'broken' }, product)).toEqual([
+            '(root): missing required property "name"',
+            '(root): missing required property "price"',
+            'condition: must be one of "new", "used"'
+        ]);
+    });
+
+    it('only counts own properties', () => {
+        expect(validateAgainstSchema({}, { type: 'object', required: ['toString', 'constructor'] })).toEqual([
+            '(root): missing required property "toString"',
+            '(root): missing required property "constructor"'
+        ]);
+        expect(validateAgainstSchema({ constructor: 5 }, { type: 'object', properties: {}, additionalProperties: false }))
+            .toEqual(['constructor: unexpected property']);
+        expect(validateAgainstSchema({ toString: 'x' }, { type: 'object', properties: { name: { type: 'string' } }, additionalProperties: { type: 'number' } }))
+            .toEqual(['toString: expected number, got string']);
+    });
+
+    it('accepts integers where numbers are expected', () => {
+        expect(validateAgainstSchema(3, { type: 'number' })).toEqual([]);
+        expect(validateAgainstSchema('3', { type: 'number' })).toEqual(['(root): expected number, got string']);
+    });
+
+    it('checks patterns and formats', () => {
+        expect(validateAgainstSchema('SKU-12', { type: 'string', pattern: '^SKU-\\d+$' })).toEqual([]);
+        expect(validateAgainstSchema('12', { type: 'string', pattern: '^SKU-\\d+$' })).toEqual(['(root): must match /^SKU-\\d+$/']);
+
+        expect(validateAgainstSchema('2024-02-29', { type: 'string', format: 'date' })).toEqual([]);
+        expect(validateAgainstSchema('2023-02-29', { type: 'string', format: 'date' })).toEqual(['(root): must be a valid date']);
+        expect(validateAgainstSchema('2024-05-01T10:00:00Z', { format: 'date-time' })).toEqual([]);
+        expect(validateAgainstSchema('yesterday', { format: 'date-time' })).toEqual(['(root): must be a valid date-time']);
+        expect(validateAgainstSchema('sales@example.com', { format: 'email' })).toEqual([]);
+        expect(validateAgainstSchema('https://example.com/a?b=c', { format: 'uri' })).toEqual([]);
+        expect(validateAgainstSchema('/relative/path', { format: 'uri' })).toEqual(['(root): must be a valid uri']);
+    });
+
+    it('gives up on patterns that backtrack catastrophically instead of hanging', () => {
+        const started = Date.now();
+
+        const errors = validateAgainstSchema(`${'a'.repeat(40)}!`, { type: 'string', pattern: '^(a+)+$' });
+
+        expect(errors).toEqual(['(root): took too long to match /^(a+)+$/']);
+        expect(Date.now() - started).toBeLessThan(1000);
+    });
+});
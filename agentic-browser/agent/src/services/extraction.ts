@@ -0,0 +1,216 @@
+import vm from 'vm';
+
+/**
+ * JSON Schema (the commonly used subset) for structured data an instruction asks the agent to extract.
+ */
+export interface JsonSchema {
+    type?: JsonType | JsonType[];
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    enum?: unknown[];
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    format?: string;
+    minItems?: number;
+    maxItems?: number;
+}
+
+type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/** Data extracted for an instruction, as delivered in `agent_complete` */
+export interface ExtractionResult {
+    schema: JsonSchema | null;
+    records: unknown[];
+}
+
+const JSON_TYPES: JsonType[] = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'];
+const SUPPORTED_KEYWORDS = new Set([
+    '$schema', '$id', 'title', 'description', 'type', 'properties', 'required', 'additionalProperties', 'items',
+    'enum', 'minimum', 'maximum', 'minLength', 'maxLength', 'pattern', 'minItems', 'maxItems', 'format', 'examples', 'default'
+]);
+
+const isValidDate = (value: string): boolean => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+/** String formats we can check; schemas using any other `format` are rejected */
+const FORMAT_CHECKS: Record<string, (value: string) => boolean> = {
+    'date-time': value => /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(value) && isValidDate(value.slice(0, 10)),
+    date: value => /^\d{4}-\d{2}-\d{2}$/.test(value) && isValidDate(value),
+    time: value => /^([01]\d|2[0-3]):[0-5]\d:[0-5]\d(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?$/.test(value),
+    email: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+    uri: value => {
+        try {
+            return /^[a-z][a-z\d+.-]*:/i.test(value) && Boolean(new URL(value));
+        } catch {
+            return false;
+        }
+    },
+    uuid: value => /^[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12}$/i.test(value)
+};
+
+/**
+ * Patterns come from clients and run on the server, so they are kept short and every match is
+ * cut off after a few milliseconds; a pattern that backtracks catastrophically only fails its record.
+ */
+const MAX_PATTERN_LENGTH = 200;
+const PATTERN_TIMEOUT_MS = 50;
+const patternContext = vm.createContext({});
+const patternScript = new vm.Script('new RegExp(pattern).test(value)');
+
+// Whether `value` matches, or null when the match ran out of time
+function matchPattern(pattern: string, value: string): boolean | null {
+    Object.assign(patternContext, { pattern, value });
+    try {
+        return patternScript.runInContext(patternContext, { timeout: PATTERN_TIMEOUT_MS }) === true;
+    } catch {
+        return null;
+    }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Own keys only: "constructor" or "toString" must not count as present through the prototype
+const hasOwn = (object: object, key: string): boolean => Object.prototype.hasOwnProperty.call(object, key);
+
+/**
+ * Check that a client-supplied schema only uses keywords we can enforce, so records are never
+ * "validated" against rules that were silently ignored. Throws with the offending path.
+ */
+export function checkSchema(schema: unknown, path: string = 'schema'): JsonSchema {
+    if (!isPlainObject(schema)) {
+        throw new Error(`${path} must be a JSON Schema object`);
+    }
+
+    for (const keyword of Object.keys(schema)) {
+        if (!SUPPORTED_KEYWORDS.has(keyword)) {
+            throw new Error(`${path}: unsupported keyword "${keyword}"`);
+        }
+    }
+
+    const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+    for (const type of types) {
+        if (!JSON_TYPES.includes(type as JsonType)) {
+            throw new Error(`${path}.type: unknown type "${String(type)}"`);
+        }
+    }
+    if (schema.properties !== undefined) {
+        if (!isPlainObject(schema.properties)) throw new Error(`${path}.properties must be an object`);
+        for (const [name, property] of Object.entries(schema.properties)) {
+            checkSchema(property, `${path}.properties.${name}`);
+        }
+    }
+    if (schema.required !== undefined && (!Array.isArray(schema.required) || schema.required.some(name => typeof name !== 'string'))) {
+        throw new Error(`${path}.required must be a list of property names`);
+    }
+    if (isPlainObject(schema.additionalProperties)) {
+        checkSchema(schema.additionalProperties, `${path}.additionalProperties`);
+    }
+    if (schema.items !== undefined) {
+        checkSchema(schema.items, `${path}.items`);
+    }
+    if (schema.enum !== undefined && !Array.isArray(schema.enum)) {
+        throw new Error(`${path}.enum must be a list`);
+    }
+    if (schema.pattern !== undefined) {
+        if (typeof schema.pattern !== 'string') throw new Error(`${path}.pattern must be a string`);
+        if (schema.pattern.length > MAX_PATTERN_LENGTH) {
+            throw new Error(`${path}.pattern is too long (at most ${MAX_PATTERN_LENGTH} characters)`);
+        }
+        try {
+            new RegExp(schema.pattern);
+        } catch {
+            throw new Error(`${path}.pattern is not a valid regular expression`);
+        }
+    }
+    if (schema.format !== undefined && !(typeof schema.format === 'string' && hasOwn(FORMAT_CHECKS, schema.format))) {
+        throw new Error(`${path}.format: unsupported format "${String(schema.format)}" (supported: ${Object.keys(FORMAT_CHECKS).join(', ')})`);
+    }
+
+    return schema as JsonSchema;
+}
+
+// The schema each extracted record must match: an array schema describes the whole result, so its items are the records
+export function recordSchema(schema: JsonSchema): JsonSchema {
+    const isArray = schema.type === 'array' || (Array.isArray(schema.type) && schema.type.includes('array'));
+    return isArray && schema.items ? schema.items : schema;
+}
+
+function typeOf(value: unknown): JsonType {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value as JsonType;
+}
+
+/**
+ * Validate a value against a schema; returns one message per violation (empty when valid).
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path: string = ''): string[] {
+    const at = path || '(root)';
+    const errors: string[] = [];
+
+    if (schema.type !== undefined) {
+        const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+        const actual = typeOf(value);
+        const matches = allowed.includes(actual) || (actual === 'integer' && allowed.includes('number'));
+        if (!matches) {
+            return [`${at}: expected ${allowed.join(' or ')}, got ${actual}`];
+        }
+    }
+
+    if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+        errors.push(`${at}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${at}: must be >= ${schema.minimum}`);
+        if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${at}: must be <= ${schema.maximum}`);
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${at}: must have at least ${schema.minLength} characters`);
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${at}: must have at most ${schema.maxLength} characters`);
+        if (schema.pattern !== undefined) {
+            const matches = matchPattern(schema.pattern, value);
+            if (matches === null) errors.push(`${at}: took too long to match /${schema.pattern}/`);
+            else if (!matches) errors.push(`${at}: must match /${schema.pattern}/`);
+        }
+        if (schema.format !== undefined && !(hasOwn(FORMAT_CHECKS, schema.format) && FORMAT_CHECKS[schema.format](value))) errors.push(`${at}: must be a valid ${schema.format}`);
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${at}: must have at least ${schema.minItems} items`);
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${at}: must have at most ${schema.maxItems} items`);
+        if (schema.items) {
+            value.forEach((item, index) => errors.push(...validateAgainstSchema(item, schema.items!, `${path}[${index}]`)));
+        }
+    }
+
+    if (isPlainObject(value)) {
+        for (const name of schema.required || []) {
+            if (!hasOwn(value, name)) errors.push(`${at}: missing required property "${name}"`);
+        }
+        for (const [name, propertyValue] of Object.entries(value)) {
+            const propertyPath = path ? `${path}.${name}` : name;
+            const propertySchema = schema.properties && hasOwn(schema.properties, name) ? schema.properties[name] : undefined;
+            if (propertySchema) {
+                errors.push(...validateAgainstSchema(propertyValue, propertySchema, propertyPath));
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${propertyPath}: unexpected property`);
+            } else if (isPlainObject(schema.additionalProperties)) {
+                errors.push(...validateAgainstSchema(propertyValue, schema.additionalProperties, propertyPath));
+            }
+        }
+    }
+
+    return errors;
+}
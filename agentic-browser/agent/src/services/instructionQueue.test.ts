@@ -0,0 +1,128 @@
+import { InstructionQueue, InstructionRunner, QueuedInstruction } from './instructionQueue';
+
+/** Runner whose instructions finish when the test says so */
+class ManualRunner implements InstructionRunner {
+    started: string[] = [];
+    private current: { resolve: () => void; reject: (error: Error) => void } | null = null;
+
+    run(text: string): Promise<void> {
+        this.started.push(text);
+        return new Promise((resolve, reject) => {
+            this.current = { resolve, reject };
+        });
+    }
+
+    cancel(): boolean {
+        if (!this.current) return false;
+        this.finish();
+        return true;
+    }
+
+    finish(): void {
+        const current = this.current;
+        this.current = null;
+        current?.resolve();
+    }
+
+    fail(message: string): void {
+        const current = this.current;
+        this.current = null;
+        current?.reject(new Error(message));
+    }
+}
+
+// Let the queue pick up a settled instruction
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('InstructionQueue', () => {
+    let runner: ManualRunner;
+    let changes: QueuedInstruction[];
+    let queue: InstructionQueue;
+
+    const statusesOf = (id: string) => changes.filter(change => change.id === id).map(change => change.status);
+
+    beforeEach(() => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        runner = new ManualRunner();
+        changes = [];
+        queue = new InstructionQueue(runner, instruction => changes.push(instruction));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('runs instructions one at a time in order', async () => {
+        queue.enqueue('a', 'Search for lamps');
+        queue.enqueue('b', 'Open the first result');
+
+        expect(runner.started).toEqual(['Search for lamps']);
+        expect(queue.getSnapshot().map(instruction => [instruction.id, instruction.status])).toEqual([['a', 'running'], ['b', 'queued']]);
+
+        runner.finish();
+        await flush();
+
+        expect(runner.started).toEqual(['Search for lamps', 'Open the first result']);
+        expect(statusesOf('a')).toEqual(['queued', 'running', 'done']);
+        expect(queue.getRunning()?.id).toBe('b');
+    });
+
+    it('drops queued instructions and stops the running one on cancel', async () => {
+        queue.enqueue('a', 'Search for lamps');
+        queue.enqueue('b', 'Open the first result');
+
+        expect(queue.cancel('b')).toBe(true);
+        expect(queue.cancel('a')).toBe(true);
+        await flush();
+
+        expect(statusesOf('a')).toEqual(['queued', 'running', 'cancelled']);
+        expect(statusesOf('b')).toEqual(['queued', 'cancelled']);
+        expect(runner.started).toEqual(['Search for lamps']);
+        expect(queue.cancel('c')).toBe(false);
+    });
+
+    it('replaces everything with a new instruction', async () => {
+        queue.enqueue('a', 'Search for lamps');
+        queue.enqueue('b', 'Open the first result');
+
+        queue.enqueue('c', 'Search for chairs', true);
+        await flush();
+
+        expect(statusesOf('a').pop()).toBe('cancelled');
+        expect(statusesOf('b').pop()).toBe('cancelled');
+        expect(runner.started).toEqual(['Search for lamps', 'Search for chairs']);
+    });
+
+    it('records failures and moves on', async () => {
+        queue.enqueue('a', 'Search for lamps');
+        queue.enqueue('b', 'Open the first result');
+
+        runner.fail('Browser closed');
+        await flush();
+
+        expect(changes.find(change => change.id === 'a' && change.status === 'failed')?.error).toBe('Browser closed');
+        expect(queue.getRunning()?.id).toBe('b');
+    });
+
+    it('fails what is left instead of stalling when the listener throws', async () => {
+        let throwOnDone = true;
+        queue = new InstructionQueue(runner, instruction => {
+            changes.push(instruction);
+            if (instruction.status === 'done' && throwOnDone) {
+                throwOnDone = false;
+                throw new Error('socket closed');
+            }
+        });
+        queue.enqueue('a', 'Search for lamps');
+        queue.enqueue('b', 'Open the first result');
+
+        runner.finish();
+        await flush();
+
+        expect(statusesOf('b')).toEqual(['queued', 'failed']);
+        expect(queue.getSnapshot()).toEqual([]);
+
+        queue.enqueue('c', 'Search for chairs');
+        expect(queue.getRunning()?.id).toBe('c');
+    });
+});
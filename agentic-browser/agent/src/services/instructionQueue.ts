@@ -0,0 +1,137 @@
+import { JsonSchema } from './extraction';
+
+export type InstructionStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface QueuedInstruction {
+    id: string;
+    text: string;
+    /** Schema for the structured data the instruction should extract */
+    schema?: JsonSchema;
+    status: InstructionStatus;
+    enqueuedAt: number;
+    startedAt?: number;
+    finishedAt?: number;
+    /** Why the instruction failed (status 'failed') */
+    error?: string;
+}
+
+/**
+ * Runs one instruction at a time. run() must only settle once the instruction is over,
+ * including any manual-intervention pause in between.
+ */
+export interface InstructionRunner {
+    run(text: string, schema: JsonSchema | null): Promise<void>;
+    /** Ask the running instruction to stop; returns false if nothing was running */
+    cancel(): boolean;
+}
+
+/**
+ * Per-session FIFO of instructions. Only one instruction drives the browser at a time;
+ * every status change is reported to the listener together with the pending queue.
+ */
+export class InstructionQueue {
+    private pending: QueuedInstruction[] = [];
+    private running: QueuedInstruction | null = null;
+    private cancelRequested = false;
+
+    constructor(
+        private runner: InstructionRunner,
+        private onChange: (instruction: QueuedInstruction, queue: QueuedInstruction[]) => void
+    ) {}
+
+    /**
+     * Add an instruction. With `replace`, everything queued is dropped and the running
+     * instruction is cancelled so this one starts as soon as it has stopped.
+     */
+    enqueue(id: string, text: string, replace: boolean = false, schema?: JsonSchema): QueuedInstruction {
+        if (replace) this.cancelAll();
+
+        const instruction: QueuedInstruction = { id, text, schema, status: 'queued', enqueuedAt: Date.now() };
+        this.pending.push(instruction);
+        this.notify(instruction);
+        this.drain().catch(error => this.abort(error));
+        return instruction;
+    }
+
+    /** Drop a queued instruction or stop the running one; returns false for unknown IDs */
+    cancel(id: string): boolean {
+        if (this.running?.id === id) {
+            this.cancelRequested = this.runner.cancel() || this.cancelRequested;
+            return this.cancelRequested;
+        }
+
+        const index = this.pending.findIndex(instruction => instruction.id === id);
+        if (index === -1) return false;
+        const [instruction] = this.pending.splice(index, 1);
+        this.finish(instruction, 'cancelled');
+        return true;
+    }
+
+    /** Drop everything queued and stop the running instruction */
+    cancelAll(): void {
+        this.pending.splice(0).forEach(instruction => this.finish(instruction, 'cancelled'));
+        if (this.running) this.cancel(this.running.id);
+    }
+
+    getRunning(): QueuedInstruction | null {
+        return this.running ? { ...this.running } : null;
+    }
+
+    /** The running instruction followed by the queued ones */
+    getSnapshot(): QueuedInstruction[] {
+        return [...(this.running ? [this.running] : []), ...this.pending].map(instruction => ({ ...instruction }));
+    }
+
+    private async drain(): Promise<void> {
+        if (this.running) return;
+
+        while (this.pending.length > 0) {
+            const instruction = this.pending.shift()!;
+            this.running = instruction;
+            this.cancelRequested = false;
+            instruction.status = 'running';
+            instruction.startedAt = Date.now();
+            this.notify(instruction);
+
+            let status: InstructionStatus = 'done';
+            try {
+                await this.runner.run(instruction.text, instruction.schema ?? null);
+                if (this.cancelRequested) status = 'cancelled';
+            } catch (error) {
+                console.error(`[QUEUE] Instruction ${instruction.id} failed:`, error);
+                status = 'failed';
+                instruction.error = error instanceof Error ? error.message : 'Unknown error';
+            }
+
+            this.running = null;
+            this.finish(instruction, status);
+        }
+    }
+
+    // Something outside the runner failed (e.g. the listener threw): fail what is left so the queue does not stall
+    private abort(error: unknown): void {
+        console.error('[QUEUE] Queue processing failed:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const stranded = [...(this.running ? [this.running] : []), ...this.pending.splice(0)];
+        this.running = null;
+
+        for (const instruction of stranded) {
+            instruction.error = message;
+            try {
+                this.finish(instruction, 'failed');
+            } catch (notifyError) {
+                console.error(`[QUEUE] Could not report failure of instruction ${instruction.id}:`, notifyError);
+            }
+        }
+    }
+
+    private finish(instruction: QueuedInstruction, status: InstructionStatus): void {
+        instruction.status = status;
+        instruction.finishedAt = Date.now();
+        this.notify(instruction);
+    }
+
+    private notify(instruction: QueuedInstruction): void {
+        this.onChange({ ...instruction }, this.getSnapshot());
+    }
+}
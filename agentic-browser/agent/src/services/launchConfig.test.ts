@@ -0,0 +1,82 @@
+import { devices } from 'playwright';
+import { SessionLaunchConfig, describeLaunchConfig, resolveLaunchConfig, toContextOptions } from './launchConfig';
+
+describe('resolveLaunchConfig', () => {
+    it('fills in defaults', () => {
+        expect(resolveLaunchConfig({ startUrl: 'about:blank' })).toEqual({
+            device: undefined,
+            viewport: { width: 1280, height: 720 },
+            locale: undefined,
+            timezoneId: undefined,
+            geolocation: undefined,
+            userAgent: undefined,
+            proxy: undefined,
+            startUrl: 'about:blank',
+            screencast: { format: 'jpeg', quality: 80, maxWidth: 1280, maxHeight: 720 }
+        });
+    });
+
+    it('layers overrides over the base config', () => {
+        const base = resolveLaunchConfig({ locale: 'de-DE', startUrl: 'https://example.com/' });
+
+        const config = resolveLaunchConfig({ timezoneId: 'Europe/Berlin', screencast: { format: 'png' } }, base);
+
+        expect(config).toMatchObject({ locale: 'de-DE', timezoneId: 'Europe/Berlin', startUrl: 'https://example.com/' });
+        expect(config.screencast).toEqual({ format: 'png', quality: 80, maxWidth: 1280, maxHeight: 720 });
+    });
+
+    it('takes the viewport from the device unless one is given', () => {
+        expect(resolveLaunchConfig({ device: 'iPhone 13' }).viewport).toEqual(devices['iPhone 13'].viewport);
+        expect(resolveLaunchConfig({ device: 'iPhone 13', viewport: { width: 800, height: 600 } }).viewport).toEqual({ width: 800, height: 600 });
+    });
+
+    it('only accepts Playwright device names', () => {
+        expect(() => resolveLaunchConfig({ device: 'Nokia 3310' })).toThrow('Unknown device "Nokia 3310"');
+        expect(() => resolveLaunchConfig({ device: 'constructor' })).toThrow('Unknown device "constructor"');
+        expect(() => resolveLaunchConfig({ device: 'toString' })).toThrow('Unknown device "toString"');
+    });
+
+    it('rejects values Playwright would refuse or misuse', () => {
+        expect(() => resolveLaunchConfig({ viewport: { width: 100, height: 600 } })).toThrow('Viewport must be whole pixels, 200-3840 wide and 200-2160 high');
+        expect(() => resolveLaunchConfig({ locale: 'english' })).toThrow('Invalid locale "english"');
+        expect(() => resolveLaunchConfig({ timezoneId: 'Mars/Olympus' })).toThrow('Unknown time zone "Mars/Olympus"');
+        expect(() => resolveLaunchConfig({ geolocation: { latitude: 91, longitude: 0 } })).toThrow('Geolocation needs a latitude between -90 and 90');
+        expect(() => resolveLaunchConfig({ geolocation: { latitude: 0, longitude: 0, accuracy: -1 } })).toThrow('Geolocation accuracy must be between 0 and 100000 meters');
+        expect(() => resolveLaunchConfig({ userAgent: 'x'.repeat(513) })).toThrow('userAgent must be a string of at most 512 characters');
+        expect(() => resolveLaunchConfig({ screencast: { quality: 0 } })).toThrow('Screencast quality must be a whole number between 1 and 100');
+    });
+
+    it('checks the proxy and start URL', () => {
+        expect(() => resolveLaunchConfig({ proxy: { server: 'proxy:3128' } })).toThrow('Proxy scheme must be one of: http, https, socks5');
+        expect(() => resolveLaunchConfig({ proxy: { server: 'not a url' } })).toThrow('Proxy server must be a URL such as http://proxy.example.com:3128');
+        expect(() => resolveLaunchConfig({ startUrl: 'example.com' })).toThrow('Invalid start URL "example.com"');
+        expect(() => resolveLaunchConfig({ startUrl: 'file:///etc/passwd' })).toThrow('Start URL must be an http(s) address or about:blank');
+    });
+});
+
+describe('toContextOptions', () => {
+    it('applies device emulation under the explicit settings', () => {
+        const config = resolveLaunchConfig({ device: 'iPhone 13', userAgent: 'TestAgent', geolocation: { latitude: 52.5, longitude: 13.4 } });
+
+        const options = toContextOptions(config);
+
+        expect(options).toMatchObject({ isMobile: true, hasTouch: true, userAgent: 'TestAgent', viewport: devices['iPhone 13'].viewport });
+        expect(options.permissions).toEqual(['geolocation']);
+        expect(options).not.toHaveProperty('defaultBrowserType');
+    });
+
+    it('ignores device names that are not Playwright devices', () => {
+        const config: SessionLaunchConfig = { ...resolveLaunchConfig({ startUrl: 'about:blank' }), device: 'constructor' };
+
+        expect(toContextOptions(config)).toEqual({ viewport: { width: 1280, height: 720 } });
+    });
+});
+
+describe('describeLaunchConfig', () => {
+    it('masks the proxy password', () => {
+        const config = resolveLaunchConfig({ proxy: { server: 'http://proxy.test:3128', username: 'ann', password: 'secret' } });
+
+        expect(describeLaunchConfig(config).proxy).toEqual({ server: 'http://proxy.test:3128', username: 'ann', password: '********', bypass: undefined });
+        expect(config.proxy?.password).toBe('secret');
+    });
+});
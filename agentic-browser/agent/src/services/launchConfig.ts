@@ -0,0 +1,196 @@
+import { devices, BrowserContextOptions } from 'playwright';
+
+export interface Viewport {
+    width: number;
+    height: number;
+}
+
+export interface Geolocation {
+    latitude: number;
+    longitude: number;
+    accuracy?: number;
+}
+
+export interface ProxyConfig {
+    /** e.g. http://proxy.example.com:3128 or socks5://127.0.0.1:1080 */
+    server: string;
+    username?: string;
+    password?: string;
+    /** Comma-separated hosts that skip the proxy */
+    bypass?: string;
+}
+
+export interface ScreencastConfig {
+    format: 'jpeg' | 'png';
+    /** JPEG quality 1-100 (ignored for PNG) */
+    quality: number;
+    maxWidth: number;
+    maxHeight: number;
+}
+
+/**
+ * How a session's browser context is set up. Chosen by the client in the connection
+ * handshake; fixed for the lifetime of the session.
+ */
+export interface SessionLaunchConfig {
+    /** Playwright device to emulate (e.g. "iPhone 13"): user agent, scale factor, touch and, unless given, viewport */
+    device?: string;
+    viewport: Viewport;
+    locale?: string;
+    /** IANA time zone, e.g. "Europe/Berlin" */
+    timezoneId?: string;
+    geolocation?: Geolocation;
+    userAgent?: string;
+    proxy?: ProxyConfig;
+    startUrl: string;
+    screencast: ScreencastConfig;
+}
+
+export type LaunchConfigOverrides = Partial<Omit<SessionLaunchConfig, 'screencast'>> & { screencast?: Partial<ScreencastConfig> };
+
+const DEFAULT_VIEWPORT: Viewport = { width: 1280, height: 720 };
+const DEFAULT_SCREENCAST: ScreencastConfig = { format: 'jpeg', quality: 80, maxWidth: 1280, maxHeight: 720 };
+const SCREENCAST_FORMATS = ['jpeg', 'png'];
+const PROXY_SCHEMES = ['http:', 'https:', 'socks5:'];
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/i;
+
+// Device names come from clients; inherited keys such as "constructor" are not devices
+function isKnownDevice(name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(devices, name);
+}
+
+function isInteger(value: unknown, min: number, max: number): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+function isNumberBetween(value: unknown, min: number, max: number): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+function optionalString(value: unknown, field: string, maxLength: number = 512): string | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value !== 'string' || value.length > maxLength) {
+        throw new Error(`${field} must be a string of at most ${maxLength} characters`);
+    }
+    return value;
+}
+
+/**
+ * Resolve a session's launch config from client overrides, then `base`, then defaults
+ * (start page from AGENT_START_URL). Throws on anything Playwright would reject or misuse.
+ */
+export function resolveLaunchConfig(overrides: LaunchConfigOverrides = {}, base?: SessionLaunchConfig): SessionLaunchConfig {
+    const device = optionalString(overrides.device, 'device', 64) ?? base?.device;
+    if (device !== undefined && !isKnownDevice(device)) {
+        throw new Error(`Unknown device "${device}"`);
+    }
+
+    const viewport = overrides.viewport ?? (overrides.device ? devices[device!].viewport : undefined) ?? base?.viewport ?? DEFAULT_VIEWPORT;
+    if (!isInteger(viewport?.width, 200, 3840) || !isInteger(viewport?.height, 200, 2160)) {
+        throw new Error('Viewport must be whole pixels, 200-3840 wide and 200-2160 high');
+    }
+
+    const locale = optionalString(overrides.locale, 'locale', 35) ?? base?.locale;
+    if (locale !== undefined && !LOCALE_PATTERN.test(locale)) {
+        throw new Error(`Invalid locale "${locale}", expected a language tag such as "en-US"`);
+    }
+
+    const timezoneId = optionalString(overrides.timezoneId, 'timezoneId', 64) ?? base?.timezoneId;
+    if (timezoneId !== undefined) {
+        try {
+            new Intl.DateTimeFormat('en-US', { timeZone: timezoneId });
+        } catch {
+            throw new Error(`Unknown time zone "${timezoneId}"`);
+        }
+    }
+
+    const geolocation = overrides.geolocation ?? base?.geolocation;
+    if (geolocation !== undefined) {
+        if (!isNumberBetween(geolocation?.latitude, -90, 90) || !isNumberBetween(geolocation?.longitude, -180, 180)) {
+            throw new Error('Geolocation needs a latitude between -90 and 90 and a longitude between -180 and 180');
+        }
+        if (geolocation.accuracy !== undefined && !isNumberBetween(geolocation.accuracy, 0, 100000)) {
+            throw new Error('Geolocation accuracy must be between 0 and 100000 meters');
+        }
+    }
+
+    const userAgent = optionalString(overrides.userAgent, 'userAgent') ?? base?.userAgent;
+
+    const proxy = overrides.proxy ?? base?.proxy;
+    if (proxy !== undefined) {
+        let scheme: string;
+        try {
+            scheme = new URL(proxy?.server).protocol;
+        } catch {
+            throw new Error('Proxy server must be a URL such as http://proxy.example.com:3128');
+        }
+        if (!PROXY_SCHEMES.includes(scheme)) {
+            throw new Error(`Proxy scheme must be one of: ${PROXY_SCHEMES.map(s => s.slice(0, -1)).join(', ')}`);
+        }
+        optionalString(proxy.username, 'Proxy username', 256);
+        optionalString(proxy.password, 'Proxy password', 256);
+        optionalString(proxy.bypass, 'Proxy bypass list', 1024);
+    }
+
+    const startUrl = optionalString(overrides.startUrl, 'startUrl', 2048) ?? base?.startUrl ?? (process.env.AGENT_START_URL || 'https://www.google.com');
+    let startProtocol: string;
+    try {
+        startProtocol = new URL(startUrl).protocol;
+    } catch {
+        throw new Error(`Invalid start URL "${startUrl}"`);
+    }
+    if (startUrl !== 'about:blank' && startProtocol !== 'http:' && startProtocol !== 'https:') {
+        throw new Error('Start URL must be an http(s) address or about:blank');
+    }
+
+    const screencast: ScreencastConfig = { ...(base?.screencast ?? DEFAULT_SCREENCAST), ...overrides.screencast };
+    if (!SCREENCAST_FORMATS.includes(screencast.format)) {
+        throw new Error(`Screencast format must be one of: ${SCREENCAST_FORMATS.join(', ')}`);
+    }
+    if (!isInteger(screencast.quality, 1, 100)) {
+        throw new Error('Screencast quality must be a whole number between 1 and 100');
+    }
+    if (!isInteger(screencast.maxWidth, 200, 3840) || !isInteger(screencast.maxHeight, 200, 2160)) {
+        throw new Error('Screencast size must be whole pixels, 200-3840 wide and 200-2160 high');
+    }
+
+    return {
+        device,
+        viewport: { width: viewport.width, height: viewport.height },
+        locale,
+        timezoneId,
+        geolocation: geolocation && { latitude: geolocation.latitude, longitude: geolocation.longitude, accuracy: geolocation.accuracy },
+        userAgent,
+        proxy: proxy && { server: proxy.server, username: proxy.username, password: proxy.password, bypass: proxy.bypass },
+        startUrl,
+        screencast: {
+            format: screencast.format,
+            quality: screencast.quality,
+            maxWidth: screencast.maxWidth,
+            maxHeight: screencast.maxHeight
+        }
+    };
+}
+
+// Playwright context options for a launch config
+export function toContextOptions(config: SessionLaunchConfig): BrowserContextOptions {
+    const { defaultBrowserType, ...emulation } = config.device && isKnownDevice(config.device) ? devices[config.device] : ({} as { defaultBrowserType?: string });
+    const options: BrowserContextOptions = { ...emulation, viewport: config.viewport };
+
+    if (config.locale) options.locale = config.locale;
+    if (config.timezoneId) options.timezoneId = config.timezoneId;
+    if (config.userAgent) options.userAgent = config.userAgent;
+    if (config.proxy) options.proxy = config.proxy;
+    if (config.geolocation) {
+        options.geolocation = config.geolocation;
+        options.permissions = ['geolocation'];
+    }
+
+    return options;
+}
+
+// The config as sent back to the client, without the proxy password
+export function describeLaunchConfig(config: SessionLaunchConfig): SessionLaunchConfig {
+    if (!config.proxy?.password) return config;
+    return { ...config, proxy: { ...config.proxy, password: '********' } };
+}
@@ -1,37 +1,35 @@
-import OpenAI from 'openai';
+import { ChatMessage, LLMConfig, LLMProvider, LLMResponse, ToolDefinition, createProvider, resolveLLMConfig } from './providers';
 
-export interface LLMResponse {
-    content: string;
-    toolCalls?: {
-        id: string;
-        name: string;
-        arguments: any;
-    }[];
-}
+export { LLMResponse, LLMConfig };
 
 export class LLMService {
-    private openai: OpenAI;
+    private provider!: LLMProvider;
+    private config!: LLMConfig;
     private systemPrompt: string = `
         You are an agentic browser. You are not a conversational agent. You are a tool-using agent. You are controlling a playwright chrome browser.
-        You can click on elements, navigate to URLs, and go back in browser history. 
+        You can click on elements, type, navigate to URLs, go back in browser history, scroll, hover, pick dropdown options ('select_option'),
+        check/uncheck checkboxes and press keys or shortcuts ('press_key').
         Your job is to translate the user's instructions into actions on the page, and then call the 'stop' tool when the task is complete.
 
         PLANNING STRATEGY: When you receive a new instruction, first consider breaking it down into sub-goals using 'branch'. 
         Use the 'subgoals' array parameter - you can send one step or multiple steps. Always think: "What are all the steps needed to complete this?"
         
         You can use planning actions:
-        - 'branch' to add sub-goal(s) to the Active Subgoals list (use 'subgoals' array - HIGHLY RECOMMENDED for new instructions).
-        - 'complete_subgoal' to mark the current subgoal as COMPLETED and advance to the next one
-        - 'prune' to remove the most recent sub-goal (backtrack from current subgoal approach)
+        - 'branch' to add sub-goal(s) to the Subgoals tree (use 'subgoals' array - HIGHLY RECOMMENDED for new instructions).
+          Calling 'branch' again while a subgoal is CURRENT breaks that subgoal down into nested steps; use 'after_id' to insert steps later in the plan.
+        - 'complete_subgoal' to mark the current subgoal as COMPLETED (or FAILED / SKIPPED via 'status') and advance to the next one
+        - 'prune' to abandon the CURRENT sub-goal when it is a dead end (backtracks the browser to where that sub-goal started and advances to the next one)
         - 'note' to record important observations
         - 'manual_intervention' to request human help (use for login pages, CAPTCHAs, or other human-only tasks)
         - 'stop' to complete the task
         
-        SUBGOAL STATUS: Subgoals show their status: no status (pending), (CURRENT) for the one you're working on, (COMPLETED) for finished ones.
+        SUBGOAL STATUS: Subgoals are shown as a tree with stable IDs like [S2] and a status: (PENDING), (CURRENT) for the ones you're working on,
+        (COMPLETED), (FAILED) or (SKIPPED). When a nested step fails or is pruned, its parent becomes the deepest CURRENT subgoal again so you can try another approach.
         Use 'complete_subgoal' when you finish the current subgoal to advance to the next one. 
         Trigger 'complete_subgoal' when it seems like you have completed the current subgoal.
         
         IMPORTANT: Goals are user instructions and can be branched into sub-goals, but cannot be pruned/removed. Only sub-goals can be pruned.
+        Pruned sub-goals are listed with the reason they were abandoned - do not repeat the same approach.
         
         MANUAL INTERVENTION: Use 'manual_intervention' when you encounter:
         - Login or authentication pages requiring credentials
@@ -49,212 +47,66 @@ export class LLMService {
         - Reached a logical endpoint for the user's instruction
         
         ALWAYS use 'stop' instead of asking "what else would you like me to do" or similar conversational responses.
+        Each instruction has a limited number of steps, tokens and time. Repeating the same action on an unchanged page ends the instruction early,
+        so when an action had no effect, try a different approach instead of repeating it.
         
+        HISTORY: The result of each tool call you make is returned to you as a tool message (status, what happened, whether the page navigated and the new URL).
+        Actions are verified and clicks retried automatically; messages that appear on the page (alerts, toasts) are included in the tool result,
+        and an error there means the action did not have the intended effect.
+        Only the latest message contains the full current page; older steps are shortened or summarized. Check the tool results before repeating an action.
+        "Changes since last action" lists what appeared, disappeared or changed on the page after your last step - use it to verify that an action worked.
+
         For clicking elements, use the element IDs shown in brackets [number] from the page content.
         For typing text, use the element IDs of input fields.
+        Element IDs stay the same across observations of the same page. If a tool reports that an element is no longer present,
+        the page has changed - pick the element again from the latest page content.
         Use the 'enter' action to press the Enter key, commonly needed after typing in search boxes or forms.
+        Form fields show their current value, placeholder, (required)/(invalid) state and error or hint text, grouped under their __FORM__.
+        Use 'fill_form' to fill several fields of a form in one call, then check the (invalid) fields and error text before submitting.
+        Use 'select_option' for dropdowns (combobox/listbox) instead of clicking options one by one, 'hover' to open hover menus,
+        and 'scroll' when the content you need is further down the page or loads as you scroll.
+        Large pages are compressed: long lists, long text and less important regions are collapsed with an expand_section("id") hint.
+        Use 'expand_section' with that ID when what you need is collapsed; it is shown in full in the next page content.
+        When a screenshot is attached, use it to understand layout, icons and visual state; the numbered boxes are the element IDs.
+        If something you need to click has no element ID (canvas, unlabeled icon), use 'click_at' with viewport coordinates as a last resort.
+        Content of embedded frames (payment widgets, embedded logins, cookie banners) is listed under __IFRAME__ headers; its element IDs work like any other.
+        Links that open a new tab or popup switch to it automatically; use 'switch_tab' / 'close_tab' with the IDs from Open Tabs to move between them.
+        When the task asks for data (and especially when it comes with an Extraction Schema), save it with 'extract' as you find it, page by page,
+        using values exactly as shown on the page; the saved records are delivered with your final answer, so don't repeat them in 'stop'.
     `;
-    private tools: OpenAI.Chat.Completions.ChatCompletionTool[] = [
-        {
-            type: 'function',
-            function: {
-                name: 'click',
-                description: 'Click on an element using its ID number from the page',
-                parameters: {
-                    type: 'object',
-                    properties: {
-                        elementId: {
-                            type: 'number',
-                            description: 'The ID number of the element to click (from the page content brackets [number])'
-                        }
-                    },
-                    required: ['elementId']
-                }
-            }
-        },
-        {
-            type: 'function',
-            function: {
-                name: 'type',
-                description: 'Type text into an input field using its ID number from the page',
-                parameters: {
-                    type: 'object',
-                    properties: {
-                        elementId: {
-                            type: 'number',
-                            description: 'The ID number of the input field (from the page content brackets [number])'
-                        },
-                        text: {
-                            type: 'string',
-                            description: 'The text to type into the input field'
-                        }
-                    },
-                    required: ['elementId', 'text']
-                }
-            }
-        },
-        {
-            type: 'function',
-            function: {
-                name: 'enter',
-                description: 'Press the Enter key to submit forms or trigger actions',
-                parameters: {
-                    type: 'object',
-                    properties: {}
-                }
-            }
-        },
-        {
-            type: 'function',
-            function: {
-                name: 'goto',
-                description: 'Navigate to a specific URL',
-                parameters: {
-                    type: 'object',
-                    properties: {
-                        url: {
-                            type: 'string',
-                            description: 'The URL to navigate to'
-                        }
-                    },
-                    required: ['url']
-                }
-            }
-        },
-        {
-            type: 'function',
-            function: {
-                name: 'goBack',
-                description: 'Go back to the previous page in browser history',
-                parameters: {
-                    type: 'object',
-                    properties: {}
-                }
-            }
-        },
-        {
-            type: 'function',
-            function: {
-                name: 'branch',
-                description: 'Add one or multiple sub-goals to break down complex tasks. Can only be used ONCE per plan. Do not use if sub-goals already exist for the current plan. The first new subgoal becomes CURRENT.',
-                parameters: {
-                    type: 'object',
-                    properties: {
-                        subgoals: {
-                            type: 'array',
-                            items: {
-                                type: 'string'
-                            },
-                            description: 'Array of sub-goal descriptions to add (each will be created with PENDING status). Only use when no sub-goals exist yet.'
-                        }
-                    },
-                    required: ['subgoals']
-                }
-            }
-        },
-        {
-            type: 'function',
-            function: {
-                name: 'complete_subgoal',
-                description: 'Mark the CURRENT subgoal as COMPLETED and automatically advance to the next PENDING subgoal (making it CURRENT). Use when you have successfully finished the current step.',
-                parameters: {
-                    type: 'object',
-                    properties: {}
-                }
-            }
-        },
-        {
-            type: 'function',
-            function: {
-                name: 'note',
-                description: 'Record an important observation or piece of information',
-                parameters: {
-                    type: 'object',
-                    properties: {
-                        message: {
-                            type: 'string',
-                            description: 'The observation or information to record'
-                        }
-                    },
-                    required: ['message']
-                }
-            }
-        },
-        {
-            type: 'function',
-            function: {
-                name: 'manual_intervention',
-                description: 'Request human intervention for tasks that require human input (login pages, CAPTCHAs, etc.)',
-                parameters: {
-                    type: 'object',
-                    properties: {
-                        reason: {
-                            type: 'string',
-                            description: 'Explanation of why manual intervention is needed'
-                        },
-                        suggestion: {
-                            type: 'string',
-                            description: 'What the human should do to help'
-                        }
-                    },
-                    required: ['reason', 'suggestion']
-                }
-            }
-        },
-        {
-            type: 'function',
-            function: {
-                name: 'stop',
-                description: 'REQUIRED: Call this when the task is complete. Use instead of conversational responses.',
-                parameters: {
-                    type: 'object',
-                    properties: {
-                        answer: {
-                            type: 'string',
-                            description: 'The final answer, result, or confirmation of what was accomplished'
-                        }
-                    },
-                    required: ['answer']
-                }
-            }
-        }
-    ];
+    constructor(config: Partial<LLMConfig> = {}) {
+        this.configure(config);
+    }
 
-    constructor() {
-        this.openai = new OpenAI({
-            apiKey: process.env.OPENAI_API_KEY
-        });
+    // Switch provider / model / endpoint, e.g. when a session asks for a different backend
+    configure(overrides: Partial<LLMConfig>): void {
+        const config = resolveLLMConfig(overrides);
+        this.provider = createProvider(config);
+        this.config = config;
+        console.log(`[LLM] Using provider ${this.config.provider} with model ${this.config.model}${this.config.baseURL ? ` at ${this.config.baseURL}` : ''}`);
     }
 
-    async getResponse(messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[]): Promise<LLMResponse> {
-        const systemMessage: OpenAI.Chat.Completions.ChatCompletionMessageParam = {
-            role: 'system',
-            content: this.systemPrompt.trim()
-        };
+    // Use an already constructed provider (e.g. a ReplayProvider with an in-memory script)
+    useProvider(provider: LLMProvider): void {
+        this.provider = provider;
+        this.config = { ...this.config, provider: provider.name };
+    }
 
-        const messageHistory = [systemMessage, ...messages];
+    // Current configuration without credentials, safe to send to the UI
+    getConfig(): Omit<LLMConfig, 'apiKey'> {
+        const { apiKey, ...publicConfig } = this.config;
+        return publicConfig;
+    }
 
-        const completion = await this.openai.chat.completions.create({
-            model: 'gpt-4o',
-            messages: messageHistory,
-            tools: this.tools,
-            tool_choice: 'auto'
+    async getResponse(messages: ChatMessage[], tools: ToolDefinition[]): Promise<LLMResponse> {
+        const response = await this.provider.complete({
+            systemPrompt: this.systemPrompt.trim(),
+            messages,
+            tools
         });
 
-        const message = completion.choices[0]?.message;
-        const content = message?.content || '';
-
-        const toolCalls = message?.tool_calls?.map(call => ({
-            id: call.id,
-            name: call.function.name,
-            arguments: JSON.parse(call.function.arguments)
-        }));
-
-        console.log('LLM response:', { content, toolCalls });
+        console.log('LLM response:', { content: response.content, toolCalls: response.toolCalls });
 
-        return {
-            content,
-            toolCalls
-        };
+        return response;
     }
 }
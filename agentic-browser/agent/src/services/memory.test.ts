@@ -0,0 +1,99 @@
+import { ConversationMemory, ToolResult } from './memory';
+
+const ok = (message: string, extra: Partial<ToolResult> = {}): ToolResult => ({ status: 'success', message, navigated: false, ...extra });
+
+// One loop iteration: the step context, a single tool call and its result
+const step = (memory: ConversationMemory, index: number, context: string = `Page ${index}`) => {
+    memory.startTurn(context, `[Loop ID:${index}] Page observation (omitted)`);
+    memory.recordAssistant({ content: '', toolCalls: [{ id: `call_${index}`, name: 'click', arguments: { elementId: index } }] });
+    memory.recordToolResult(`call_${index}`, 'click', { elementId: index }, ok(`click(${index})`));
+};
+
+describe('ConversationMemory', () => {
+    it('sends the latest context in full and older ones as summaries', () => {
+        const memory = new ConversationMemory(100000);
+        step(memory, 1, 'First page with lots of content');
+        step(memory, 2, 'Second page');
+
+        const messages = memory.getMessages();
+
+        expect(messages.map(message => message.role)).toEqual(['user', 'assistant', 'tool', 'user', 'assistant', 'tool']);
+        expect(messages[0].content).toBe('[Loop ID:1] Page observation (omitted)');
+        expect(messages[3].content).toBe('Second page');
+    });
+
+    it('pairs every tool call with a result, even when it never ran', () => {
+        const memory = new ConversationMemory(100000);
+        memory.startTurn('Page', 'Page (omitted)');
+        memory.recordAssistant({
+            content: '',
+            toolCalls: [{ id: 'a', name: 'click', arguments: { elementId: 1 } }, { id: 'b', name: 'stop', arguments: { answer: 'done' } }]
+        });
+        memory.recordToolResult('a', 'click', { elementId: 1 }, ok('click(1)', { navigated: true, url: 'https://example.test/next' }));
+
+        const [, assistant, first, second] = memory.getMessages();
+
+        expect(assistant).toMatchObject({ role: 'assistant', tool_calls: [{ id: 'a' }, { id: 'b' }] });
+        expect(first).toMatchObject({ role: 'tool', tool_call_id: 'a' });
+        expect(JSON.parse(first.content as string)).toMatchObject({ status: 'success', url: 'https://example.test/next' });
+        expect(second).toMatchObject({ role: 'tool', tool_call_id: 'b' });
+        expect(JSON.parse(second.content as string)).toMatchObject({ status: 'error', message: 'Not executed' });
+    });
+
+    it('folds the oldest turns into a summary once over the token budget', () => {
+        const memory = new ConversationMemory(600);
+        for (let index = 1; index <= 20; index++) step(memory, index);
+
+        const messages = memory.getMessages();
+
+        expect(memory.countTokens(messages)).toBeLessThanOrEqual(600);
+        // Only as many turns as needed are folded; the rest stay as messages
+        expect(messages.filter(message => message.role === 'assistant').length).toBeGreaterThan(1);
+        expect(messages[0].content).toMatch(/^Summary of earlier steps:\n {2}- click\(\{"elementId":1\}\) → success: click\(1\)\n/);
+        // The latest turn is always kept whole
+        expect(messages.slice(-3).map(message => message.role)).toEqual(['user', 'assistant', 'tool']);
+        expect(messages[messages.length - 3].content).toBe('Page 20');
+    });
+
+    it('caps the summary and says how many steps were left out', () => {
+        const memory = new ConversationMemory(150, 3);
+        for (let index = 1; index <= 10; index++) step(memory, index);
+
+        const summary = memory.getMessages()[0].content as string;
+        const lines = summary.split('\n').filter(line => line.startsWith('  - '));
+
+        expect(summary).toMatch(/\((\d+) older steps omitted\)/);
+        expect(lines).toHaveLength(3);
+        const omitted = Number(summary.match(/\((\d+) older steps omitted\)/)![1]);
+        expect(lines[0]).toContain(`"elementId":${omitted + 1}`);
+    });
+
+    it('keeps the latest turn even when it alone is over the budget', () => {
+        const memory = new ConversationMemory(10);
+        step(memory, 1);
+        step(memory, 2, 'A page far too long for the budget '.repeat(20));
+
+        const messages = memory.getMessages();
+
+        expect(messages[0].content).toMatch(/^Summary of earlier steps:/);
+        expect(messages[1].content).toContain('A page far too long');
+    });
+
+    it('only attaches the screenshot to the latest turn', () => {
+        const memory = new ConversationMemory(100000);
+        const image = { dataUrl: 'data:image/jpeg;base64,AAAA', detail: 'low' as const, tokens: 85 };
+        memory.startTurn('Page 1', 'Page 1 (omitted)', image);
+        memory.recordAssistant({ content: 'Looking around' });
+        memory.startTurn('Page 2', 'Page 2 (omitted)', image);
+
+        const messages = memory.getMessages();
+
+        expect(messages[0].content).toBe('Page 1 (omitted)');
+        expect(messages[2].content).toEqual([
+            { type: 'text', text: 'Page 2' },
+            { type: 'image_url', image_url: { url: image.dataUrl, detail: 'low' } }
+        ]);
+        // Counted once, for the latest turn
+        expect(memory.countTokens([])).toBe(85);
+    });
+});
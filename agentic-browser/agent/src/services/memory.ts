@@ -0,0 +1,200 @@
+import OpenAI from 'openai';
+import { get_encoding, Tiktoken } from '@dqbd/tiktoken';
+import { LLMResponse } from './llm';
+import { ToolValidationIssue } from './tools';
+import { StepImage } from './vision';
+
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+/**
+ * Outcome of a single tool call, fed back to the model as a `tool` message.
+ */
+export interface ToolResult {
+    status: 'success' | 'error';
+    /** Human-readable description of what happened */
+    message: string;
+    /** Whether the page URL changed while the tool ran */
+    navigated: boolean;
+    /** Page URL after the tool ran */
+    url?: string;
+    /** New alert / status / toast messages that appeared on the page after the action */
+    pageMessages?: string[];
+    /** Argument problems when the call was rejected before running */
+    validationErrors?: ToolValidationIssue[];
+}
+
+/**
+ * One loop iteration: the context we sent, the model's reply and the tool results.
+ */
+interface Turn {
+    /** Full step context (plan + page observation), only sent while this is the latest turn */
+    context: string;
+    /** Short stand-in for the context once newer turns exist */
+    contextSummary: string;
+    /** Screenshot sent with the context (vision mode), dropped with it once newer turns exist */
+    image?: StepImage;
+    assistant: OpenAI.Chat.Completions.ChatCompletionAssistantMessageParam | null;
+    toolMessages: OpenAI.Chat.Completions.ChatCompletionToolMessageParam[];
+    /** One line per tool call, used once the turn falls out of the token window */
+    digest: string[];
+}
+
+/** Per-message overhead of the chat format, in tokens */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Multi-turn message history for the agent loop.
+ * Keeps the latest observation in full, older observations as one-liners, and
+ * folds turns that no longer fit the token budget into a running summary.
+ */
+export class ConversationMemory {
+    private turns: Turn[] = [];
+    private summarizedSteps: string[] = [];
+    private encoder: Tiktoken;
+
+    constructor(
+        private tokenBudget: number = parseInt(process.env.AGENT_HISTORY_TOKEN_BUDGET || '16000', 10),
+        private maxSummaryLines: number = 40
+    ) {
+        this.encoder = get_encoding('o200k_base');
+    }
+
+    /** Begin a new turn with the context built for this iteration (and its screenshot in vision mode). */
+    startTurn(context: string, contextSummary: string, image?: StepImage): void {
+        this.turns.push({
+            context,
+            contextSummary,
+            image,
+            assistant: null,
+            toolMessages: [],
+            digest: []
+        });
+    }
+
+    /** Record the model's reply (text and/or tool calls) for the current turn. */
+    recordAssistant(response: LLMResponse): void {
+        const turn = this.currentTurn();
+        if (!turn) return;
+
+        const toolCalls = response.toolCalls || [];
+        turn.assistant = {
+            role: 'assistant',
+            content: response.content || null,
+            ...(toolCalls.length > 0 && {
+                tool_calls: toolCalls.map(call => ({
+                    id: call.id,
+                    type: 'function' as const,
+                    function: {
+                        name: call.name,
+                        arguments: JSON.stringify(call.arguments ?? {})
+                    }
+                }))
+            })
+        };
+
+        if (response.content && toolCalls.length === 0) {
+            turn.digest.push(`said: ${response.content.slice(0, 200)}`);
+        }
+    }
+
+    /** Record the result of one of the current turn's tool calls. */
+    recordToolResult(toolCallId: string, name: string, args: any, result: ToolResult): void {
+        const turn = this.currentTurn();
+        if (!turn) return;
+
+        turn.toolMessages.push({
+            role: 'tool',
+            tool_call_id: toolCallId,
+            content: JSON.stringify(result)
+        });
+
+        const navigation = result.navigated ? ` (navigated to ${result.url})` : '';
+        turn.digest.push(`${name}(${JSON.stringify(args ?? {})}) → ${result.status}: ${result.message}${navigation}`);
+    }
+
+    /** Build the message list for the next LLM call, trimmed to the token budget. */
+    getMessages(): ChatMessage[] {
+        let messages = this.buildMessages();
+
+        // Fold the oldest turns into the summary until we fit (always keep the latest turn)
+        while (this.turns.length > 1 && this.countTokens(messages) > this.tokenBudget) {
+            const dropped = this.turns.shift()!;
+            this.summarizedSteps.push(...dropped.digest);
+            messages = this.buildMessages();
+        }
+
+        return messages;
+    }
+
+    clear(): void {
+        this.turns = [];
+        this.summarizedSteps = [];
+    }
+
+    private currentTurn(): Turn | undefined {
+        return this.turns[this.turns.length - 1];
+    }
+
+    private buildMessages(): ChatMessage[] {
+        const messages: ChatMessage[] = [];
+
+        if (this.summarizedSteps.length > 0) {
+            const omitted = this.summarizedSteps.length - this.maxSummaryLines;
+            const lines = this.summarizedSteps.slice(-this.maxSummaryLines);
+            let summary = `Summary of earlier steps:\n`;
+            if (omitted > 0) summary += `  (${omitted} older steps omitted)\n`;
+            summary += lines.map(line => `  - ${line}`).join('\n');
+            messages.push({ role: 'user', content: summary });
+        }
+
+        this.turns.forEach((turn, index) => {
+            const isLatest = index === this.turns.length - 1;
+            if (isLatest && turn.image) {
+                messages.push({
+                    role: 'user',
+                    content: [
+                        { type: 'text', text: turn.context },
+                        { type: 'image_url', image_url: { url: turn.image.dataUrl, detail: turn.image.detail } }
+                    ]
+                });
+            } else {
+                messages.push({ role: 'user', content: isLatest ? turn.context : turn.contextSummary });
+            }
+
+            if (!turn.assistant) return;
+            messages.push(turn.assistant);
+
+            // Every tool call needs a matching tool message, even if the loop stopped before running it
+            for (const call of turn.assistant.tool_calls || []) {
+                const toolMessage = turn.toolMessages.find(msg => msg.tool_call_id === call.id);
+                messages.push(toolMessage || {
+                    role: 'tool',
+                    tool_call_id: call.id,
+                    content: JSON.stringify({ status: 'error', message: 'Not executed', navigated: false })
+                });
+            }
+        });
+
+        return messages;
+    }
+
+    /** Estimate the prompt tokens of a message list (used when the provider does not report usage) */
+    countTokens(messages: ChatMessage[]): number {
+        let total = 0;
+        for (const message of messages) {
+            total += MESSAGE_OVERHEAD_TOKENS;
+            if (typeof message.content === 'string') {
+                total += this.encoder.encode(message.content).length;
+            } else if (Array.isArray(message.content)) {
+                for (const part of message.content) {
+                    if (part.type === 'text') total += this.encoder.encode(part.text).length;
+                }
+            }
+            if (message.role === 'assistant' && message.tool_calls) {
+                total += this.encoder.encode(JSON.stringify(message.tool_calls)).length;
+            }
+        }
+        // Only the latest turn carries its screenshot
+        return total + (this.currentTurn()?.image?.tokens ?? 0);
+    }
+}
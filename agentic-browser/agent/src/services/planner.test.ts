@@ -0,0 +1,158 @@
+import { Planner, Subgoal } from './planner';
+
+const statuses = (subgoals: Subgoal[]): Record<string, string> => {
+    const result: Record<string, string> = {};
+    const walk = (list: Subgoal[]) => list.forEach(subgoal => {
+        result[subgoal.id] = subgoal.status;
+        walk(subgoal.children);
+    });
+    walk(subgoals);
+    return result;
+};
+
+describe('Planner', () => {
+    let planner: Planner;
+
+    beforeEach(() => {
+        planner = new Planner();
+        planner.addGoal('Buy a book');
+    });
+
+    describe('addSubgoals', () => {
+        it('adds root subgoals and starts on the first one', () => {
+            const { added, error } = planner.addSubgoals(['Search', 'Add to cart'], 'https://shop.test/');
+
+            expect(error).toBeNull();
+            expect(added.map(subgoal => subgoal.id)).toEqual(['S1', 'S2']);
+            expect(statuses(planner.getSubgoals())).toEqual({ S1: 'current', S2: 'pending' });
+            expect(planner.getCurrentSubgoal()?.startUrl).toBe('https://shop.test/');
+        });
+
+        it('nests new subgoals under the current one and descends into them', () => {
+            planner.addSubgoals(['Search', 'Add to cart']);
+            planner.addSubgoals(['Open search', 'Type the title']);
+
+            const [search] = planner.getSubgoals();
+            expect(search.children.map(child => child.id)).toEqual(['S3', 'S4']);
+            expect(search.children.every(child => child.parentId === 'S1')).toBe(true);
+            expect(planner.getCurrentSubgoal()?.id).toBe('S3');
+        });
+
+        it('inserts siblings after a given subgoal without moving the cursor', () => {
+            planner.addSubgoals(['Search', 'Pay']);
+            planner.addSubgoals(['Add to cart'], undefined, { afterId: 'S1' });
+
+            expect(planner.getSubgoalDescriptions()).toEqual(['Search', 'Add to cart', 'Pay']);
+            expect(planner.getCurrentSubgoal()?.id).toBe('S1');
+        });
+
+        it('refuses unknown and finished parents', () => {
+            planner.addSubgoals(['Search']);
+            planner.completeCurrentSubgoal();
+
+            expect(planner.addSubgoals(['x'], undefined, { parentId: 'S9' }).error).toBe('Unknown subgoal S9');
+            expect(planner.addSubgoals(['x'], undefined, { parentId: 'S1' }).error).toBe('Subgoal S1 is already completed');
+            expect(planner.addSubgoals(['  ']).error).toBe('No valid subgoal descriptions');
+        });
+    });
+
+    describe('completeCurrentSubgoal', () => {
+        it('advances to the next sibling and completes parents whose children are done', () => {
+            planner.addSubgoals(['Search', 'Add to cart']);
+            planner.addSubgoals(['Open search', 'Type the title']);
+
+            expect(planner.completeCurrentSubgoal().next).toBe('Type the title');
+            const result = planner.completeCurrentSubgoal();
+
+            expect(result.next).toBe('Add to cart');
+            expect(statuses(planner.getSubgoals())).toEqual({ S1: 'completed', S3: 'completed', S4: 'completed', S2: 'current' });
+        });
+
+        it('reports when the last subgoal is finished', () => {
+            planner.addSubgoals(['Search']);
+
+            expect(planner.completeCurrentSubgoal()).toEqual({ completed: 'Search', next: null, allCompleted: true, error: null });
+            expect(planner.getCurrentSubgoal()).toBeNull();
+        });
+
+        it('reopens the parent when a child fails', () => {
+            planner.addSubgoals(['Log in']);
+            planner.addSubgoals(['Use saved password']);
+
+            const result = planner.completeCurrentSubgoal(undefined, 'failed');
+
+            expect(result.next).toBe('Log in');
+            expect(statuses(planner.getSubgoals())).toEqual({ S1: 'current', S2: 'failed' });
+        });
+
+        it('skips a pending subgoal and its children without moving the cursor', () => {
+            planner.addSubgoals(['Search', 'Compare prices', 'Add to cart']);
+            planner.addSubgoals(['Open reviews'], undefined, { parentId: 'S2' });
+
+            const result = planner.completeCurrentSubgoal(undefined, 'skipped', 'S2');
+
+            expect(result.next).toBe('Search');
+            expect(statuses(planner.getSubgoals())).toEqual({ S1: 'current', S2: 'skipped', S4: 'skipped', S3: 'pending' });
+            planner.completeCurrentSubgoal();
+            expect(planner.getCurrentSubgoal()?.id).toBe('S3');
+        });
+
+        it('refuses subgoals that are unknown or already finished', () => {
+            expect(planner.completeCurrentSubgoal().error).toBe('No subgoals in the current plan');
+
+            planner.addSubgoals(['Search', 'Pay']);
+            planner.completeCurrentSubgoal();
+
+            expect(planner.completeCurrentSubgoal(undefined, 'completed', 'S7').error).toBe('Unknown subgoal S7');
+            expect(planner.completeCurrentSubgoal(undefined, 'completed', 'S1').error).toBe('Subgoal S1 is already completed');
+        });
+    });
+
+    describe('pruneCurrentSubgoal', () => {
+        it('removes the branch, records its actions and returns where it started', () => {
+            planner.addSubgoals(['Search', 'Pay'], 'https://shop.test/');
+            planner.addAction('goto(https://shop.test/search)');
+            planner.addSubgoals(['Use the search box'], 'https://shop.test/search');
+            planner.addAction('click(4)');
+            planner.addAction('type(5, "Dune")');
+
+            const result = planner.pruneCurrentSubgoal('search box is broken', 'https://shop.test/results');
+
+            expect(result).toEqual({ pruned: 'Use the search box', restoreUrl: 'https://shop.test/search', next: 'Search', error: null });
+            expect(planner.getSubgoals()[0].children).toEqual([]);
+            expect(planner.getPrunedBranches()).toEqual([
+                expect.objectContaining({ id: 'S3', reason: 'search box is broken', actions: ['click(4)', 'type(5, "Dune")'] })
+            ]);
+            expect(planner.getCurrentSubgoal()?.id).toBe('S1');
+        });
+
+        it('moves on to the next pending sibling', () => {
+            planner.addSubgoals(['Try the API', 'Scrape the page']);
+
+            expect(planner.pruneCurrentSubgoal('no API key').next).toBe('Scrape the page');
+            expect(planner.getSubgoalDescriptions()).toEqual(['Scrape the page']);
+        });
+
+        it('only prunes subgoals in progress', () => {
+            planner.addSubgoals(['Search', 'Pay']);
+
+            expect(planner.pruneCurrentSubgoal('dead end', undefined, 'S2').error).toBe('Subgoal S2 is not in progress');
+            expect(planner.getSubgoalDescriptions()).toEqual(['Search', 'Pay']);
+        });
+    });
+
+    describe('extraction', () => {
+        it('collects records for the current goal with its schema', () => {
+            const schema = { type: 'object' as const, properties: { title: { type: 'string' as const } } };
+            planner.addGoal('List books', schema);
+
+            expect(planner.addExtracted([{ title: 'Dune' }])).toBe(1);
+            expect(planner.addExtracted([{ title: 'Emma' }])).toBe(2);
+            expect(planner.getExtraction()).toEqual({ schema, records: [{ title: 'Dune' }, { title: 'Emma' }] });
+        });
+
+        it('has nothing to deliver for goals that extracted nothing', () => {
+            expect(planner.getExtraction()).toBeNull();
+        });
+    });
+});
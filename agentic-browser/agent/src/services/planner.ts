@@ -1,25 +1,69 @@
+import { ExtractionResult, JsonSchema } from './extraction';
+
+export type SubgoalStatus = 'pending' | 'current' | 'completed' | 'failed' | 'skipped';
+
+/** Statuses a subgoal can be finished with */
+export type SubgoalOutcome = 'completed' | 'failed' | 'skipped';
+
 export interface Subgoal {
+    /** Stable identifier (e.g. "S3") that survives insertions and removals */
+    id: string;
     description: string;
-    status: 'pending' | 'current' | 'completed';
+    status: SubgoalStatus;
+    parentId: string | null;
+    children: Subgoal[];
+    /** URL the browser was on when this subgoal became current */
+    startUrl?: string;
+    /** Index into the plan's actions where work on this subgoal began */
+    actionStartIndex?: number;
+}
+
+export interface PrunedBranch {
+    id: string;
+    description: string;
+    reason: string;
+    startUrl?: string;
+    /** Actions that were taken while working on the abandoned subgoal */
+    actions: string[];
+    prunedAt: number;
 }
 
 export interface PlanContext {
     goal: string;
+    /** Root level of the subgoal tree */
     subGoals: Subgoal[];
+    nextSubgoalId: number;
     actions: string[];
     notes: string[];
+    prunedBranches: PrunedBranch[];
+    /** Schema the instruction asked extracted records to follow, if any */
+    extractionSchema: JsonSchema | null;
+    /** Records saved with the extract tool, across all pages visited */
+    extracted: unknown[];
 }
 
+const isFinished = (subgoal: Subgoal): boolean =>
+    subgoal.status === 'completed' || subgoal.status === 'failed' || subgoal.status === 'skipped';
+
+const cloneSubgoal = (subgoal: Subgoal): Subgoal => ({
+    ...subgoal,
+    children: subgoal.children.map(cloneSubgoal)
+});
+
 export class Planner {
     private planStack: PlanContext[] = [];
 
-    // Add a new goal to the plan stack
-    addGoal(goal: string): void {
+    // Add a new goal to the plan stack, optionally with a schema for the data it should extract
+    addGoal(goal: string, extractionSchema: JsonSchema | null = null): void {
         this.planStack.push({
             goal,
             subGoals: [],
+            nextSubgoalId: 1,
             actions: [],
-            notes: []
+            notes: [],
+            prunedBranches: [],
+            extractionSchema,
+            extracted: []
         });
     }
 
@@ -43,58 +87,195 @@ export class Planner {
         return this.planStack.length > 0;
     }
 
-    // Add subgoals to the current plan (can only be called once)
-    addSubgoals(subgoalDescriptions: string[]): boolean {
+    // Insert subgoals into the current plan's tree.
+    // With parentId they become children of that subgoal, with afterId they are inserted
+    // as siblings right after that subgoal. Otherwise they decompose the current subgoal,
+    // or are appended at the root when nothing is in progress.
+    addSubgoals(
+        subgoalDescriptions: string[],
+        currentUrl?: string,
+        options: { parentId?: string; afterId?: string } = {}
+    ): { added: Subgoal[]; error: string | null } {
         const currentPlan = this.getCurrentPlan();
-        if (!currentPlan) return false;
+        if (!currentPlan) return { added: [], error: 'No active plan' };
 
         const validDescriptions = subgoalDescriptions.filter(desc => desc && desc.trim());
-        if (validDescriptions.length === 0) return false;
+        if (validDescriptions.length === 0) return { added: [], error: 'No valid subgoal descriptions' };
+
+        let siblings: Subgoal[];
+        let insertAt: number;
+        let parent: Subgoal | null;
+
+        if (options.afterId) {
+            const anchor = this.findSubgoal(currentPlan, options.afterId);
+            if (!anchor) return { added: [], error: `Unknown subgoal ${options.afterId}` };
+            parent = anchor.parentId ? this.findSubgoal(currentPlan, anchor.parentId) : null;
+            siblings = parent ? parent.children : currentPlan.subGoals;
+            insertAt = siblings.indexOf(anchor) + 1;
+        } else {
+            parent = options.parentId
+                ? this.findSubgoal(currentPlan, options.parentId)
+                : this.getActiveSubgoal(currentPlan);
+            if (options.parentId && !parent) return { added: [], error: `Unknown subgoal ${options.parentId}` };
+            siblings = parent ? parent.children : currentPlan.subGoals;
+            insertAt = siblings.length;
+        }
 
-        // Create subgoals - first one becomes current
-        currentPlan.subGoals = validDescriptions.map((description, index) => ({
+        if (parent && isFinished(parent)) {
+            return { added: [], error: `Subgoal ${parent.id} is already ${parent.status}` };
+        }
+
+        const added: Subgoal[] = validDescriptions.map(description => ({
+            id: `S${currentPlan.nextSubgoalId++}`,
             description: description.trim(),
-            status: index === 0 ? 'current' : 'pending'
+            status: 'pending',
+            parentId: parent ? parent.id : null,
+            children: []
         }));
-        
-        return true;
+        siblings.splice(insertAt, 0, ...added);
+
+        // Start on the new subgoals if they decompose the subgoal in progress, or nothing is in progress
+        const active = this.getActiveSubgoal(currentPlan);
+        const startFrom = !active ? currentPlan.subGoals : (parent && parent.id === active.id ? active.children : []);
+        const firstPending = startFrom.find(sg => sg.status === 'pending');
+        if (firstPending) {
+            this.activate(currentPlan, firstPending, currentUrl);
+        }
+
+        return { added, error: null };
+    }
+
+    // Record where work on a subgoal began so it can be backtracked later
+    private markSubgoalStarted(plan: PlanContext, subgoal: Subgoal, currentUrl?: string): void {
+        subgoal.startUrl = currentUrl;
+        subgoal.actionStartIndex = plan.actions.length;
     }
 
+    // Make a subgoal current and descend into its first pending child. Returns the new active subgoal.
+    private activate(plan: PlanContext, subgoal: Subgoal, currentUrl?: string): Subgoal {
+        subgoal.status = 'current';
+        this.markSubgoalStarted(plan, subgoal, currentUrl);
 
-    // Complete the current subgoal and move to the next one
-    completeCurrentSubgoal(): { completed: string | null; next: string | null; allCompleted: boolean } {
+        const firstPendingChild = subgoal.children.find(sg => sg.status === 'pending');
+        return firstPendingChild ? this.activate(plan, firstPendingChild, currentUrl) : subgoal;
+    }
+
+    // Move on after the subgoal under parentId has finished or been removed.
+    // Parents whose children are all done are completed, unless a child failed or was pruned
+    // (reopenParent), in which case the parent becomes active again so another approach can be tried.
+    private advance(plan: PlanContext, parentId: string | null, reopenParent: boolean, currentUrl?: string): Subgoal | null {
+        let parent = parentId ? this.findSubgoal(plan, parentId) : null;
+
+        while (true) {
+            const siblings = parent ? parent.children : plan.subGoals;
+            const nextSibling = siblings.find(sg => sg.status === 'pending');
+            if (nextSibling) {
+                return this.activate(plan, nextSibling, currentUrl);
+            }
+            if (!parent) {
+                return null;
+            }
+            if (reopenParent || parent.children.some(sg => sg.status === 'failed')) {
+                return parent;
+            }
+
+            parent.status = 'completed';
+            parent = parent.parentId ? this.findSubgoal(plan, parent.parentId) : null;
+        }
+    }
+
+    // Finish the current subgoal (or the given one) and move to the next one
+    completeCurrentSubgoal(
+        currentUrl?: string,
+        outcome: SubgoalOutcome = 'completed',
+        subgoalId?: string
+    ): { completed: string | null; next: string | null; allCompleted: boolean; error: string | null } {
         const currentPlan = this.getCurrentPlan();
         if (!currentPlan || currentPlan.subGoals.length === 0) {
-            return { completed: null, next: null, allCompleted: false };
+            return { completed: null, next: null, allCompleted: false, error: 'No subgoals in the current plan' };
         }
 
-        // Find current subgoal and mark it as completed
-        const currentSubgoal = currentPlan.subGoals.find(sg => sg.status === 'current');
-        if (!currentSubgoal) {
-            return { completed: null, next: null, allCompleted: false };
+        const target = subgoalId ? this.findSubgoal(currentPlan, subgoalId) : this.getActiveSubgoal(currentPlan);
+        if (!target) {
+            return { completed: null, next: null, allCompleted: false, error: subgoalId ? `Unknown subgoal ${subgoalId}` : 'No current subgoal' };
         }
+        if (isFinished(target)) {
+            return { completed: null, next: null, allCompleted: false, error: `Subgoal ${target.id} is already ${target.status}` };
+        }
+
+        const wasInProgress = target.status === 'current';
+        target.status = outcome;
+        // Anything left underneath a finished subgoal will not be worked on
+        this.walk(target.children, sg => {
+            if (!isFinished(sg)) sg.status = 'skipped';
+        });
 
-        currentSubgoal.status = 'completed';
-
-        // Find next pending subgoal and make it current
-        const nextSubgoal = currentPlan.subGoals.find(sg => sg.status === 'pending');
-        if (nextSubgoal) {
-            nextSubgoal.status = 'current';
-            return { 
-                completed: currentSubgoal.description, 
-                next: nextSubgoal.description, 
-                allCompleted: false 
-            };
+        // Finishing a pending subgoal (e.g. skipping ahead) does not move the cursor
+        if (!wasInProgress) {
+            const active = this.getActiveSubgoal(currentPlan);
+            return { completed: target.description, next: active ? active.description : null, allCompleted: false, error: null };
         }
 
-        // All subgoals are completed
-        return { 
-            completed: currentSubgoal.description, 
-            next: null, 
-            allCompleted: true 
+        const next = this.advance(currentPlan, target.parentId, outcome === 'failed', currentUrl);
+        return {
+            completed: target.description,
+            next: next ? next.description : null,
+            allCompleted: !next,
+            error: null
         };
     }
 
+    // Abandon the current subgoal (or one of its ancestors) together with its children.
+    // Returns the URL the abandoned branch started on so the caller can restore it.
+    pruneCurrentSubgoal(
+        reason: string,
+        currentUrl?: string,
+        subgoalId?: string
+    ): { pruned: string | null; restoreUrl: string | null; next: string | null; error: string | null } {
+        const currentPlan = this.getCurrentPlan();
+        if (!currentPlan) {
+            return { pruned: null, restoreUrl: null, next: null, error: 'No active plan' };
+        }
+
+        const target = subgoalId ? this.findSubgoal(currentPlan, subgoalId) : this.getActiveSubgoal(currentPlan);
+        if (!target) {
+            return { pruned: null, restoreUrl: null, next: null, error: subgoalId ? `Unknown subgoal ${subgoalId}` : 'No current subgoal' };
+        }
+        if (target.status !== 'current') {
+            return { pruned: null, restoreUrl: null, next: null, error: `Subgoal ${target.id} is not in progress` };
+        }
+
+        const parent = target.parentId ? this.findSubgoal(currentPlan, target.parentId) : null;
+        const siblings = parent ? parent.children : currentPlan.subGoals;
+        siblings.splice(siblings.indexOf(target), 1);
+
+        currentPlan.prunedBranches.push({
+            id: target.id,
+            description: target.description,
+            reason,
+            startUrl: target.startUrl,
+            actions: currentPlan.actions.slice(target.actionStartIndex ?? currentPlan.actions.length),
+            prunedAt: Date.now()
+        });
+
+        // The browser is restored to the pruned branch's start, so whatever comes next starts there too
+        const restoreUrl = target.startUrl ?? null;
+        const next = this.advance(currentPlan, target.parentId, true, restoreUrl ?? currentUrl);
+
+        return {
+            pruned: target.description,
+            restoreUrl,
+            next: next ? next.description : null,
+            error: null
+        };
+    }
+
+    // Get branches pruned from the current plan
+    getPrunedBranches(): PrunedBranch[] {
+        const currentPlan = this.getCurrentPlan();
+        return currentPlan ? [...currentPlan.prunedBranches] : [];
+    }
+
     // Add an action to the current plan
     addAction(action: string): boolean {
         const currentPlan = this.getCurrentPlan();
@@ -129,6 +310,27 @@ export class Planner {
         return [...currentPlan.notes];
     }
 
+    // Append extracted records to the current plan; returns the new total
+    addExtracted(records: unknown[]): number {
+        const currentPlan = this.getCurrentPlan();
+        if (!currentPlan) return 0;
+
+        currentPlan.extracted.push(...records);
+        return currentPlan.extracted.length;
+    }
+
+    getExtractionSchema(): JsonSchema | null {
+        return this.getCurrentPlan()?.extractionSchema ?? null;
+    }
+
+    // Data extracted for the current goal, or null if it neither asked for nor produced any
+    getExtraction(): ExtractionResult | null {
+        const currentPlan = this.getCurrentPlan();
+        if (!currentPlan || (!currentPlan.extractionSchema && currentPlan.extracted.length === 0)) return null;
+
+        return { schema: currentPlan.extractionSchema, records: [...currentPlan.extracted] };
+    }
+
     // Get summary of all plans for final output
     getSummary(): Array<{ goal: string; actions: string[] }> {
         return this.planStack.map(plan => ({
@@ -138,12 +340,13 @@ export class Planner {
     }
 
     // Get detailed summary including subgoal statuses
-    getDetailedSummary(): Array<{ goal: string; subgoals: Subgoal[]; actions: string[]; notes: string[] }> {
+    getDetailedSummary(): Array<{ goal: string; subgoals: Subgoal[]; actions: string[]; notes: string[]; prunedBranches: PrunedBranch[] }> {
         return this.planStack.map(plan => ({
             goal: plan.goal,
-            subgoals: [...plan.subGoals],
+            subgoals: plan.subGoals.map(cloneSubgoal),
             actions: [...plan.actions],
-            notes: [...plan.notes]
+            notes: [...plan.notes],
+            prunedBranches: [...plan.prunedBranches]
         }));
     }
 
@@ -152,16 +355,25 @@ export class Planner {
         this.planStack = [];
     }
 
-    // Get all subgoals for the current plan
+    // Get the subgoal tree (root level) for the current plan
     getSubgoals(): Subgoal[] {
         const currentPlan = this.getCurrentPlan();
-        return currentPlan ? [...currentPlan.subGoals] : [];
+        return currentPlan ? currentPlan.subGoals.map(cloneSubgoal) : [];
+    }
+
+    // Get every subgoal of the current plan in depth-first order
+    getAllSubgoals(): Subgoal[] {
+        const currentPlan = this.getCurrentPlan();
+        if (!currentPlan) return [];
+
+        const all: Subgoal[] = [];
+        this.walk(currentPlan.subGoals, sg => all.push(sg));
+        return all;
     }
 
     // Get subgoal descriptions only (for backwards compatibility)
     getSubgoalDescriptions(): string[] {
-        const currentPlan = this.getCurrentPlan();
-        return currentPlan ? currentPlan.subGoals.map(sg => sg.description) : [];
+        return this.getAllSubgoals().map(sg => sg.description);
     }
 
     // Check if current plan has subgoals
@@ -170,12 +382,12 @@ export class Planner {
         return currentPlan ? currentPlan.subGoals.length > 0 : false;
     }
 
-    // Get current active subgoal
+    // Get current active subgoal (the deepest subgoal in progress)
     getCurrentSubgoal(): Subgoal | null {
         const currentPlan = this.getCurrentPlan();
         if (!currentPlan) return null;
-        
-        return currentPlan.subGoals.find(sg => sg.status === 'current') || null;
+
+        return this.getActiveSubgoal(currentPlan);
     }
 
     // Get current subgoal description
@@ -185,10 +397,34 @@ export class Planner {
     }
 
     // Get subgoals by status
-    getSubgoalsByStatus(status: 'pending' | 'current' | 'completed'): Subgoal[] {
-        const currentPlan = this.getCurrentPlan();
-        if (!currentPlan) return [];
-        
-        return currentPlan.subGoals.filter(sg => sg.status === status);
+    getSubgoalsByStatus(status: SubgoalStatus): Subgoal[] {
+        return this.getAllSubgoals().filter(sg => sg.status === status);
     }
-}
\ No newline at end of file
+
+    private getActiveSubgoal(plan: PlanContext): Subgoal | null {
+        let level = plan.subGoals;
+        let active: Subgoal | null = null;
+
+        while (true) {
+            const current = level.find(sg => sg.status === 'current');
+            if (!current) return active;
+            active = current;
+            level = current.children;
+        }
+    }
+
+    private findSubgoal(plan: PlanContext, id: string): Subgoal | null {
+        let found: Subgoal | null = null;
+        this.walk(plan.subGoals, sg => {
+            if (sg.id === id) found = sg;
+        });
+        return found;
+    }
+
+    private walk(subgoals: Subgoal[], visit: (subgoal: Subgoal) => void): void {
+        for (const subgoal of subgoals) {
+            visit(subgoal);
+            this.walk(subgoal.children, visit);
+        }
+    }
+}
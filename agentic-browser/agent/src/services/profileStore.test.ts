@@ -0,0 +1,86 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ProfileStore, StorageState } from './profileStore';
+
+const state: StorageState = {
+    cookies: [{ name: 'sid', value: 'abc', domain: 'shop.test', path: '/', expires: -1, httpOnly: true, secure: true, sameSite: 'Lax' }],
+    origins: [{ origin: 'https://shop.test', localStorage: [{ name: 'cart', value: '3' }] }]
+};
+
+describe('ProfileStore', () => {
+    let dir: string;
+    let store: ProfileStore;
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'profiles-'));
+        store = new ProfileStore(dir, 'test secret');
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    // Every profile file under the store directory, relative to it
+    const files = async (): Promise<string[]> => {
+        const found: string[] = [];
+        for (const ownerDir of await fs.readdir(dir)) {
+            for (const file of await fs.readdir(path.join(dir, ownerDir))) found.push(path.join(ownerDir, file));
+        }
+        return found;
+    };
+
+    it('saves, lists, loads and deletes profiles', async () => {
+        await store.save('auth0|ann', 'shop', state);
+
+        expect((await store.list('auth0|ann')).map(profile => profile.name)).toEqual(['shop']);
+        expect(await store.load('auth0|ann', 'shop')).toEqual(state);
+        expect(await store.delete('auth0|ann', 'shop')).toBe(true);
+        expect(await store.delete('auth0|ann', 'shop')).toBe(false);
+        expect(await store.load('auth0|ann', 'shop')).toBeNull();
+    });
+
+    it('encrypts profiles on disk', async () => {
+        await store.save('auth0|ann', 'shop', state);
+
+        const [file] = await files();
+        const raw = await fs.readFile(path.join(dir, file), 'utf8');
+
+        expect(file).not.toContain('auth0');
+        expect(raw).not.toContain('sid');
+        expect(JSON.parse(raw)).toMatchObject({ version: 2 });
+    });
+
+    it('keeps each user to their own profiles', async () => {
+        await store.save('auth0|ann', 'shop', state);
+
+        expect(await store.list('auth0|bob')).toEqual([]);
+        expect(await store.load('auth0|bob', 'shop')).toBeNull();
+        expect(await store.delete('auth0|bob', 'shop')).toBe(false);
+    });
+
+    it('does not decrypt a profile copied to another user', async () => {
+        await store.save('auth0|ann', 'shop', state);
+        const [annFile] = await files();
+        await store.save('auth0|bob', 'other', state);
+        const bobFile = (await files()).find(file => file !== annFile)!;
+
+        await fs.copyFile(path.join(dir, annFile), path.join(dir, path.dirname(bobFile), 'shop.profile'));
+
+        await expect(store.load('auth0|bob', 'shop')).rejects.toThrow('Profile "shop" could not be decrypted');
+    });
+
+    it('does not decrypt with another secret', async () => {
+        await store.save('auth0|ann', 'shop', state);
+
+        await expect(new ProfileStore(dir, 'other secret').load('auth0|ann', 'shop')).rejects.toThrow('could not be decrypted');
+    });
+
+    it('rejects unsafe names, anonymous owners and a missing secret', async () => {
+        await expect(store.save('auth0|ann', '../shop', state)).rejects.toThrow('Profile names may only contain letters, digits');
+        await expect(store.list('')).rejects.toThrow('Browser profiles belong to a signed-in user');
+        await expect(new ProfileStore(dir, undefined).list('auth0|ann')).rejects.toThrow('Browser profiles are disabled');
+    });
+});
@@ -0,0 +1,143 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { BrowserContextOptions } from 'playwright';
+
+/** Cookies and localStorage of a browser context, as produced by `context.storageState()` */
+export type StorageState = Exclude<BrowserContextOptions['storageState'], string | undefined>;
+
+export interface ProfileInfo {
+    name: string;
+    updatedAt: string;
+}
+
+// On-disk envelope: AES-256-GCM over the JSON storage state, bound to its owner
+interface EncryptedProfile {
+    version: 2;
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const PROFILE_EXTENSION = '.profile';
+const KEY_SALT = 'agentic-browser-profiles';
+
+/**
+ * Named browser profiles (cookies and localStorage) kept encrypted on disk, so sessions can
+ * start already logged in. Every user has their own set of profiles, identified by the
+ * `owner` ID of a verified user. Only available when an encryption secret is configured.
+ */
+export class ProfileStore {
+    private dir: string;
+    private key: Buffer | null;
+
+    constructor(dir: string = process.env.AGENT_PROFILE_DIR || 'profiles', secret: string | undefined = process.env.AGENT_PROFILE_KEY) {
+        this.dir = path.resolve(dir);
+        this.key = secret ? crypto.scryptSync(secret, KEY_SALT, 32) : null;
+        if (!this.key) {
+            console.warn('[PROFILES] AGENT_PROFILE_KEY is not set, browser profiles are disabled');
+        }
+    }
+
+    isEnabled(): boolean {
+        return this.key !== null;
+    }
+
+    async list(owner: string): Promise<ProfileInfo[]> {
+        this.requireKey();
+        const dir = this.ownerDir(owner);
+        const files = await fs.readdir(dir).catch(() => [] as string[]);
+        const profiles: ProfileInfo[] = [];
+
+        for (const file of files) {
+            if (!file.endsWith(PROFILE_EXTENSION)) continue;
+            const stat = await fs.stat(path.join(dir, file)).catch(() => null);
+            if (!stat) continue;
+            profiles.push({ name: file.slice(0, -PROFILE_EXTENSION.length), updatedAt: stat.mtime.toISOString() });
+        }
+
+        return profiles.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    // The saved state, or null for a profile that has never been saved
+    async load(owner: string, name: string): Promise<StorageState | null> {
+        const key = this.requireKey();
+        let raw: string;
+        try {
+            raw = await fs.readFile(this.filePath(owner, name), 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw error;
+        }
+
+        try {
+            const envelope: EncryptedProfile = JSON.parse(raw);
+            const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(envelope.iv, 'base64'));
+            decipher.setAAD(Buffer.from(owner, 'utf8'));
+            decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+            const json = Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]).toString('utf8');
+            return JSON.parse(json);
+        } catch {
+            throw new Error(`Profile "${name}" could not be decrypted (corrupt file or a different AGENT_PROFILE_KEY)`);
+        }
+    }
+
+    async save(owner: string, name: string, state: StorageState): Promise<void> {
+        const key = this.requireKey();
+        const file = this.filePath(owner, name);
+
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+        // A file copied into another user's directory does not decrypt there
+        cipher.setAAD(Buffer.from(owner, 'utf8'));
+        const data = Buffer.concat([cipher.update(JSON.stringify(state), 'utf8'), cipher.final()]);
+        const envelope: EncryptedProfile = {
+            version: 2,
+            iv: iv.toString('base64'),
+            tag: cipher.getAuthTag().toString('base64'),
+            data: data.toString('base64')
+        };
+
+        // Write then rename, so a crash never leaves a half-written profile
+        await fs.mkdir(path.dirname(file), { recursive: true, mode: 0o700 });
+        const temp = `${file}.${process.pid}.tmp`;
+        await fs.writeFile(temp, JSON.stringify(envelope), { mode: 0o600 });
+        await fs.rename(temp, file);
+    }
+
+    // Returns false if there was no such profile
+    async delete(owner: string, name: string): Promise<boolean> {
+        this.requireKey();
+        try {
+            await fs.unlink(this.filePath(owner, name));
+            return true;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+            throw error;
+        }
+    }
+
+    private requireKey(): Buffer {
+        if (!this.key) {
+            throw new Error('Browser profiles are disabled: set AGENT_PROFILE_KEY on the agent server');
+        }
+        return this.key;
+    }
+
+    // One directory per user; user IDs (e.g. "google-oauth2|123") are hashed into a safe name
+    private ownerDir(owner: string): string {
+        if (typeof owner !== 'string' || !owner) {
+            throw new Error('Browser profiles belong to a signed-in user');
+        }
+        return path.join(this.dir, crypto.createHash('sha256').update(owner).digest('hex').slice(0, 32));
+    }
+
+    // Names double as file names, so they are restricted to a safe character set
+    private filePath(owner: string, name: string): string {
+        if (typeof name !== 'string' || !PROFILE_NAME_PATTERN.test(name)) {
+            throw new Error('Profile names may only contain letters, digits, "-" and "_" (up to 64 characters)');
+        }
+        return path.join(this.ownerDir(owner), name + PROFILE_EXTENSION);
+    }
+}
@@ -0,0 +1,140 @@
+import { ChatMessage, LLMConfig, LLMProvider, LLMRequest, LLMResponse } from './types';
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const API_VERSION = '2023-06-01';
+
+type AnthropicContentBlock =
+    | { type: 'text'; text: string }
+    | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } }
+    | { type: 'tool_use'; id: string; name: string; input: any }
+    | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+    role: 'user' | 'assistant';
+    content: AnthropicContentBlock[];
+}
+
+/**
+ * Provider for Anthropic-style Messages APIs with `tool_use` / `tool_result` content blocks.
+ * Talks to the HTTP API directly so no extra SDK is needed.
+ */
+export class AnthropicProvider implements LLMProvider {
+    readonly name = 'anthropic' as const;
+
+    constructor(private config: LLMConfig) {}
+
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+        const response = await fetch(`${this.config.baseURL || DEFAULT_BASE_URL}/v1/messages`, {
+            method: 'POST',
+            headers: {
+                'content-type': 'application/json',
+                'x-api-key': this.config.apiKey || '',
+                'anthropic-version': API_VERSION
+            },
+            body: JSON.stringify({
+                model: this.config.model,
+                system: request.systemPrompt,
+                max_tokens: this.config.maxTokens ?? 4096,
+                temperature: this.config.temperature,
+                messages: this.toAnthropicMessages(request.messages),
+                tools: request.tools.map(tool => ({
+                    name: tool.function.name,
+                    description: tool.function.description,
+                    input_schema: tool.function.parameters || { type: 'object', properties: {} }
+                }))
+            })
+        });
+
+        if (!response.ok) {
+            throw new Error(`Anthropic API error ${response.status}: ${await response.text()}`);
+        }
+
+        const body = await response.json() as {
+            content: AnthropicContentBlock[];
+            usage?: { input_tokens: number; output_tokens: number };
+        };
+        const content = body.content
+            .filter((block): block is { type: 'text'; text: string } => block.type === 'text')
+            .map(block => block.text)
+            .join('\n');
+        const toolCalls = body.content
+            .filter((block): block is { type: 'tool_use'; id: string; name: string; input: any } => block.type === 'tool_use')
+            .map(block => ({ id: block.id, name: block.name, arguments: block.input }));
+
+        return {
+            content,
+            toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+            usage: body.usage && { inputTokens: body.usage.input_tokens, outputTokens: body.usage.output_tokens }
+        };
+    }
+
+    // Convert OpenAI-format history; tool results become user turns and same-role turns are merged
+    private toAnthropicMessages(messages: ChatMessage[]): AnthropicMessage[] {
+        const converted: AnthropicMessage[] = [];
+
+        const append = (role: 'user' | 'assistant', blocks: AnthropicContentBlock[]) => {
+            if (blocks.length === 0) return;
+            const last = converted[converted.length - 1];
+            if (last && last.role === role) {
+                last.content.push(...blocks);
+            } else {
+                converted.push({ role, content: blocks });
+            }
+        };
+
+        for (const message of messages) {
+            if (message.role === 'user') {
+                append('user', this.userBlocks(message.content));
+            } else if (message.role === 'tool') {
+                append('user', [{ type: 'tool_result', tool_use_id: message.tool_call_id, content: this.textOf(message.content) }]);
+            } else if (message.role === 'assistant') {
+                const blocks: AnthropicContentBlock[] = [];
+                const text = this.textOf(message.content);
+                if (text) blocks.push({ type: 'text', text });
+                for (const call of message.tool_calls || []) {
+                    if (call.type !== 'function') continue;
+                    blocks.push({ type: 'tool_use', id: call.id, name: call.function.name, input: this.toolInput(call.function.arguments) });
+                }
+                append('assistant', blocks);
+            }
+        }
+
+        return converted;
+    }
+
+    // Text and image parts of a user message; images must be base64 data: URLs
+    private userBlocks(content: unknown): AnthropicContentBlock[] {
+        if (!Array.isArray(content)) return [{ type: 'text', text: this.textOf(content) }];
+
+        const blocks: AnthropicContentBlock[] = [];
+        for (const part of content) {
+            if (part?.type === 'text') {
+                blocks.push({ type: 'text', text: String(part.text) });
+            } else if (part?.type === 'image_url') {
+                const match = /^data:([^;]+);base64,(.*)$/s.exec(part.image_url?.url || '');
+                if (match) blocks.push({ type: 'image', source: { type: 'base64', media_type: match[1], data: match[2] } });
+            }
+        }
+        return blocks;
+    }
+
+    // Anthropic requires tool_use input to be an object; the model's raw arguments may be malformed JSON
+    private toolInput(args: string | undefined): Record<string, unknown> {
+        try {
+            const input = JSON.parse(args || '{}');
+            return input && typeof input === 'object' && !Array.isArray(input) ? input : {};
+        } catch {
+            return {};
+        }
+    }
+
+    private textOf(content: unknown): string {
+        if (typeof content === 'string') return content;
+        if (Array.isArray(content)) {
+            return content
+                .map(part => (part && typeof part === 'object' && 'text' in part ? String(part.text) : ''))
+                .join('');
+        }
+        return '';
+    }
+}
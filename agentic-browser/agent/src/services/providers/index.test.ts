@@ -0,0 +1,51 @@
+import { checkClientBaseURL, resolveLLMConfig } from '.';
+
+describe('resolveLLMConfig', () => {
+    const env = process.env;
+
+    beforeEach(() => {
+        process.env = { ...env, LLM_PROVIDER: 'openai', LLM_MODEL: '', LLM_BASE_URL: '', LLM_ALLOWED_BASE_URLS: '' };
+    });
+
+    afterAll(() => {
+        process.env = env;
+    });
+
+    it('uses the default model of the provider', () => {
+        expect(resolveLLMConfig({ provider: 'anthropic' })).toMatchObject({ provider: 'anthropic', model: 'claude-sonnet-4-20250514' });
+        expect(() => resolveLLMConfig({ provider: 'gemini' as any })).toThrow('Unknown LLM provider: gemini');
+    });
+
+    it('accepts temperatures in the range of the provider', () => {
+        expect(resolveLLMConfig({ temperature: 1.5 }).temperature).toBe(1.5);
+        expect(resolveLLMConfig({ provider: 'anthropic', temperature: 0 }).temperature).toBe(0);
+        expect(resolveLLMConfig({ temperature: null as any }).temperature).toBeUndefined();
+    });
+
+    it('rejects temperatures the provider would refuse', () => {
+        expect(() => resolveLLMConfig({ provider: 'anthropic', temperature: 1.5 })).toThrow('temperature must be a number between 0 and 1 for anthropic');
+        expect(() => resolveLLMConfig({ temperature: -0.1 })).toThrow('temperature must be a number between 0 and 2 for openai');
+        expect(() => resolveLLMConfig({ temperature: NaN })).toThrow('temperature must be a number');
+        expect(() => resolveLLMConfig({ temperature: '0.5' as any })).toThrow('temperature must be a number');
+    });
+});
+
+describe('checkClientBaseURL', () => {
+    const env = process.env;
+
+    beforeEach(() => {
+        process.env = { ...env, LLM_BASE_URL: 'https://llm.internal/v1', LLM_ALLOWED_BASE_URLS: 'http://localhost:11434/v1/' };
+    });
+
+    afterAll(() => {
+        process.env = env;
+    });
+
+    it('only allows the endpoints configured on the server', () => {
+        expect(checkClientBaseURL(undefined)).toBeUndefined();
+        expect(checkClientBaseURL('https://llm.internal/v1/')).toBe('https://llm.internal/v1/');
+        expect(checkClientBaseURL('http://localhost:11434/v1')).toBe('http://localhost:11434/v1');
+        expect(() => checkClientBaseURL('https://attacker.test/v1')).toThrow('LLM endpoint https://attacker.test/v1 is not allowed on this server');
+        expect(() => checkClientBaseURL(42)).toThrow('baseURL must be a string');
+    });
+});
@@ -0,0 +1,88 @@
+import { AnthropicProvider } from './anthropicProvider';
+import { OpenAIProvider } from './openaiProvider';
+import { ReplayProvider } from './replayProvider';
+import { LLMConfig, LLMProvider, LLMProviderName } from './types';
+
+export * from './types';
+export { OpenAIProvider, AnthropicProvider, ReplayProvider };
+export type { ReplayStep } from './replayProvider';
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openai', 'anthropic', 'replay'];
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+    openai: 'gpt-4o',
+    anthropic: 'claude-sonnet-4-20250514',
+    replay: 'replay'
+};
+
+/** Sampling temperatures each API accepts */
+const TEMPERATURE_RANGES: Record<LLMProviderName, [number, number]> = {
+    openai: [0, 2],
+    anthropic: [0, 1],
+    replay: [0, 2]
+};
+
+/**
+ * Resolve the LLM configuration for a session: per-session overrides on top of
+ * environment defaults (LLM_PROVIDER, LLM_MODEL, LLM_BASE_URL, LLM_API_KEY, ...).
+ */
+export function resolveLLMConfig(overrides: Partial<LLMConfig> = {}): LLMConfig {
+    const provider = overrides.provider || (process.env.LLM_PROVIDER as LLMProviderName) || 'openai';
+    if (!PROVIDER_NAMES.includes(provider)) {
+        throw new Error(`Unknown LLM provider: ${provider}`);
+    }
+
+    // Checked here rather than left to the API, so a bad value from a client fails when it is set
+    const temperature = overrides.temperature ?? undefined;
+    const [minTemperature, maxTemperature] = TEMPERATURE_RANGES[provider];
+    if (temperature !== undefined && !(typeof temperature === 'number' && Number.isFinite(temperature) && temperature >= minTemperature && temperature <= maxTemperature)) {
+        throw new Error(`temperature must be a number between ${minTemperature} and ${maxTemperature} for ${provider}`);
+    }
+
+    const envApiKey = provider === 'anthropic' ? process.env.ANTHROPIC_API_KEY : process.env.OPENAI_API_KEY;
+
+    return {
+        provider,
+        model: overrides.model || process.env.LLM_MODEL || DEFAULT_MODELS[provider],
+        baseURL: overrides.baseURL || process.env.LLM_BASE_URL || undefined,
+        apiKey: overrides.apiKey || process.env.LLM_API_KEY || envApiKey,
+        temperature,
+        maxTokens: overrides.maxTokens,
+        replayFile: overrides.replayFile || process.env.LLM_REPLAY_FILE
+    };
+}
+
+const normalizeBaseURL = (url: string) => url.trim().replace(/\/+$/, '');
+
+/**
+ * Check an endpoint a client asked for. The server's API key is sent to it, so only
+ * LLM_BASE_URL and the comma-separated LLM_ALLOWED_BASE_URLS are accepted.
+ */
+export function checkClientBaseURL(baseURL: unknown): string | undefined {
+    if (baseURL === undefined || baseURL === null || baseURL === '') return undefined;
+    if (typeof baseURL !== 'string') {
+        throw new Error('baseURL must be a string');
+    }
+
+    const allowed = [process.env.LLM_BASE_URL, ...(process.env.LLM_ALLOWED_BASE_URLS || '').split(',')]
+        .filter((url): url is string => !!url && !!url.trim())
+        .map(normalizeBaseURL);
+    if (!allowed.includes(normalizeBaseURL(baseURL))) {
+        throw new Error(`LLM endpoint ${baseURL} is not allowed on this server (see LLM_ALLOWED_BASE_URLS)`);
+    }
+    return baseURL;
+}
+
+export function createProvider(config: LLMConfig): LLMProvider {
+    switch (config.provider) {
+        case 'openai':
+            return new OpenAIProvider(config);
+        case 'anthropic':
+            return new AnthropicProvider(config);
+        case 'replay':
+            if (!config.replayFile) {
+                throw new Error('Replay provider requires a replay script (LLM_REPLAY_FILE)');
+            }
+            return new ReplayProvider(config.replayFile);
+    }
+}
@@ -0,0 +1,52 @@
+import OpenAI from 'openai';
+import { LLMConfig, LLMProvider, LLMRequest, LLMResponse } from './types';
+
+/**
+ * Provider for OpenAI and any server that speaks the OpenAI chat completions API.
+ */
+export class OpenAIProvider implements LLMProvider {
+    readonly name = 'openai' as const;
+    private client: OpenAI;
+
+    constructor(private config: LLMConfig) {
+        this.client = new OpenAI({
+            apiKey: config.apiKey,
+            baseURL: config.baseURL
+        });
+    }
+
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+        const completion = await this.client.chat.completions.create({
+            model: this.config.model,
+            messages: [{ role: 'system', content: request.systemPrompt }, ...request.messages],
+            tools: request.tools,
+            tool_choice: 'auto',
+            temperature: this.config.temperature,
+            max_tokens: this.config.maxTokens
+        });
+
+        const message = completion.choices[0]?.message;
+
+        return {
+            content: message?.content || '',
+            toolCalls: message?.tool_calls?.map(call => ({
+                id: call.id,
+                name: call.function.name,
+                arguments: this.parseArguments(call.function.arguments)
+            })),
+            usage: completion.usage && {
+                inputTokens: completion.usage.prompt_tokens,
+                outputTokens: completion.usage.completion_tokens
+            }
+        };
+    }
+
+    // Malformed JSON is passed through as the raw string so tool validation can report it to the model
+    private parseArguments(raw: string): unknown {
+        try {
+            return JSON.parse(raw || '{}');
+        } catch {
+            return raw;
+        }
+    }
+}
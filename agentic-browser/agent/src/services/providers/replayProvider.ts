@@ -0,0 +1,49 @@
+import fs from 'fs';
+import { LLMProvider, LLMRequest, LLMResponse } from './types';
+
+/**
+ * One scripted model reply.
+ */
+export interface ReplayStep {
+    content?: string;
+    toolCalls?: { name: string; arguments?: any }[];
+}
+
+/**
+ * Deterministic provider that plays back canned replies in order, so the agent loop
+ * can be exercised offline. Once the script runs out it answers with `stop`.
+ */
+export class ReplayProvider implements LLMProvider {
+    readonly name = 'replay' as const;
+    private steps: ReplayStep[];
+    private cursor = 0;
+    private requests: LLMRequest[] = [];
+
+    constructor(script: ReplayStep[] | string) {
+        this.steps = typeof script === 'string'
+            ? JSON.parse(fs.readFileSync(script, 'utf-8'))
+            : script;
+    }
+
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+        this.requests.push(request);
+        const index = this.cursor++;
+        const step: ReplayStep = this.steps[index] ?? {
+            toolCalls: [{ name: 'stop', arguments: { answer: 'Replay script exhausted' } }]
+        };
+
+        return {
+            content: step.content || '',
+            toolCalls: step.toolCalls?.map((call, callIndex) => ({
+                id: `replay_${index}_${callIndex}`,
+                name: call.name,
+                arguments: call.arguments ?? {}
+            }))
+        };
+    }
+
+    // Requests received so far, for asserting on what the agent sent
+    getRequests(): LLMRequest[] {
+        return [...this.requests];
+    }
+}
@@ -0,0 +1,50 @@
+import OpenAI from 'openai';
+
+export type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+export type ToolDefinition = OpenAI.Chat.Completions.ChatCompletionTool;
+
+/** Tokens billed for one completion, as reported by the provider */
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface LLMResponse {
+    content: string;
+    toolCalls?: {
+        id: string;
+        name: string;
+        arguments: any;
+    }[];
+    /** Missing when the provider does not report usage */
+    usage?: TokenUsage;
+}
+
+/**
+ * A single completion request. Messages and tools use the OpenAI chat format;
+ * providers for other APIs translate to and from it.
+ */
+export interface LLMRequest {
+    systemPrompt: string;
+    messages: ChatMessage[];
+    tools: ToolDefinition[];
+}
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'replay';
+
+export interface LLMConfig {
+    provider: LLMProviderName;
+    model: string;
+    /** Override the API endpoint (OpenAI-compatible servers, proxies, local models) */
+    baseURL?: string;
+    apiKey?: string;
+    temperature?: number;
+    maxTokens?: number;
+    /** Path to a JSON replay script (replay provider only) */
+    replayFile?: string;
+}
+
+export interface LLMProvider {
+    readonly name: LLMProviderName;
+    complete(request: LLMRequest): Promise<LLMResponse>;
+}
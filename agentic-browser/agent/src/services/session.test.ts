@@ -0,0 +1,140 @@
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import { Session } from './session';
+import { BrowserService } from './browser';
+import { BrowserPool } from './browserPool';
+import { ProfileStore } from './profileStore';
+import { resolveLaunchConfig } from './launchConfig';
+
+jest.mock('./browser');
+jest.mock('./agent');
+
+/** A client connection that records what the session sends it */
+class FakeSocket extends EventEmitter {
+    readyState: number = WebSocket.OPEN;
+    sent: any[] = [];
+    closedWith: number | null = null;
+
+    send(data: string): void {
+        this.sent.push(JSON.parse(data));
+    }
+
+    close(code: number): void {
+        this.readyState = WebSocket.CLOSED;
+        this.closedWith = code;
+        this.emit('close');
+    }
+
+    types(): string[] {
+        return this.sent.map(message => message.type);
+    }
+}
+
+const asSocket = (socket: FakeSocket) => socket as unknown as WebSocket;
+
+describe('Session', () => {
+    let browser: jest.Mocked<BrowserService>;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.clearAllMocks();
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        // Auto-mocked: every other browser call resolves to undefined
+        browser = jest.mocked(BrowserService.prototype);
+        browser.getLaunchConfig.mockReturnValue(resolveLaunchConfig({ startUrl: 'about:blank' }));
+        browser.getTabs.mockResolvedValue([]);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    const createSession = async (socket: FakeSocket, onExpired: (session: Session) => void = () => undefined) => {
+        const session = new Session(asSocket(socket), {} as BrowserPool, {} as ProfileStore, {}, onExpired);
+        // Let the browser start
+        await jest.advanceTimersByTimeAsync(0);
+        return session;
+    };
+
+    it('replays the events a resuming client missed', async () => {
+        const first = new FakeSocket();
+        const session = await createSession(first);
+        session.sendResponse('agent_response', { text: 'seen' });
+        const seen = first.sent[first.sent.length - 1].eventId;
+        first.close(1006);
+        session.sendResponse('agent_response', { text: 'missed' });
+
+        const second = new FakeSocket();
+        await session.resume(asSocket(second), seen);
+
+        expect(second.types()).toEqual(['session_resumed', 'agent_response']);
+        expect(second.sent[0].payload).toMatchObject({ sessionId: session.getSessionId(), resumed: true, replayed: 1, queue: [] });
+        expect(second.sent[1].payload.text).toBe('missed');
+        expect(browser.startStreaming).toHaveBeenCalledTimes(2);
+    });
+
+    it('replays everything still kept to a client that saw nothing', async () => {
+        const first = new FakeSocket();
+        const session = await createSession(first);
+        first.close(1006);
+
+        const second = new FakeSocket();
+        await session.resume(asSocket(second));
+
+        expect(second.types()).toEqual(['session_resumed', 'browser_ready']);
+    });
+
+    it('keeps the browser for the grace period after the client disconnects', async () => {
+        const onExpired = jest.fn();
+        const first = new FakeSocket();
+        const session = await createSession(first, onExpired);
+
+        first.close(1006);
+        expect(browser.stopStreaming).toHaveBeenCalled();
+        await jest.advanceTimersByTimeAsync(59000);
+        expect(session.isClosed()).toBe(false);
+
+        await jest.advanceTimersByTimeAsync(1000);
+
+        expect(session.isClosed()).toBe(true);
+        expect(browser.close).toHaveBeenCalled();
+        expect(onExpired).toHaveBeenCalledWith(session);
+    });
+
+    it('is not torn down once resumed within the grace period', async () => {
+        const first = new FakeSocket();
+        const session = await createSession(first);
+        first.close(1006);
+        await jest.advanceTimersByTimeAsync(30000);
+
+        await session.resume(asSocket(new FakeSocket()));
+        await jest.advanceTimersByTimeAsync(60000);
+
+        expect(session.isClosed()).toBe(false);
+        expect(browser.close).not.toHaveBeenCalled();
+    });
+
+    it('closes the older connection when resumed on another one', async () => {
+        const first = new FakeSocket();
+        const session = await createSession(first);
+
+        const second = new FakeSocket();
+        await session.resume(asSocket(second));
+        await jest.advanceTimersByTimeAsync(60000);
+
+        expect(first.closedWith).toBe(4000);
+        expect(session.isClosed()).toBe(false);
+    });
+
+    it('tells the client not to reconnect when it expires', async () => {
+        const socket = new FakeSocket();
+        const session = await createSession(socket);
+
+        await session.expire('Session closed after inactivity');
+
+        expect(socket.types()).toContain('session_expired');
+        expect(socket.closedWith).toBe(4001);
+        expect(session.isClosed()).toBe(true);
+    });
+});
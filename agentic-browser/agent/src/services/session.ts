@@ -1,13 +1,56 @@
 import WebSocket from 'ws';
+import crypto from 'crypto';
 import { WebSocketMessage } from '../websocket/handlers';
 import { BrowserService } from './browser';
 import { AgentService } from './agent';
+import { LLMConfig } from './llm';
+import { checkClientBaseURL } from './providers';
+import { InstructionQueue } from './instructionQueue';
+import { BrowserPool } from './browserPool';
+import { ProfileStore, StorageState } from './profileStore';
+import { UserIdentity } from './auth';
+import { JsonSchema, checkSchema } from './extraction';
+import { LaunchConfigOverrides, SessionLaunchConfig, resolveLaunchConfig, describeLaunchConfig } from './launchConfig';
+
+/** How long a disconnected session keeps its browser, waiting for the client to resume it */
+const SESSION_GRACE_MS = parseInt(process.env.AGENT_SESSION_GRACE_MS || '60000', 10);
+/** Recent events kept for replay to a resuming client */
+const REPLAY_EVENT_LIMIT = parseInt(process.env.AGENT_SESSION_REPLAY_EVENTS || '200', 10);
+/** WebSocket close code for sessions the server ended; clients should not reconnect to them */
+const SESSION_EXPIRED_CLOSE_CODE = 4001;
+/** Messages that only matter live and are never replayed */
+const LIVE_ONLY_TYPES = new Set(['frame', 'connection', 'session_resumed', 'browser_queue_updated']);
+
+/** What a client asks for when it connects */
+export interface SessionHandshake {
+    /** Browser setup; invalid configs fall back to the defaults */
+    launchConfig?: LaunchConfigOverrides;
+    /** Verified user behind the connection, null for anonymous clients */
+    user?: UserIdentity | null;
+    /** The user's profile to start the browser from */
+    profile?: string | null;
+}
 
 export class Session {
     private sessionId: string;
-    private ws: WebSocket;
+    private ws: WebSocket | null = null;
     private browser: BrowserService;
     private agent: AgentService;
+    private queue: InstructionQueue;
+    private events: WebSocketMessage[] = [];
+    private nextEventId: number = 1;
+    private graceTimer: NodeJS.Timeout | null = null;
+    private closed: boolean = false;
+    private lastActivity: number = Date.now();
+    private used: boolean = false;
+    // Place in the browser pool's queue while waiting for a free browser, null once one is assigned
+    private browserQueuePosition: number | null = null;
+    // Resolves to whether the browser came up; profile switches wait for it
+    private browserInit: Promise<boolean>;
+    // Named profile whose cookies and storage are saved when the session ends
+    private profile: string | null = null;
+    // Profiles are per user, so anonymous sessions have none
+    private user: UserIdentity | null;
 
     sendResponse = (type: string, payload: any): void => {
         const message: WebSocketMessage = {
@@ -16,35 +59,162 @@ export class Session {
             timestamp: new Date().toISOString()
         };
 
-        if (this.ws.readyState === WebSocket.OPEN) {
-            this.ws.send(JSON.stringify(message));
+        if (!LIVE_ONLY_TYPES.has(type)) {
+            message.eventId = this.nextEventId++;
+            this.events.push(message);
+            if (this.events.length > REPLAY_EVENT_LIMIT) this.events.shift();
         }
+
+        this.send(message);
     };
 
-    constructor(ws: WebSocket) {
+    // Agent messages carry the ID of the instruction they belong to
+    private sendAgentResponse = (type: string, payload: any): void => {
+        this.sendResponse(type, { ...payload, instructionId: this.queue.getRunning()?.id });
+    };
+
+    /**
+     * @param handshake launch config, user and profile the client connected with
+     * @param onExpired called once the session has been torn down, so it can be forgotten
+     */
+    constructor(
+        ws: WebSocket,
+        pool: BrowserPool,
+        private profiles: ProfileStore,
+        { launchConfig = {}, user = null, profile = null }: SessionHandshake = {},
+        private onExpired: (session: Session) => void = () => undefined
+    ) {
         this.sessionId = this.generateSessionId();
-        this.ws = ws;
-        this.browser = new BrowserService();
-        this.agent = new AgentService(this.browser, this.sendResponse);
+        this.user = user;
+        let config: SessionLaunchConfig;
+        let configError: string | null = null;
+        try {
+            config = resolveLaunchConfig(launchConfig);
+        } catch (error) {
+            configError = error instanceof Error ? error.message : 'Unknown error';
+            console.warn(`[SESSION:${this.sessionId}] Invalid launch config, using defaults: ${configError}`);
+            config = resolveLaunchConfig();
+        }
+        this.browser = new BrowserService(pool, config);
+        this.agent = new AgentService(this.browser, this.sendAgentResponse);
+        this.queue = new InstructionQueue(
+            {
+                run: (text, schema) => this.agent.onInstruction(text, schema),
+                cancel: () => this.agent.cancelInstruction('stopped')
+            },
+            (instruction, queue) => {
+                this.touch();
+                this.sendResponse('instruction_queue_updated', { sessionId: this.sessionId, instruction, queue });
+            }
+        );
+        this.browser.setTabListener((event) => {
+            this.sendResponse(event.type, { ...event, sessionId: this.sessionId });
+        });
         console.log(`[SESSION] Created session: ${this.sessionId}`);
-        this.initializeBrowser();
-        this.setupWebSocketCleanup();
+        this.setWebSocket(ws);
+        this.sendResponse('connection', {
+            status: 'connected',
+            sessionId: this.sessionId,
+            resumed: false,
+            launchConfig: describeLaunchConfig(config)
+        });
+        if (configError) {
+            this.sendResponse('launch_config_error', { sessionId: this.sessionId, error: configError });
+        }
+        this.browserInit = this.initializeBrowser(profile);
     }
 
-    private async initializeBrowser(): Promise<void> {
+    // Start the browser, from the handshake's profile if there is one (anonymous clients have none)
+    private async initializeBrowser(profile: string | null): Promise<boolean> {
+        let storageState: StorageState | undefined;
+        if (profile && this.user) {
+            // Selected from the start, so a profile list sent while the browser starts shows it
+            this.profile = profile;
+            try {
+                storageState = (await this.profiles.load(this.requireUser(), profile)) ?? undefined;
+            } catch (error) {
+                this.profile = null;
+                console.error(`[SESSION:${this.sessionId}] Cannot use profile ${profile}:`, error);
+                this.sendResponse('profile_error', {
+                    sessionId: this.sessionId,
+                    action: 'select',
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        }
+
         try {
-            await this.browser.initialize();
+            await this.browser.initialize((position) => {
+                this.browserQueuePosition = position;
+                console.log(`[SESSION:${this.sessionId}] Waiting for a browser, position ${position}`);
+                this.sendResponse('browser_queue_updated', { sessionId: this.sessionId, position });
+            }, storageState);
+            this.browserQueuePosition = null;
             console.log(`[SESSION:${this.sessionId}] Browser initialized`);
-            await this.startStreaming();
+            if (this.profile) {
+                console.log(`[SESSION:${this.sessionId}] Using profile ${this.profile}${storageState ? '' : ' (new)'}`);
+                // Create it on disk right away so it shows up in the list
+                if (!storageState) await this.saveProfile().catch(error => {
+                    console.error(`[SESSION:${this.sessionId}] Error saving profile ${this.profile}:`, error);
+                });
+            }
+            this.sendResponse('browser_ready', { sessionId: this.sessionId });
+            // Nobody to stream to if the client left while the browser was starting
+            if (this.ws) await this.startStreaming();
+            return true;
         } catch (error) {
-            console.error(`[SESSION:${this.sessionId}] Failed to initialize browser:`, error);
+            // Closing the session while it waits for the pool is not a failure
+            if (!this.closed) console.error(`[SESSION:${this.sessionId}] Failed to initialize browser:`, error);
+            return false;
         }
     }
 
-    private setupWebSocketCleanup(): void {
-        this.ws.on('close', () => {
-            this.cleanup();
+    /**
+     * Hand the session to a reconnecting client: cancel the teardown, report the current state
+     * and replay the events it missed (those after `lastEventId`, or everything still kept).
+     */
+    async resume(ws: WebSocket, lastEventId: number = 0): Promise<void> {
+        this.touch();
+        if (this.graceTimer) {
+            clearTimeout(this.graceTimer);
+            this.graceTimer = null;
+        }
+
+        // Only one client drives a session; an older socket still attached is closed
+        const previous = this.ws;
+        this.setWebSocket(ws);
+        if (previous && previous !== ws) previous.close(4000, 'Session resumed on another connection');
+
+        const missed = this.events.filter(event => (event.eventId ?? 0) > lastEventId);
+        console.log(`[SESSION:${this.sessionId}] Resumed, replaying ${missed.length} events`);
+        this.sendResponse('session_resumed', {
+            sessionId: this.sessionId,
+            resumed: true,
+            replayed: missed.length,
+            queue: this.queue.getSnapshot(),
+            paused: this.agent.isPaused(),
+            browserQueuePosition: this.browserQueuePosition,
+            profile: this.profile,
+            launchConfig: describeLaunchConfig(this.browser.getLaunchConfig()),
+            tabs: await this.browser.getTabs()
         });
+        missed.forEach(event => this.send(event));
+
+        if (this.browserQueuePosition === null) await this.startStreaming();
+    }
+
+    private setWebSocket(ws: WebSocket): void {
+        this.ws = ws;
+        ws.on('close', () => {
+            // A replaced socket closing must not detach its successor
+            if (this.ws === ws) this.detach();
+        });
+    }
+
+    private send(message: WebSocketMessage): void {
+        if (this.ws?.readyState === WebSocket.OPEN) {
+            this.ws.send(JSON.stringify(message));
+        }
     }
 
     private async startStreaming(): Promise<void> {
@@ -52,6 +222,7 @@ export class Session {
             await this.browser.startStreaming((frameData: string) => {
                 this.sendResponse('frame', {
                     data: frameData,
+                    format: this.browser.getLaunchConfig().screencast.format,
                     sessionId: this.sessionId
                 });
             });
@@ -61,13 +232,95 @@ export class Session {
         }
     }
 
-    private async cleanup(): Promise<void> {
+    // The client went away: stop streaming, keep the browser and any running instruction for the grace period
+    private async detach(): Promise<void> {
+        this.ws = null;
+        console.log(`[SESSION:${this.sessionId}] Client disconnected, keeping the session for ${SESSION_GRACE_MS}ms`);
+        this.graceTimer = setTimeout(() => {
+            this.graceTimer = null;
+            this.destroy();
+        }, SESSION_GRACE_MS);
+
         try {
             await this.browser.stopStreaming();
-            console.log(`[SESSION:${this.sessionId}] Session cleaned up`);
         } catch (error) {
-            console.error(`[SESSION:${this.sessionId}] Error during cleanup:`, error);
+            console.error(`[SESSION:${this.sessionId}] Error stopping the stream:`, error);
+        }
+    }
+
+    // Tear the session down for good: stop all instructions and close the browser
+    async destroy(): Promise<void> {
+        if (this.closed) return;
+        this.closed = true;
+        if (this.graceTimer) {
+            clearTimeout(this.graceTimer);
+            this.graceTimer = null;
+        }
+
+        this.queue.cancelAll();
+        try {
+            await this.saveProfile();
+        } catch (error) {
+            console.error(`[SESSION:${this.sessionId}] Error saving profile ${this.profile}:`, error);
+        }
+        try {
+            await this.browser.close();
+            console.log(`[SESSION:${this.sessionId}] Session closed`);
+        } catch (error) {
+            console.error(`[SESSION:${this.sessionId}] Error closing the browser:`, error);
         }
+        this.onExpired(this);
+    }
+
+    /**
+     * Close the client's connection with a reason and tear the session down. Used for sessions
+     * reaped by the server; the close code tells the client not to reconnect.
+     */
+    async expire(reason: string): Promise<void> {
+        console.log(`[SESSION:${this.sessionId}] Expiring: ${reason}`);
+        this.sendResponse('session_expired', { sessionId: this.sessionId, reason });
+        await this.closeConnection(SESSION_EXPIRED_CLOSE_CODE, reason);
+    }
+
+    // Close the client's socket without starting the grace period, then tear down
+    private async closeConnection(code: number, reason: string): Promise<void> {
+        const ws = this.ws;
+        this.ws = null;
+        ws?.close(code, reason);
+        await this.destroy();
+    }
+
+    // How long since the client or an instruction last did anything; running or waiting for a browser is never idle
+    getIdleMs(): number {
+        if (this.queue.getRunning() || this.browserQueuePosition !== null) return 0;
+        return Date.now() - this.lastActivity;
+    }
+
+    private touch(): void {
+        this.lastActivity = Date.now();
+    }
+
+    // Whether the client has sent this session anything yet
+    isUnused(): boolean {
+        return !this.used;
+    }
+
+    /**
+     * Tear down a session the client never used, leaving its socket open for the session
+     * that replaces it (a handshake that arrived after the timeout).
+     */
+    async discard(): Promise<void> {
+        this.ws = null;
+        await this.destroy();
+    }
+
+    isClosed(): boolean {
+        return this.closed;
+    }
+
+    // ID of the signed-in user the session belongs to, null for anonymous sessions
+    getUserId(): string | null {
+        return this.user?.id ?? null;
     }
 
     getSessionId(): string {
@@ -76,11 +329,21 @@ export class Session {
 
     async onInstruction(message: WebSocketMessage): Promise<void> {
         console.log(`[SESSION:${this.sessionId}] Received message:`, message.type);
+        this.touch();
+        this.used = true;
 
         switch (message.type) {
             case 'instruction':
-                console.log(`[SESSION:${this.sessionId}] Processing instruction:`, message.payload?.text);
-                await this.agent.onInstruction(message.payload.text);
+                this.handleInstruction(message);
+                break;
+
+            case 'cancel_instruction':
+                this.handleCancelInstruction(message);
+                break;
+
+            case 'pause':
+            case 'resume':
+                this.handlePauseResume(message);
                 break;
             
             case 'manual_intervention_complete':
@@ -94,6 +357,32 @@ export class Session {
             case 'keyboard_action':
                 await this.handleKeyboardAction(message);
                 break;
+
+            case 'tab_action':
+                await this.handleTabAction(message);
+                break;
+
+            case 'end_session':
+                // The client is done with this session, e.g. to start one with other launch settings
+                console.log(`[SESSION:${this.sessionId}] Ended by the client`);
+                await this.closeConnection(1000, 'Session ended');
+                break;
+
+            case 'profile_action':
+                await this.handleProfileAction(message);
+                break;
+
+            case 'llm_config':
+                this.handleLLMConfig(message);
+                break;
+
+            case 'vision_mode':
+                this.handleVisionMode(message);
+                break;
+
+            case 'run_budget':
+                this.handleRunBudget(message);
+                break;
             
             default:
                 console.log(`[SESSION:${this.sessionId}] Unknown message type:`, message.type);
@@ -116,6 +405,233 @@ export class Session {
         await this.agent.resumeAfterManualIntervention();
     }
 
+    private handleInstruction(message: WebSocketMessage): void {
+        const { id, text, replace, schema } = message.payload || {};
+        if (typeof text !== 'string' || !text.trim()) {
+            this.sendInstructionControlError(id, 'Instruction text is required');
+            return;
+        }
+
+        let extractionSchema: JsonSchema | undefined;
+        try {
+            extractionSchema = schema === undefined || schema === null ? undefined : checkSchema(schema);
+        } catch (error) {
+            this.sendInstructionControlError(id, `Invalid extraction schema: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            return;
+        }
+
+        const instructionId = id || `instruction_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+        console.log(`[SESSION:${this.sessionId}] ${replace ? 'Replacing current work with' : 'Queueing'} instruction ${instructionId}:`, text);
+        this.queue.enqueue(instructionId, text, replace === true, extractionSchema);
+    }
+
+    private handleCancelInstruction(message: WebSocketMessage): void {
+        const { instructionId, markComplete } = message.payload || {};
+
+        // Marking complete only applies to the running instruction; stopping also drops queued ones
+        if (markComplete === true) {
+            if (!this.isCurrentInstruction(instructionId)) return;
+            if (!this.agent.cancelInstruction('completed')) {
+                this.sendInstructionControlError(instructionId, 'No instruction is running');
+            }
+            return;
+        }
+
+        const targetId = instructionId || this.queue.getRunning()?.id;
+        if (!targetId || !this.queue.cancel(targetId)) {
+            this.sendInstructionControlError(instructionId, targetId ? `Instruction ${targetId} is not queued or running` : 'No instruction is running');
+        }
+    }
+
+    private handlePauseResume(message: WebSocketMessage): void {
+        const { instructionId } = message.payload || {};
+        if (!this.isCurrentInstruction(instructionId)) return;
+
+        const pausing = message.type === 'pause';
+        if (pausing ? this.agent.pause() : this.agent.resume()) {
+            console.log(`[SESSION:${this.sessionId}] Instruction ${pausing ? 'paused' : 'resumed'}`);
+            this.sendResponse(pausing ? 'instruction_paused' : 'instruction_resumed', {
+                sessionId: this.sessionId,
+                instructionId: this.queue.getRunning()?.id
+            });
+        } else {
+            this.sendInstructionControlError(instructionId, pausing ? 'No instruction is running' : 'The instruction is not paused');
+        }
+    }
+
+    // Control messages may name the instruction they target; others than the running one are rejected
+    private isCurrentInstruction(instructionId: string | undefined): boolean {
+        if (!instructionId || instructionId === this.queue.getRunning()?.id) return true;
+        this.sendInstructionControlError(instructionId, `Instruction ${instructionId} is not the current instruction`);
+        return false;
+    }
+
+    private sendInstructionControlError(instructionId: string | undefined, error: string): void {
+        console.warn(`[SESSION:${this.sessionId}] ${error}`);
+        this.sendResponse('instruction_control_error', { sessionId: this.sessionId, instructionId, error });
+    }
+
+    private handleLLMConfig(message: WebSocketMessage): void {
+        // Only backend selection is accepted from the client; credentials and replay scripts stay server-side,
+        // and the server's key is only ever sent to endpoints the server allows
+        const { provider, model, baseURL, temperature } = message.payload || {};
+
+        try {
+            const overrides: Partial<LLMConfig> = { provider, model, baseURL: checkClientBaseURL(baseURL), temperature };
+            const config = this.agent.configureLLM(overrides);
+            console.log(`[SESSION:${this.sessionId}] LLM configured: ${config.provider}/${config.model}`);
+            this.sendResponse('llm_config_updated', { sessionId: this.sessionId, config });
+        } catch (error) {
+            console.error(`[SESSION:${this.sessionId}] Invalid LLM config:`, error);
+            this.sendResponse('llm_config_error', {
+                sessionId: this.sessionId,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    private handleVisionMode(message: WebSocketMessage): void {
+        const { enabled, detail, tokenBudget, quality } = message.payload || {};
+
+        try {
+            if (enabled !== undefined && typeof enabled !== 'boolean') {
+                throw new Error('"enabled" must be true or false');
+            }
+            const vision = this.agent.setVisionMode({ enabled, detail, tokenBudget, quality });
+            console.log(`[SESSION:${this.sessionId}] Vision mode ${vision.enabled ? 'enabled' : 'disabled'} (detail: ${vision.detail})`);
+            this.sendResponse('vision_mode_updated', { sessionId: this.sessionId, vision });
+        } catch (error) {
+            console.error(`[SESSION:${this.sessionId}] Invalid vision mode settings:`, error);
+            this.sendResponse('vision_mode_error', {
+                sessionId: this.sessionId,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    private handleRunBudget(message: WebSocketMessage): void {
+        // Limits only; model prices are server configuration
+        const { maxSteps, maxTokens, maxCostUsd, maxDurationMs, maxRepeats } = message.payload || {};
+
+        try {
+            const budget = this.agent.setBudget({ maxSteps, maxTokens, maxCostUsd, maxDurationMs, maxRepeats });
+            console.log(`[SESSION:${this.sessionId}] Run budget: ${budget.maxSteps} steps, ${budget.maxTokens} tokens, ${budget.maxDurationMs}ms`);
+            this.sendResponse('run_budget_updated', { sessionId: this.sessionId, budget });
+        } catch (error) {
+            console.error(`[SESSION:${this.sessionId}] Invalid run budget:`, error);
+            this.sendResponse('run_budget_error', {
+                sessionId: this.sessionId,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    private async handleTabAction(message: WebSocketMessage): Promise<void> {
+        const { action, tabId } = message.payload || {};
+
+        try {
+            switch (action) {
+                case 'switch':
+                    await this.browser.switchTab(tabId);
+                    console.log(`[SESSION:${this.sessionId}] Switched to tab ${tabId}`);
+                    break;
+
+                case 'close':
+                    await this.browser.closeTab(tabId);
+                    console.log(`[SESSION:${this.sessionId}] Closed tab ${tabId}`);
+                    break;
+
+                case 'list':
+                    this.sendResponse('tabs', { sessionId: this.sessionId, tabs: await this.browser.getTabs() });
+                    break;
+
+                default:
+                    console.warn(`[SESSION:${this.sessionId}] Unknown tab action: ${action}`);
+                    break;
+            }
+        } catch (error) {
+            console.error(`[SESSION:${this.sessionId}] Error handling tab action:`, error);
+        }
+    }
+
+    private async handleProfileAction(message: WebSocketMessage): Promise<void> {
+        const { action, name } = message.payload || {};
+
+        try {
+            switch (action) {
+                case 'select':
+                    await this.selectProfile(name ?? null);
+                    break;
+
+                case 'save':
+                    if (!this.profile) throw new Error('No profile is selected');
+                    await this.saveProfile();
+                    break;
+
+                case 'delete':
+                    if (!(await this.profiles.delete(this.requireUser(), name))) throw new Error(`Profile "${name}" does not exist`);
+                    console.log(`[SESSION:${this.sessionId}] Deleted profile ${name}`);
+                    // Don't write it back when the session ends
+                    if (this.profile === name) this.profile = null;
+                    break;
+
+                case 'list':
+                    break;
+
+                default:
+                    throw new Error(`Unknown profile action: ${action}`);
+            }
+
+            this.sendResponse('profiles', {
+                sessionId: this.sessionId,
+                enabled: this.profiles.isEnabled() && this.user !== null,
+                profiles: this.profiles.isEnabled() && this.user ? await this.profiles.list(this.user.id) : [],
+                selected: this.profile
+            });
+        } catch (error) {
+            console.error(`[SESSION:${this.sessionId}] Profile ${action} failed:`, error);
+            this.sendResponse('profile_error', {
+                sessionId: this.sessionId,
+                action,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    /**
+     * Switch the browser to a profile (null for none). The current profile is saved first, then
+     * the browser restarts from the new profile's storage; a profile never saved starts empty.
+     */
+    private async selectProfile(name: string | null): Promise<void> {
+        if (this.queue.getRunning()) {
+            throw new Error('Profiles cannot be switched while an instruction is running');
+        }
+
+        const state = name === null ? null : await this.profiles.load(this.requireUser(), name);
+        if (!(await this.browserInit)) {
+            throw new Error('The browser is not available');
+        }
+
+        await this.saveProfile();
+        await this.browser.resetContext(state ?? undefined);
+        this.profile = name;
+        // Create it on disk right away so it shows up in the list
+        if (name && !state) await this.saveProfile();
+        console.log(`[SESSION:${this.sessionId}] ${name ? `Using profile ${name}${state ? '' : ' (new)'}` : 'Using no profile'}`);
+        this.sendResponse('tabs', { sessionId: this.sessionId, tabs: await this.browser.getTabs() });
+    }
+
+    private async saveProfile(): Promise<void> {
+        if (!this.profile) return;
+        await this.profiles.save(this.requireUser(), this.profile, await this.browser.getStorageState());
+        console.log(`[SESSION:${this.sessionId}] Saved profile ${this.profile}`);
+    }
+
+    private requireUser(): string {
+        if (!this.user) throw new Error('Sign in to use browser profiles');
+        return this.user.id;
+    }
+
     private async handleMouseAction(message: WebSocketMessage): Promise<void> {
         console.log(`[SESSION:${this.sessionId}] Received mouse action:`, message.payload);
         
@@ -206,8 +722,9 @@ export class Session {
         return modifierKeys.includes(key.toLowerCase());
     }
 
+    // The ID is all it takes to resume (take over) a session, so it must not be guessable
     private generateSessionId(): string {
-        return 'session_' + Date.now() + '_' + Math.random().toString(36).substring(2, 15);
+        return 'session_' + crypto.randomBytes(32).toString('base64url');
     }
 
 }
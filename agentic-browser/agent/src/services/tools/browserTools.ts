@@ -0,0 +1,370 @@
+import { z } from 'zod/v4';
+import { defineTool } from './types';
+import { StaleElementError } from '../browser';
+
+const elementId = (what: string) =>
+    z.number().describe(`The ID number of the ${what} (from the page content brackets [number])`);
+
+export const clickTool = defineTool({
+    name: 'click',
+    description: 'Click on an element using its ID number from the page',
+    affectsPage: true,
+    settlesPage: true,
+    parameters: z.object({
+        elementId: elementId('element to click')
+    }),
+    handler: async ({ elementId }, { browser, getElement, retryPolicy, cancellation }) => {
+        const elementDesc = getElement(elementId);
+        const page = browser.getPage();
+        const beforeUrl = page ? page.url() : undefined;
+        const failures: string[] = [];
+
+        // Fall back to the next strategy only when a click could not be performed (e.g. intercepted or not clickable).
+        // A click that went through is never repeated, even without a visible effect: it may have submitted something.
+        for (const strategy of retryPolicy.clickStrategies) {
+            cancellation.throwIfCancelled();
+            const beforeState = await browser.getElementState(elementDesc.selector);
+            await browser.beginActionWatch();
+            try {
+                await browser.click(elementDesc.selector, strategy);
+            } catch (error) {
+                await browser.endActionWatch();
+                if (error instanceof StaleElementError) throw error;
+                failures.push(`${strategy}: ${error instanceof Error ? error.message.split('\n')[0] : 'Unknown error'}`);
+                continue;
+            }
+
+            await browser.waitForSettle(retryPolicy.settleTimeoutMs);
+            const mutations = await browser.endActionWatch();
+            // A popup switches the active page; a replaced document ends the mutation watch
+            const navigated = mutations === null || browser.getPage() !== page || browser.getPage()?.url() !== beforeUrl;
+            const stateChanged = !navigated && await browser.getElementState(elementDesc.selector) !== beforeState;
+
+            const visibleEffect = navigated || stateChanged || (mutations ?? 0) > 0;
+            console.log(`[AGENT] Clicked element ${elementId}: ${elementDesc.name} (${elementDesc.selector}) using ${strategy} strategy${visibleEffect ? '' : ', no visible effect'}`);
+            return { name: elementDesc.name, navigated, visibleEffect, strategy, attempts: failures.length + 1 };
+        }
+
+        throw new Error(`Could not click "${elementDesc.name}" after ${failures.length} attempts (${failures.join('; ')})`);
+    },
+    summarize: (_args, result) =>
+        `click("${result.name}") → ${result.navigated ? 'navigated to new page' : result.visibleEffect ? 'success' : 'no visible effect'}` +
+        (result.attempts > 1 ? ` (attempt ${result.attempts}, ${result.strategy} click)` : '')
+});
+
+export const clickAtTool = defineTool({
+    name: 'click_at',
+    description: 'Click at viewport coordinates (CSS pixels, same as the screenshot). Only for things that have no element ID, e.g. canvas content or unlabeled icons; prefer click with an element ID.',
+    affectsPage: true,
+    settlesPage: true,
+    parameters: z.object({
+        x: z.number().min(0).describe('Horizontal position from the left edge of the viewport'),
+        y: z.number().min(0).describe('Vertical position from the top edge of the viewport'),
+        button: z.enum(['left', 'right', 'middle']).optional().describe('Mouse button (default: left)'),
+        clickCount: z.number().int().min(1).max(3).optional().describe('2 for a double click (default: 1)')
+    }),
+    handler: async ({ x, y, button = 'left', clickCount = 1 }, { browser, retryPolicy }) => {
+        const page = browser.getPage();
+        const viewport = page?.viewportSize();
+        if (viewport && (x > viewport.width || y > viewport.height)) {
+            throw new Error(`(${x}, ${y}) is outside the ${viewport.width}x${viewport.height} viewport`);
+        }
+
+        const target = await browser.describePoint(x, y);
+        const beforeUrl = page ? page.url() : undefined;
+        await browser.beginActionWatch();
+        await browser.mouseClick(x, y, button, clickCount);
+
+        await browser.waitForSettle(retryPolicy.settleTimeoutMs);
+        const mutations = await browser.endActionWatch();
+        const navigated = mutations === null || browser.getPage() !== page || browser.getPage()?.url() !== beforeUrl;
+
+        console.log(`[AGENT] Coordinate click at (${x}, ${y}) on ${target}`);
+        return { target, navigated, noEffect: !navigated && mutations === 0 };
+    },
+    summarize: ({ x, y, button, clickCount }, result) =>
+        `click_at(${x}, ${y}${button && button !== 'left' ? `, ${button}` : ''}${clickCount && clickCount > 1 ? `, x${clickCount}` : ''}) ` +
+        `[coordinate click on ${result.target}] → ${result.navigated ? 'navigated to new page' : result.noEffect ? 'no visible effect' : 'success'}`
+});
+
+export const typeTool = defineTool({
+    name: 'type',
+    description: 'Type text into an input field using its ID number from the page',
+    affectsPage: true,
+    parameters: z.object({
+        elementId: elementId('input field'),
+        text: z.string().describe('The text to type into the input field')
+    }),
+    handler: async ({ elementId, text }, { browser, getElement }) => {
+        const elementDesc = getElement(elementId);
+        await browser.type(elementDesc.selector, text);
+        console.log(`[AGENT] Typed "${text}" into element ${elementId}: ${elementDesc.name} (${elementDesc.selector})`);
+        return { name: elementDesc.name };
+    },
+    summarize: ({ text }, result) => `type("${result.name}", "${text}")`
+});
+
+export const enterTool = defineTool({
+    name: 'enter',
+    description: 'Press the Enter key to submit forms or trigger actions',
+    affectsPage: true,
+    parameters: z.object({}),
+    handler: async (_args, { browser }) => {
+        await browser.enter();
+        console.log(`[AGENT] Pressed Enter key`);
+    },
+    summarize: () => 'enter()'
+});
+
+export const gotoTool = defineTool({
+    name: 'goto',
+    description: 'Navigate to a specific URL',
+    affectsPage: true,
+    parameters: z.object({
+        url: z.string().min(1).describe('The URL to navigate to')
+    }),
+    handler: async ({ url }, { browser }) => {
+        await browser.goto(url);
+        console.log(`[AGENT] Navigated to: ${url}`);
+    },
+    summarize: ({ url }) => `goto(${url})`
+});
+
+export const goBackTool = defineTool({
+    name: 'goBack',
+    description: 'Go back to the previous page in browser history',
+    affectsPage: true,
+    parameters: z.object({}),
+    handler: async (_args, { browser }) => {
+        await browser.goBack();
+        console.log(`[AGENT] Went back`);
+    },
+    summarize: () => 'goBack()'
+});
+
+export const scrollTool = defineTool({
+    name: 'scroll',
+    description: 'Scroll the page to reveal more content (e.g. infinite-scroll lists, content below the fold). With elementId, scrolls that element into view instead.',
+    affectsPage: true,
+    parameters: z.object({
+        direction: z.enum(['up', 'down', 'left', 'right']).optional()
+            .describe('Direction to scroll the page (default: down)'),
+        amount: z.number().positive().optional()
+            .describe('Distance in pixels (default: most of one screen)'),
+        elementId: elementId('element to scroll into view').optional()
+    }),
+    handler: async ({ direction = 'down', amount, elementId }, { browser, getElement }) => {
+        if (elementId !== undefined) {
+            const elementDesc = getElement(elementId);
+            await browser.scrollElementIntoView(elementDesc.selector);
+            console.log(`[AGENT] Scrolled element ${elementId} into view: ${elementDesc.name}`);
+            return { target: `"${elementDesc.name}"` };
+        }
+
+        const position = await browser.scrollPage(direction, amount);
+        console.log(`[AGENT] Scrolled ${direction}, now at (${position.scrollX}, ${position.scrollY})`);
+        return { target: `${direction}, now at y=${position.scrollY}` };
+    },
+    summarize: (_args, result) => `scroll(${result.target})`
+});
+
+export const hoverTool = defineTool({
+    name: 'hover',
+    description: 'Move the mouse over an element, e.g. to open hover menus or reveal tooltips',
+    affectsPage: true,
+    parameters: z.object({
+        elementId: elementId('element to hover')
+    }),
+    handler: async ({ elementId }, { browser, getElement }) => {
+        const elementDesc = getElement(elementId);
+        await browser.hover(elementDesc.selector);
+        console.log(`[AGENT] Hovered element ${elementId}: ${elementDesc.name}`);
+        return { name: elementDesc.name };
+    },
+    summarize: (_args, result) => `hover("${result.name}")`
+});
+
+export const selectOptionTool = defineTool({
+    name: 'select_option',
+    description: 'Choose option(s) in a dropdown (native select, combobox or listbox) by value or visible label',
+    affectsPage: true,
+    parameters: z.object({
+        elementId: elementId('dropdown, combobox or listbox'),
+        values: z.array(z.string()).min(1)
+            .describe('Option labels or values to select (more than one only for multi-selects)')
+    }),
+    handler: async ({ elementId, values }, { browser, getElement }) => {
+        const elementDesc = getElement(elementId);
+        const selected = await browser.selectOption(elementDesc.selector, values);
+        console.log(`[AGENT] Selected [${selected.join(', ')}] in element ${elementId}: ${elementDesc.name}`);
+        return { name: elementDesc.name, selected };
+    },
+    summarize: (_args, result) => `select_option("${result.name}", [${result.selected.join(', ')}])`
+});
+
+export const pressKeyTool = defineTool({
+    name: 'press_key',
+    description: 'Press a key or keyboard shortcut, e.g. Escape to close a dialog, ArrowDown in a list, or Control+A. Optionally focus an element first.',
+    affectsPage: true,
+    parameters: z.object({
+        key: z.string().min(1).describe('Key name, e.g. "Escape", "Tab", "ArrowDown", "PageDown", "a"'),
+        modifiers: z.array(z.enum(['Control', 'Shift', 'Alt', 'Meta'])).optional()
+            .describe('Modifier keys to hold while pressing the key'),
+        elementId: elementId('element to focus before pressing the key').optional()
+    }),
+    handler: async ({ key, modifiers, elementId }, { browser, getElement }) => {
+        if (elementId !== undefined) {
+            await browser.focus(getElement(elementId).selector);
+        }
+        const combo = await browser.pressKey(key, modifiers);
+        console.log(`[AGENT] Pressed ${combo}`);
+        return { combo };
+    },
+    summarize: (_args, result) => `press_key(${result.combo})`
+});
+
+export const checkTool = defineTool({
+    name: 'check',
+    description: 'Check a checkbox, switch or radio button (no-op if it is already checked)',
+    affectsPage: true,
+    parameters: z.object({
+        elementId: elementId('checkbox, switch or radio button')
+    }),
+    handler: async ({ elementId }, { browser, getElement }) => {
+        const elementDesc = getElement(elementId);
+        await browser.setChecked(elementDesc.selector, true);
+        console.log(`[AGENT] Checked element ${elementId}: ${elementDesc.name}`);
+        return { name: elementDesc.name };
+    },
+    summarize: (_args, result) => `check("${result.name}")`
+});
+
+export const uncheckTool = defineTool({
+    name: 'uncheck',
+    description: 'Uncheck a checkbox or switch (no-op if it is already unchecked)',
+    affectsPage: true,
+    parameters: z.object({
+        elementId: elementId('checkbox or switch')
+    }),
+    handler: async ({ elementId }, { browser, getElement }) => {
+        const elementDesc = getElement(elementId);
+        await browser.setChecked(elementDesc.selector, false);
+        console.log(`[AGENT] Unchecked element ${elementId}: ${elementDesc.name}`);
+        return { name: elementDesc.name };
+    },
+    summarize: (_args, result) => `uncheck("${result.name}")`
+});
+
+export const fillFormTool = defineTool({
+    name: 'fill_form',
+    description: 'Fill several form fields in one call: text inputs are typed into, checkboxes/switches/radios are set, dropdowns get the option selected',
+    affectsPage: true,
+    parameters: z.object({
+        fields: z.record(
+            z.string().regex(/^\d+$/),
+            z.union([z.string(), z.boolean(), z.array(z.string())])
+        ).describe('Map of element ID (from the page content brackets [number]) → value. Use true/false for checkboxes, an array for multi-selects.')
+    }),
+    handler: async ({ fields }, { browser, getElement, cancellation }) => {
+        const filled: string[] = [];
+        const failed: string[] = [];
+
+        for (const [id, value] of Object.entries(fields)) {
+            cancellation.throwIfCancelled();
+            try {
+                const elementDesc = getElement(Number(id));
+                if (['checkbox', 'radio', 'switch'].includes(elementDesc.role)) {
+                    await browser.setChecked(elementDesc.selector, value === true || value === 'true');
+                } else if (elementDesc.role === 'combobox' || elementDesc.role === 'listbox' || Array.isArray(value)) {
+                    const values = Array.isArray(value) ? value : [String(value)];
+                    try {
+                        await browser.selectOption(elementDesc.selector, values);
+                    } catch (error) {
+                        // Editable comboboxes (autocomplete inputs) take typed text instead
+                        if (elementDesc.role !== 'combobox' || Array.isArray(value)) throw error;
+                        await browser.type(elementDesc.selector, String(value));
+                    }
+                } else {
+                    await browser.type(elementDesc.selector, String(value));
+                }
+                filled.push(`"${elementDesc.name}"`);
+            } catch (error) {
+                failed.push(`[${id}]: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }
+
+        console.log(`[AGENT] Filled form fields: ${filled.join(', ')}${failed.length > 0 ? ` (failed: ${failed.join('; ')})` : ''}`);
+        if (filled.length === 0) {
+            throw new Error(`No fields could be filled. ${failed.join('; ')}`);
+        }
+        return { filled, failed };
+    },
+    summarize: (_args, result) =>
+        `fill_form(${result.filled.join(', ')})${result.failed.length > 0 ? ` → failed ${result.failed.join('; ')}` : ''}`
+});
+
+export const switchTabTool = defineTool({
+    name: 'switch_tab',
+    description: 'Switch to another open browser tab (see Open Tabs). New tabs and popups are switched to automatically.',
+    affectsPage: true,
+    parameters: z.object({
+        tabId: z.number().describe('The ID of the tab to switch to')
+    }),
+    handler: async ({ tabId }, { browser }) => {
+        await browser.switchTab(tabId);
+        const page = browser.getPage();
+        console.log(`[AGENT] Switched to tab ${tabId}`);
+        return { url: page ? page.url() : '' };
+    },
+    summarize: ({ tabId }, result) => `switch_tab(${tabId}) → ${result.url}`
+});
+
+export const closeTabTool = defineTool({
+    name: 'close_tab',
+    description: 'Close a browser tab (default: the current one) and return to the previous tab, e.g. after finishing in a popup',
+    affectsPage: true,
+    parameters: z.object({
+        tabId: z.number().optional().describe('The ID of the tab to close (default: current tab)')
+    }),
+    handler: async ({ tabId }, { browser }) => {
+        const closedId = tabId ?? browser.getActiveTabId();
+        await browser.closeTab(tabId);
+        console.log(`[AGENT] Closed tab ${closedId}`);
+        return { closedId, activeId: browser.getActiveTabId() };
+    },
+    summarize: (_args, result) => `close_tab(${result.closedId}) → now on tab ${result.activeId}`
+});
+
+export const expandSectionTool = defineTool({
+    name: 'expand_section',
+    description: 'Show a collapsed or truncated part of the page in full, using the section ID from expand_section("...") hints in the page content',
+    parameters: z.object({
+        sectionId: z.string().min(1).describe('The section ID, e.g. "list-2" or "navigation-1"')
+    }),
+    handler: async ({ sectionId }, { browser }) => {
+        if (!browser.expandSection(sectionId)) {
+            throw new Error(`Section "${sectionId}" is not on the current page. Use a section ID from the latest page content.`);
+        }
+        console.log(`[AGENT] Expanded section ${sectionId}`);
+    },
+    summarize: ({ sectionId }) => `expand_section("${sectionId}") → shown in full from the next observation`
+});
+
+export const browserTools = [
+    clickTool,
+    clickAtTool,
+    typeTool,
+    enterTool,
+    gotoTool,
+    goBackTool,
+    scrollTool,
+    hoverTool,
+    selectOptionTool,
+    pressKeyTool,
+    checkTool,
+    uncheckTool,
+    fillFormTool,
+    switchTabTool,
+    closeTabTool,
+    expandSectionTool
+];
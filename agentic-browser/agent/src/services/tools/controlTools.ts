@@ -0,0 +1,51 @@
+import { z } from 'zod/v4';
+import { defineTool } from './types';
+
+export const manualInterventionTool = defineTool({
+    name: 'manual_intervention',
+    description: 'Request human intervention for tasks that require human input (login pages, CAPTCHAs, etc.)',
+    parameters: z.object({
+        reason: z.string().describe('Explanation of why manual intervention is needed'),
+        suggestion: z.string().describe('What the human should do to help')
+    }),
+    handler: async ({ reason, suggestion }, { sendResponse, getCurrentUrl, pauseForManualIntervention }) => {
+        console.log(`[AGENT] Manual intervention requested: ${reason}`);
+        console.log(`[AGENT] Suggestion: ${suggestion}`);
+        console.log(`[AGENT] Pausing agent processing until intervention is complete`);
+
+        // Pause the agent processing
+        pauseForManualIntervention();
+
+        sendResponse('manual_intervention', {
+            reasoning: reason,
+            suggestion: suggestion,
+            currentUrl: getCurrentUrl() || 'Unknown URL',
+            timestamp: Date.now()
+        });
+    },
+    summarize: ({ reason }) => `manual_intervention("${reason}")`
+});
+
+export const stopTool = defineTool({
+    name: 'stop',
+    description: 'REQUIRED: Call this when the task is complete. Use instead of conversational responses.',
+    parameters: z.object({
+        answer: z.string().describe('The final answer, result, or confirmation of what was accomplished')
+    }),
+    handler: async ({ answer }, { planner, sendResponse, markComplete }) => {
+        markComplete();
+        const finalAnswer = answer || 'Task completed';
+        console.log(`[AGENT] Stopped: ${finalAnswer}`);
+        const extraction = planner.getExtraction();
+        sendResponse('agent_complete', {
+            status: 'success',
+            answer: finalAnswer,
+            ...(extraction && { extraction }),
+            planSummary: planner.getSummary(),
+            planDetails: planner.getDetailedSummary()
+        });
+    },
+    summarize: ({ answer }) => `stop("${answer}")`
+});
+
+export const controlTools = [manualInterventionTool, stopTool];
@@ -0,0 +1,44 @@
+import { z } from 'zod/v4';
+import { defineTool } from './types';
+import { recordSchema, validateAgainstSchema } from '../extraction';
+
+/** Validation errors reported back per rejected record, so the model can fix them */
+const MAX_REPORTED_ERRORS = 3;
+
+export const extractTool = defineTool({
+    name: 'extract',
+    description: 'Save structured data read from the page. Each record must match the extraction schema given with the task (if any). Records accumulate across calls and pages and are delivered with the final result, so call this on every page that has new data and only resubmit records that were rejected.',
+    parameters: z.object({
+        records: z.array(z.unknown()).min(1)
+            .describe('Records to save, each one JSON value matching the extraction schema (usually an object)')
+    }),
+    handler: async ({ records }, { planner }) => {
+        const schema = planner.getExtractionSchema();
+        const itemSchema = schema ? recordSchema(schema) : null;
+
+        const accepted: unknown[] = [];
+        const rejected: string[] = [];
+        records.forEach((record, index) => {
+            const errors = itemSchema ? validateAgainstSchema(record, itemSchema) : [];
+            if (errors.length === 0) {
+                accepted.push(record);
+            } else {
+                rejected.push(`record ${index}: ${errors.slice(0, MAX_REPORTED_ERRORS).join('; ')}`);
+            }
+        });
+
+        const total = accepted.length > 0 ? planner.addExtracted(accepted) : planner.getExtraction()?.records.length ?? 0;
+        console.log(`[AGENT] Extracted ${accepted.length} record(s), rejected ${rejected.length}, ${total} in total`);
+        return { saved: accepted.length, rejected, total };
+    },
+    summarize: ({ records }, result) => {
+        let summary = `extract(${records.length} record${records.length === 1 ? '' : 's'}) → saved ${result.saved} (${result.total} total)`;
+        if (result.rejected.length > 0) {
+            summary += `; rejected ${result.rejected.join(' | ')}`;
+        }
+        return summary;
+    },
+    failed: result => result.saved === 0
+});
+
+export const extractionTools = [extractTool];
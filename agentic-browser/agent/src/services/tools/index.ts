@@ -0,0 +1,43 @@
+import path from 'path';
+import { ToolRegistry } from './registry';
+import { AgentTool } from './types';
+import { browserTools } from './browserTools';
+import { planningTools } from './planningTools';
+import { controlTools } from './controlTools';
+import { extractionTools } from './extractionTools';
+
+export * from './types';
+export { ToolRegistry };
+export { browserTools, planningTools, controlTools, extractionTools };
+
+/**
+ * Load tool plugins: modules exporting `tools: AgentTool[]` (or a default export of the same).
+ * Paths are resolved relative to the working directory.
+ */
+export function loadToolPlugins(registry: ToolRegistry, modulePaths: string[]): void {
+    for (const modulePath of modulePaths) {
+        try {
+            const plugin = require(path.resolve(modulePath));
+            const tools: AgentTool<any, any>[] = plugin.tools || plugin.default || [];
+            registry.registerAll(tools);
+            console.log(`[TOOLS] Loaded ${tools.length} tool(s) from ${modulePath}: ${tools.map(t => t.name).join(', ')}`);
+        } catch (error) {
+            console.error(`[TOOLS] Failed to load tool plugin ${modulePath}:`, error);
+        }
+    }
+}
+
+/**
+ * Registry with the built-in tools plus any plugins listed in AGENT_TOOL_PLUGINS (comma-separated).
+ */
+export function createDefaultToolRegistry(): ToolRegistry {
+    const registry = new ToolRegistry();
+    registry.registerAll([...browserTools, ...planningTools, ...extractionTools, ...controlTools]);
+
+    const plugins = (process.env.AGENT_TOOL_PLUGINS || '').split(',').map(p => p.trim()).filter(Boolean);
+    if (plugins.length > 0) {
+        loadToolPlugins(registry, plugins);
+    }
+
+    return registry;
+}
@@ -0,0 +1,122 @@
+import { z } from 'zod/v4';
+import { defineTool } from './types';
+
+const subgoalId = (description: string) => z.string().describe(description);
+
+export const branchTool = defineTool({
+    name: 'branch',
+    description: 'Add one or multiple sub-goals to break down complex tasks. Without placement options, the new sub-goals are nested under the CURRENT subgoal (or added at the top level when nothing is in progress) and the first one becomes CURRENT.',
+    parameters: z.object({
+        subgoals: z.array(z.string()).min(1)
+            .describe('Array of sub-goal descriptions to add (each will be created with PENDING status)'),
+        parent_id: subgoalId('Optional subgoal ID (e.g. "S2") to nest the new sub-goals under').optional(),
+        after_id: subgoalId('Optional subgoal ID to insert the new sub-goals after, as its siblings').optional()
+    }),
+    handler: async ({ subgoals, parent_id, after_id }, { planner, getCurrentUrl }) => {
+        const newSubgoals = subgoals.filter(sg => sg.trim());
+        if (newSubgoals.length === 0) {
+            throw new Error('Branch called but no valid subgoals provided');
+        }
+
+        const result = planner.addSubgoals(newSubgoals, getCurrentUrl(), { parentId: parent_id, afterId: after_id });
+        if (result.added.length === 0) {
+            console.log(`[AGENT] Failed to add subgoals: ${result.error}`);
+            return { labels: [], placement: '', error: result.error };
+        }
+
+        const labels = result.added.map(sg => `${sg.id}: ${sg.description}`);
+        const placement = after_id ? ` after ${after_id}` : result.added[0].parentId ? ` under ${result.added[0].parentId}` : '';
+        console.log(`[AGENT] Branched to ${newSubgoals.length} subgoal${newSubgoals.length > 1 ? 's' : ''}${placement}: [${labels.join(', ')}]`);
+
+        const currentSubgoal = planner.getCurrentSubgoal();
+        console.log(`[AGENT] Current subgoal: ${currentSubgoal ? `${currentSubgoal.id}: ${currentSubgoal.description}` : 'none'}`);
+
+        return { labels, placement, error: null };
+    },
+    summarize: (_args, result) =>
+        result.error ? `branch() → failed: ${result.error}` : `branch([${result.labels.join(', ')}])${result.placement}`,
+    failed: result => result.error !== null
+});
+
+export const completeSubgoalTool = defineTool({
+    name: 'complete_subgoal',
+    description: 'Mark the CURRENT subgoal as COMPLETED and automatically advance to the next PENDING subgoal (making it CURRENT). Use when you have successfully finished the current step. Can also mark a step FAILED, or SKIP a pending step.',
+    parameters: z.object({
+        status: z.enum(['completed', 'failed', 'skipped']).optional()
+            .describe('How the subgoal ended (default: completed)'),
+        subgoal_id: subgoalId('Optional subgoal ID to finish instead of the CURRENT one (e.g. to skip a PENDING step)').optional()
+    }),
+    handler: async ({ status = 'completed', subgoal_id }, { planner, getCurrentUrl }) => {
+        const result = planner.completeCurrentSubgoal(getCurrentUrl(), status, subgoal_id);
+        if (!result.completed) {
+            console.log(`[AGENT] Could not complete subgoal: ${result.error}`);
+        } else if (result.next) {
+            console.log(`[AGENT] Marked subgoal ${status}: ${result.completed}, now working on: ${result.next}`);
+        } else if (result.allCompleted) {
+            console.log(`[AGENT] Finished final subgoal! All subgoals done.`);
+        }
+        return result;
+    },
+    summarize: ({ status = 'completed' }, result) => {
+        if (!result.completed) return `complete_subgoal() → failed: ${result.error}`;
+
+        const label = status === 'completed' ? 'complete_subgoal()' : `complete_subgoal(${status})`;
+        if (result.next) return `${label} → now on: ${result.next}`;
+        if (result.allCompleted) return `${label} → all subgoals finished`;
+        return `${label} → ${result.completed}`;
+    },
+    failed: result => !result.completed
+});
+
+export const pruneTool = defineTool({
+    name: 'prune',
+    description: 'Abandon the CURRENT subgoal and its nested steps because the approach hit a dead end. The subgoal is removed, the browser returns to the page where the subgoal started, and the next PENDING sibling becomes CURRENT (or the parent subgoal, so an alternative can be planned).',
+    parameters: z.object({
+        reason: z.string().describe('Why this subgoal is being abandoned (recorded so the approach is not retried)'),
+        restore_state: z.boolean().optional()
+            .describe('Navigate back to the URL the subgoal started on (default: true)'),
+        subgoal_id: subgoalId('Optional ID of a CURRENT ancestor subgoal to prune the whole branch from').optional()
+    }),
+    handler: async ({ reason, restore_state, subgoal_id }, { planner, browser, getCurrentUrl }) => {
+        const result = planner.pruneCurrentSubgoal(reason, getCurrentUrl(), subgoal_id);
+        if (!result.pruned) {
+            console.log(`[AGENT] Prune failed: ${result.error}`);
+            return { ...result, restored: false };
+        }
+
+        console.log(`[AGENT] Pruned subgoal: ${result.pruned} (${reason})`);
+
+        let restored = false;
+        if (restore_state !== false && result.restoreUrl && result.restoreUrl !== getCurrentUrl()) {
+            await browser.goto(result.restoreUrl);
+            console.log(`[AGENT] Restored browser to: ${result.restoreUrl}`);
+            restored = true;
+        }
+
+        return { ...result, restored };
+    },
+    summarize: ({ reason }, result) => {
+        if (!result.pruned) return `prune() → failed: ${result.error}`;
+
+        let summary = `prune("${result.pruned}", "${reason}")`;
+        if (result.restored) summary += ` → restored ${result.restoreUrl}`;
+        summary += result.next ? ` → now on: ${result.next}` : ` → no subgoals left`;
+        return summary;
+    },
+    failed: result => !result.pruned
+});
+
+export const noteTool = defineTool({
+    name: 'note',
+    description: 'Record an important observation or piece of information',
+    parameters: z.object({
+        message: z.string().min(1).describe('The observation or information to record')
+    }),
+    handler: async ({ message }, { planner }) => {
+        planner.addNote(message);
+        console.log(`[AGENT] Noted: ${message}`);
+    },
+    summarize: ({ message }) => `note(${message})`
+});
+
+export const planningTools = [branchTool, completeSubgoalTool, pruneTool, noteTool];
@@ -0,0 +1,84 @@
+import { z } from 'zod/v4';
+import { ToolDefinition } from '../providers';
+import { AgentTool, ToolValidationResult } from './types';
+
+/**
+ * Holds every tool the agent exposes. The LLM tool list and dispatch are both derived from it,
+ * so adding an action only means registering one more tool.
+ */
+export class ToolRegistry {
+    private tools: Map<string, AgentTool<any, any>> = new Map();
+
+    register(tool: AgentTool<any, any>): void {
+        if (this.tools.has(tool.name)) {
+            console.warn(`[TOOLS] Replacing existing tool: ${tool.name}`);
+        }
+        this.tools.set(tool.name, tool);
+    }
+
+    registerAll(tools: AgentTool<any, any>[]): void {
+        tools.forEach(tool => this.register(tool));
+    }
+
+    unregister(name: string): boolean {
+        return this.tools.delete(name);
+    }
+
+    get(name: string): AgentTool<any, any> | undefined {
+        return this.tools.get(name);
+    }
+
+    getNames(): string[] {
+        return Array.from(this.tools.keys());
+    }
+
+    // Convert the registered tools to the OpenAI function-calling format
+    buildToolDefinitions(): ToolDefinition[] {
+        return Array.from(this.tools.values()).map(tool => {
+            const { $schema, ...parameters } = z.toJSONSchema(tool.parameters) as Record<string, unknown>;
+            return {
+                type: 'function',
+                function: {
+                    name: tool.name,
+                    description: tool.description,
+                    parameters
+                }
+            };
+        });
+    }
+
+    // Validate raw tool-call arguments from the LLM against the tool's schema
+    validate(name: string, args: unknown): ToolValidationResult {
+        const tool = this.tools.get(name);
+        if (!tool) {
+            return {
+                success: false,
+                message: `Unknown tool "${name}". Available tools: ${this.getNames().join(', ')}`,
+                issues: []
+            };
+        }
+
+        if (typeof args === 'string') {
+            return {
+                success: false,
+                message: `Arguments for ${name} are not valid JSON: ${args.slice(0, 200)}`,
+                issues: [{ path: '', message: 'Expected a JSON object' }]
+            };
+        }
+
+        const parsed = (tool.parameters as z.ZodObject).safeParse(args ?? {});
+        if (!parsed.success) {
+            const issues = parsed.error.issues.map(issue => ({
+                path: issue.path.map(String).join('.'),
+                message: issue.message
+            }));
+            return {
+                success: false,
+                message: `Invalid arguments for ${name}: ${issues.map(i => (i.path ? `${i.path}: ${i.message}` : i.message)).join('; ')}`,
+                issues
+            };
+        }
+
+        return { success: true, tool, args: parsed.data };
+    }
+}
@@ -0,0 +1,67 @@
+import { z } from 'zod/v4';
+import { BrowserService, ClickStrategy, ElementDescriptor } from '../browser';
+import { Planner } from '../planner';
+import { CancellationToken } from '../cancellation';
+
+/**
+ * What a tool handler can reach while it runs.
+ */
+export interface ToolContext {
+    browser: BrowserService;
+    planner: Planner;
+    sendResponse: (type: string, payload: any) => void;
+    /** Resolve an element ID from the latest observation (throws if it is not on the page) */
+    getElement(elementId: number): ElementDescriptor;
+    getCurrentUrl(): string | undefined;
+    /** End the current instruction; the loop stops after this tool */
+    markComplete(): void;
+    /** Pause the loop until the user reports that manual intervention is done */
+    pauseForManualIntervention(): void;
+    retryPolicy: RetryPolicy;
+    /** Cancelled when the user stops the instruction; check it between attempts of long-running tools */
+    cancellation: CancellationToken;
+}
+
+/**
+ * How page actions are verified and retried.
+ */
+export interface RetryPolicy {
+    /** Click strategies tried in order until one performs the click without an error */
+    clickStrategies: ClickStrategy[];
+    /** Upper bound on waiting for the page to settle after an action (ms) */
+    settleTimeoutMs: number;
+}
+
+/**
+ * A tool the LLM can call. The zod schema is the single source of truth: it
+ * generates the JSON schema sent to the model and validates the arguments we get back.
+ */
+export interface AgentTool<P extends z.ZodObject = z.ZodObject, R = unknown> {
+    name: string;
+    description: string;
+    parameters: P;
+    handler: (args: z.infer<P>, context: ToolContext) => Promise<R>;
+    /** One-line entry for the action history, e.g. `click("Search") → success` */
+    summarize: (args: z.infer<P>, result: R) => string;
+    /** Whether a returned result is a refusal (e.g. an invalid subgoal ID); reported to the model as an error */
+    failed?: (result: R) => boolean;
+    /** Acts on the page: the agent waits for the page to settle afterwards and checks it for error messages */
+    affectsPage?: boolean;
+    /** The handler already waits for the page to settle (to judge the action's effect), so the agent does not wait again */
+    settlesPage?: boolean;
+}
+
+export interface ToolValidationIssue {
+    /** Dotted path of the offending argument ("" for the arguments object itself) */
+    path: string;
+    message: string;
+}
+
+export type ToolValidationResult =
+    | { success: true; tool: AgentTool<any, any>; args: any }
+    | { success: false; message: string; issues: ToolValidationIssue[] };
+
+/** Identity helper so handler/summarize arguments are inferred from the schema */
+export function defineTool<P extends z.ZodObject, R>(tool: AgentTool<P, R>): AgentTool<P, R> {
+    return tool;
+}
@@ -0,0 +1,62 @@
+export type ImageDetail = 'low' | 'high' | 'auto';
+
+export interface VisionConfig {
+    /** Attach an annotated screenshot to every step */
+    enabled: boolean;
+    /** Image detail requested from the model; 'low' is a fixed, small cost */
+    detail: ImageDetail;
+    /** Estimated image tokens allowed per instruction before falling back to text-only */
+    tokenBudget: number;
+    /** JPEG quality of the screenshots (1-100) */
+    quality: number;
+}
+
+/** A screenshot attached to a step, with its estimated token cost */
+export interface StepImage {
+    /** data: URL of the JPEG */
+    dataUrl: string;
+    detail: ImageDetail;
+    tokens: number;
+}
+
+const DETAILS: ImageDetail[] = ['low', 'high', 'auto'];
+
+/**
+ * Resolve vision settings from explicit overrides, then environment variables, then defaults.
+ */
+export function resolveVisionConfig(overrides: Partial<VisionConfig> = {}, base?: VisionConfig): VisionConfig {
+    const envDetail = process.env.AGENT_VISION_DETAIL as ImageDetail | undefined;
+    const config: VisionConfig = {
+        enabled: overrides.enabled ?? base?.enabled ?? process.env.AGENT_VISION === 'true',
+        detail: overrides.detail ?? base?.detail ?? (envDetail && DETAILS.includes(envDetail) ? envDetail : 'auto'),
+        tokenBudget: overrides.tokenBudget ?? base?.tokenBudget ?? parseInt(process.env.AGENT_VISION_TOKEN_BUDGET || '40000', 10),
+        quality: overrides.quality ?? base?.quality ?? 60
+    };
+
+    if (!DETAILS.includes(config.detail)) {
+        throw new Error(`Unknown image detail "${config.detail}". Use one of: ${DETAILS.join(', ')}`);
+    }
+    if (!Number.isFinite(config.tokenBudget) || config.tokenBudget <= 0) {
+        throw new Error(`Vision token budget must be a positive number`);
+    }
+    if (!Number.isFinite(config.quality) || config.quality < 1 || config.quality > 100) {
+        throw new Error(`Screenshot quality must be between 1 and 100`);
+    }
+
+    return config;
+}
+
+/**
+ * Estimate the input tokens of an image using the tile-based accounting of OpenAI vision models:
+ * 85 base tokens, plus 170 per 512px tile after fitting into 2048x2048 and scaling the short side to 768px.
+ * Other providers price images similarly enough for a budget guard.
+ */
+export function estimateImageTokens(width: number, height: number, detail: ImageDetail): number {
+    if (detail === 'low') return 85;
+
+    const fit = Math.min(1, 2048 / Math.max(width, height));
+    const shrink = Math.min(1, 768 / (Math.min(width, height) * fit));
+    const scale = fit * shrink;
+    const tiles = Math.ceil((width * scale) / 512) * Math.ceil((height * scale) / 512);
+    return 85 + 170 * tiles;
+}
@@ -0,0 +1,115 @@
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import { WebSocketHandlers } from './handlers';
+import { BrowserService } from '../services/browser';
+import { BrowserPool } from '../services/browserPool';
+import { ProfileStore } from '../services/profileStore';
+import { TokenVerifier } from '../services/auth';
+import { resolveLaunchConfig } from '../services/launchConfig';
+
+jest.mock('../services/browser');
+jest.mock('../services/agent');
+
+class FakeSocket extends EventEmitter {
+  readyState: number = WebSocket.OPEN;
+  sent: any[] = [];
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(): void {
+    this.readyState = WebSocket.CLOSED;
+    this.emit('close');
+  }
+
+  // Session ID from the first connection or session_resumed message
+  sessionId(): string | undefined {
+    return this.sent.find(message => message.type === 'connection' || message.type === 'session_resumed')?.payload.sessionId;
+  }
+}
+
+// Tokens are the user IDs themselves
+const auth = { isEnabled: () => true, verify: async (token: string) => ({ id: token }) } as unknown as TokenVerifier;
+
+describe('WebSocketHandlers', () => {
+  let handlers: WebSocketHandlers;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.mocked(BrowserService.prototype).getLaunchConfig.mockReturnValue(resolveLaunchConfig({ startUrl: 'about:blank' }));
+    jest.mocked(BrowserService.prototype).getTabs.mockResolvedValue([]);
+    handlers = new WebSocketHandlers({} as BrowserPool, {} as ProfileStore, auth);
+  });
+
+  afterEach(async () => {
+    await handlers.closeAll();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  const connect = async (handshake?: object): Promise<FakeSocket> => {
+    const socket = new FakeSocket();
+    handlers.handleConnection(socket as unknown as WebSocket);
+    if (handshake) socket.emit('message', Buffer.from(JSON.stringify({ type: 'resume_session', payload: handshake })));
+    await jest.advanceTimersByTimeAsync(0);
+    return socket;
+  };
+
+  it('starts a session once the client has had time for a handshake', async () => {
+    const socket = await connect();
+    expect(socket.sent).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(socket.sent[0]).toMatchObject({ type: 'connection', payload: { resumed: false } });
+    expect(handlers.getSessionCount()).toBe(1);
+  });
+
+  it('resumes a session after a reconnect', async () => {
+    const first = await connect({ token: 'auth0|ann' });
+    const sessionId = first.sessionId();
+    first.close();
+
+    const second = await connect({ sessionId, lastEventId: 0, token: 'auth0|ann' });
+
+    expect(second.sent[0]).toMatchObject({ type: 'session_resumed', payload: { sessionId, resumed: true } });
+    expect(handlers.getSessionCount()).toBe(1);
+  });
+
+  it('starts a new session for unknown session IDs', async () => {
+    const socket = await connect({ sessionId: 'session_gone' });
+
+    expect(socket.sent[0]).toMatchObject({ type: 'connection', payload: { resumed: false } });
+    expect(socket.sessionId()).not.toBe('session_gone');
+  });
+
+  it('does not hand a signed-in user\'s session to someone else', async () => {
+    const first = await connect({ token: 'auth0|ann' });
+    const sessionId = first.sessionId();
+    first.close();
+
+    const anonymous = await connect({ sessionId });
+    const other = await connect({ sessionId, token: 'auth0|bob' });
+
+    expect(anonymous.sent[0].type).toBe('connection');
+    expect(other.sent[0].type).toBe('connection');
+    expect([anonymous.sessionId(), other.sessionId()]).not.toContain(sessionId);
+  });
+
+  it('forgets sessions whose grace period ran out', async () => {
+    const first = await connect();
+    await jest.advanceTimersByTimeAsync(5000);
+    const sessionId = first.sessionId();
+    first.close();
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(handlers.getSessionCount()).toBe(0);
+    const second = await connect({ sessionId });
+
+    expect(second.sent[0].type).toBe('connection');
+    expect(second.sessionId()).not.toBe(sessionId);
+  });
+});
@@ -1,28 +1,46 @@
 import WebSocket from 'ws';
-import { Session } from '../services/session';
+import { Session, SessionHandshake } from '../services/session';
+import { BrowserPool } from '../services/browserPool';
+import { ProfileStore } from '../services/profileStore';
+import { TokenVerifier, UserIdentity } from '../services/auth';
+import { LaunchConfigOverrides } from '../services/launchConfig';
 
 export interface WebSocketMessage {
   type: string;
   payload: any;
   timestamp: string;
+  /** Sequence number of replayable session events; clients send the last one they saw to resume */
+  eventId?: number;
 }
 
+/**
+ * How long a new connection may take to send `resume_session` before it gets a fresh session.
+ * A later handshake still replaces that session as long as the client has not used it.
+ */
+const HANDSHAKE_TIMEOUT_MS = parseInt(process.env.AGENT_HANDSHAKE_TIMEOUT_MS || '5000', 10);
+/** Sessions with no client activity and no running instruction for this long are closed (0 disables) */
+const SESSION_IDLE_MS = parseInt(process.env.AGENT_SESSION_IDLE_MS || '900000', 10);
+const IDLE_CHECK_INTERVAL_MS = 30000;
+
 export class WebSocketHandlers {
   private clients: Map<WebSocket, Session> = new Map();
+  // Sessions outlive their sockets for a grace period so a reconnecting client can resume them
+  private sessions: Map<string, Session> = new Map();
+  private pendingHandshakes: Map<WebSocket, NodeJS.Timeout> = new Map();
+  private idleReaper: NodeJS.Timeout | null = null;
+
+  constructor(private pool: BrowserPool, private profiles: ProfileStore, private auth: TokenVerifier) {
+    if (SESSION_IDLE_MS > 0) {
+      this.idleReaper = setInterval(() => this.reapIdleSessions(), Math.min(IDLE_CHECK_INTERVAL_MS, SESSION_IDLE_MS));
+      this.idleReaper.unref();
+    }
+  }
 
   handleConnection(ws: WebSocket): void {
     console.log('[WS] New client connected');
-    
-    // Create a session for this connection
-    const session = new Session(ws);
-    
-    this.clients.set(ws, session);
 
-    // Send initial connection confirmation
-    session.sendResponse('connection', { 
-      status: 'connected',
-      sessionId: session.getSessionId()
-    });
+    // Clients that never send a handshake get a new session after a short wait
+    this.pendingHandshakes.set(ws, setTimeout(() => this.startSession(ws), HANDSHAKE_TIMEOUT_MS));
 
     ws.on('message', (data) => {
       this.handleMessage(ws, data);
@@ -30,11 +48,13 @@ export class WebSocketHandlers {
 
     ws.on('close', () => {
       console.log('[WS] Client disconnected');
+      this.endHandshake(ws);
       this.clients.delete(ws);
     });
 
     ws.on('error', (error) => {
       console.error('[WS] WebSocket error:', error);
+      this.endHandshake(ws);
       this.clients.delete(ws);
     });
   }
@@ -43,8 +63,14 @@ export class WebSocketHandlers {
     try {
       const message: WebSocketMessage = JSON.parse(data.toString());
       console.log('[WS] Received message:', message.type);
-      
-      const session = this.clients.get(ws);
+
+      if (message.type === 'resume_session') {
+        await this.resumeSession(ws, message.payload || {});
+        return;
+      }
+
+      // Anything else before the handshake starts a new session right away
+      const session = this.clients.get(ws) || this.startSession(ws);
       if (session) {
         await session.onInstruction(message);
       }
@@ -53,6 +79,97 @@ export class WebSocketHandlers {
     }
   }
 
+  /**
+   * The connection handshake: resume `sessionId` if it is still around, otherwise start a new
+   * session with the requested `launchConfig` and `profile` (a resumed session keeps the browser
+   * it has). `token` identifies the signed-in user; without a valid one the client is anonymous.
+   */
+  private async resumeSession(
+    ws: WebSocket,
+    { sessionId, lastEventId, launchConfig, token, profile }: {
+      sessionId?: string;
+      lastEventId?: number;
+      launchConfig?: LaunchConfigOverrides;
+      token?: string;
+      profile?: string | null;
+    }
+  ): Promise<void> {
+    const user = await this.authenticate(token);
+    // The socket may have closed, or timed out into a session, while the token was checked
+    if (ws.readyState !== WebSocket.OPEN) return;
+
+    const current = this.clients.get(ws);
+    if (current) {
+      if (!current.isUnused()) {
+        console.warn('[WS] resume_session ignored: connection already has a session');
+        return;
+      }
+      // Slow handshake: the session started when it timed out has not been used, so replace it
+      console.log(`[WS] Late handshake, replacing unused session ${current.getSessionId()}`);
+      this.clients.delete(ws);
+      current.discard().catch(error => console.error('[WS] Error discarding session:', error));
+    }
+
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || session.isClosed()) {
+      if (sessionId) console.log(`[WS] Session ${sessionId} is gone, starting a new one`);
+      this.startSession(ws, { launchConfig, user, profile });
+      return;
+    }
+    // A session holds its user's logged-in browser, so nobody else may take it over
+    if (session.getUserId() !== null && session.getUserId() !== user?.id) {
+      console.warn(`[WS] Session ${sessionId} belongs to another user, starting a new one`);
+      this.startSession(ws, { launchConfig, user, profile });
+      return;
+    }
+
+    this.endHandshake(ws);
+    this.clients.set(ws, session);
+    await session.resume(ws, typeof lastEventId === 'number' ? lastEventId : 0);
+  }
+
+  // Verified user behind a handshake token; a bad token is logged and the client treated as anonymous
+  private async authenticate(token: unknown): Promise<UserIdentity | null> {
+    if (typeof token !== 'string' || !token || !this.auth.isEnabled()) return null;
+    try {
+      return await this.auth.verify(token);
+    } catch (error) {
+      console.warn('[WS] Rejected access token:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  private startSession(ws: WebSocket, handshake: SessionHandshake = {}): Session | undefined {
+    this.endHandshake(ws);
+    if (ws.readyState !== WebSocket.OPEN) return undefined;
+
+    const session = new Session(ws, this.pool, this.profiles, handshake, (expired) => {
+      this.sessions.delete(expired.getSessionId());
+      console.log(`[WS] Session ${expired.getSessionId()} expired`);
+    });
+    this.sessions.set(session.getSessionId(), session);
+    this.clients.set(ws, session);
+    return session;
+  }
+
+  // Free the browsers of sessions nobody has used for a while
+  private reapIdleSessions(): void {
+    for (const session of this.sessions.values()) {
+      if (!session.isClosed() && session.getIdleMs() >= SESSION_IDLE_MS) {
+        console.log(`[WS] Reaping idle session ${session.getSessionId()}`);
+        session.expire('Session closed after inactivity');
+      }
+    }
+  }
+
+  private endHandshake(ws: WebSocket): void {
+    const timer = this.pendingHandshakes.get(ws);
+    if (timer) {
+      clearTimeout(timer);
+      this.pendingHandshakes.delete(ws);
+    }
+  }
+
   sendMessage(ws: WebSocket, message: WebSocketMessage): void {
     if (ws.readyState === WebSocket.OPEN) {
       ws.send(JSON.stringify(message));
@@ -62,4 +179,14 @@ export class WebSocketHandlers {
   getConnectedClientsCount(): number {
     return this.clients.size;
   }
-} 
\ No newline at end of file
+
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  // Tear down every session (server shutdown)
+  async closeAll(): Promise<void> {
+    if (this.idleReaper) clearInterval(this.idleReaper);
+    await Promise.all(Array.from(this.sessions.values()).map(session => session.destroy()));
+  }
+}
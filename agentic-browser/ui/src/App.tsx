@@ -191,9 +191,17 @@ function AppContent() {
     setEnhancedInstructions(messages);
   }, [messages]);
 
-  const handleSendInstruction = () => {
-    if (currentInstruction.trim() && isConnected && !isProcessingInstruction) {
-      sendInstruction(currentInstruction);
+  // Sent while another task runs, the instruction is queued by the agent
+  const handleSendInstruction = (schema?: object) => {
+    if (currentInstruction.trim() && isConnected) {
+      sendInstruction(currentInstruction, false, schema);
+      setCurrentInstruction('');
+    }
+  };
+
+  const handleReplaceInstruction = (schema?: object) => {
+    if (currentInstruction.trim() && isConnected) {
+      sendInstruction(currentInstruction, true, schema);
       setCurrentInstruction('');
     }
   };
@@ -287,6 +295,7 @@ function AppContent() {
           currentInstruction={currentInstruction}
           setCurrentInstruction={setCurrentInstruction}
           handleSendInstruction={handleSendInstruction}
+          handleReplaceInstruction={handleReplaceInstruction}
           handleSendClarification={sendClarification}
           isConnected={isConnected}
           isProcessing={isProcessingInstruction}
@@ -1,5 +1,6 @@
 import React, { useRef, useEffect, useState, useCallback, memo } from 'react';
-import { useSession } from '../context/SessionContext';
+import { useSession, BrowserTab, BrowserProfile } from '../context/SessionContext';
+import LaunchSettings from './LaunchSettings';
 import MouseControlOverlay from './MouseControlOverlay';
 
 interface CanvasProps {
@@ -314,8 +315,94 @@ const URLBar = memo<{ currentUrl: string; pageTitle: string; isConnected: boolea
 
 URLBar.displayName = 'URLBar';
 
+// Tab strip shown when the browser has more than one tab open
+const TabStrip = memo<{ tabs: BrowserTab[]; onSwitch: (tabId: number) => void; onClose: (tabId: number) => void }>(({ tabs, onSwitch, onClose }) => {
+  if (tabs.length < 2) return null;
+
+  return (
+    <div className="flex items-center space-x-1 px-2 pt-1 border-b border-gray-700 bg-gray-900/40 overflow-x-auto w-full">
+      {tabs.map(tab => (
+        <div
+          key={tab.id}
+          className={`group flex items-center max-w-xs px-3 py-1 rounded-t-md text-xs cursor-pointer transition-all duration-200 ${
+            tab.active
+              ? 'bg-gray-700 text-gray-100 border border-b-0 border-gray-600'
+              : 'text-gray-400 hover:text-gray-200 hover:bg-gray-700/50'
+          }`}
+          onClick={() => !tab.active && onSwitch(tab.id)}
+          title={tab.url}
+        >
+          <span className="truncate">{tab.title || tab.url || 'New tab'}</span>
+          <button
+            className="ml-2 text-gray-500 hover:text-red-400 opacity-60 group-hover:opacity-100"
+            onClick={(e) => {
+              e.stopPropagation();
+              onClose(tab.id);
+            }}
+            title="Close tab"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+});
+
+TabStrip.displayName = 'TabStrip';
+
+const NEW_PROFILE_OPTION = '__new__';
+
+// Picks the saved profile (cookies and storage) the browser runs with
+const ProfileMenu = memo<{
+  profiles: BrowserProfile[];
+  selected: string | null;
+  disabled: boolean;
+  onSelect: (name: string | null) => void;
+  onDelete: (name: string) => void;
+}>(({ profiles, selected, disabled, onSelect, onDelete }) => {
+  const handleChange = (value: string) => {
+    if (value === NEW_PROFILE_OPTION) {
+      const name = window.prompt('Name for the new profile (letters, digits, "-" and "_")');
+      if (name && name.trim()) onSelect(name.trim());
+      return;
+    }
+    onSelect(value || null);
+  };
+
+  return (
+    <div className="flex items-center mr-2">
+      <select
+        className="bg-gray-800 border border-gray-600 text-gray-300 text-xs rounded px-1 py-1 max-w-[9rem] disabled:opacity-50"
+        value={selected || ''}
+        disabled={disabled}
+        onChange={(e) => handleChange(e.target.value)}
+        title={disabled ? 'Profiles cannot be switched while a task is running' : 'Browser profile: saved logins and site data'}
+      >
+        <option value="">No profile</option>
+        {profiles.map(profile => (
+          <option key={profile.name} value={profile.name}>{profile.name}</option>
+        ))}
+        <option value={NEW_PROFILE_OPTION}>+ New profile…</option>
+      </select>
+      {selected && (
+        <button
+          className="p-1 ml-1 text-gray-500 hover:text-red-400 rounded transition-all duration-200 hover:bg-gray-700/50 disabled:opacity-50"
+          disabled={disabled}
+          onClick={() => window.confirm(`Delete profile "${selected}" and its saved logins?`) && onDelete(selected)}
+          title="Delete this profile"
+        >
+          ×
+        </button>
+      )}
+    </div>
+  );
+});
+
+ProfileMenu.displayName = 'ProfileMenu';
+
 const BrowserPanel: React.FC = () => {
-  const { screenshotUrl, isConnected, currentUrl, pageTitle, isManualInterventionRequired, isProcessingInstruction, streamingInfo, dismissManualIntervention } = useSession();
+  const { screenshotUrl, isConnected, browserQueuePosition, sessionExpiredReason, currentUrl, pageTitle, isManualInterventionRequired, isProcessingInstruction, streamingInfo, dismissManualIntervention, tabs, switchTab, closeTab, visionMode, setVisionMode, profilesEnabled, profiles, selectedProfile, selectProfile, deleteProfile } = useSession();
   const [scale, setScale] = useState(1);
   const [mouseControlEnabled, setMouseControlEnabled] = useState(false);
   const [userToggledMouseControl, setUserToggledMouseControl] = useState(false);
@@ -375,10 +462,12 @@ const BrowserPanel: React.FC = () => {
             <div className="w-10 h-10 border-3 border-white border-t-transparent rounded-full animate-spin"></div>
           </div>
           <h3 className="text-xl font-semibold text-gray-200 mb-3">
-            Starting Browser Agent
+            {sessionExpiredReason ? 'Session Ended' : 'Starting Browser Agent'}
           </h3>
           <p className="text-gray-400 mb-4 leading-relaxed">
-            Initializing Playwright browser and loading the welcome experience...
+            {sessionExpiredReason
+              ? `${sessionExpiredReason}. Reload the page to start a new session.`
+              : 'Initializing Playwright browser and loading the welcome experience...'}
           </p>
           
           {/* Enhanced loading steps */}
@@ -431,10 +520,12 @@ const BrowserPanel: React.FC = () => {
             </svg>
           </div>
           <h3 className="text-xl font-semibold text-gray-200 mb-3">
-            Browser Connected!
+            {browserQueuePosition !== null ? 'Waiting for a Free Browser' : 'Browser Connected!'}
           </h3>
           <p className="text-gray-400 mb-4 leading-relaxed">
-            Browser is ready and welcome page is loading. You'll see the browser view in just a moment...
+            {browserQueuePosition !== null
+              ? `All browsers are busy right now. You are #${browserQueuePosition} in line and will be connected automatically.`
+              : "Browser is ready and welcome page is loading. You'll see the browser view in just a moment..."}
           </p>
           
           <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700/50">
@@ -481,6 +572,16 @@ const BrowserPanel: React.FC = () => {
         </div>
 
         <div className="flex items-center mr-4">
+          {profilesEnabled && (
+            <ProfileMenu
+              profiles={profiles}
+              selected={selectedProfile}
+              disabled={isProcessingInstruction}
+              onSelect={selectProfile}
+              onDelete={deleteProfile}
+            />
+          )}
+
           <button
             className={`p-1 text-gray-400 hover:text-gray-200 rounded transition-all duration-200 hover:bg-gray-700/50 ${
               isProcessingInstruction ? 'animate-pulse' : ''
@@ -492,6 +593,20 @@ const BrowserPanel: React.FC = () => {
               <path d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"></path>
             </svg>
           </button>
+
+          <button
+            className={`p-1 rounded ml-2 transition-all duration-300 ${visionMode
+              ? 'text-blue-400 bg-gradient-to-r from-blue-900/30 to-indigo-900/30 border border-blue-500/50 shadow-blue-400/20 shadow-lg'
+              : 'text-gray-400 hover:text-gray-200 hover:bg-gray-700/50'
+            }`}
+            onClick={() => setVisionMode(!visionMode)}
+            title={visionMode ? 'Vision mode on: the agent sees annotated screenshots (click to disable)' : 'Enable vision mode: send annotated screenshots to the agent'}
+          >
+            <svg className="w-5 h-5" fill="none" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" viewBox="0 0 24 24" stroke="currentColor">
+              <path d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"></path>
+              <path d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"></path>
+            </svg>
+          </button>
           
           <button
             className={`p-1 rounded ml-2 relative transition-all duration-300 ${mouseControlEnabled 
@@ -519,6 +634,8 @@ const BrowserPanel: React.FC = () => {
               </div>
             )}
           </button>
+
+          <LaunchSettings />
         </div>
 
         <div className="flex items-center space-x-2">
@@ -538,6 +655,8 @@ const BrowserPanel: React.FC = () => {
         </div>
       </div>
 
+      <TabStrip tabs={tabs} onSwitch={switchTab} onClose={closeTab} />
+
       <div className="flex-1 overflow-auto flex w-full">
         <MouseControlOverlay enabled={mouseControlEnabled} scale={scale}>
           <div style={{ transform: `scale(${scale})`, transformOrigin: 'top center' }} className="relative w-full min-w-full">
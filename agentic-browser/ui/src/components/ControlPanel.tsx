@@ -30,11 +30,22 @@ const LogsIcon = () => (
 
 type PanelType = 'instructions' | 'report' | 'logs';
 
+// Save data as a pretty-printed JSON file
+const downloadJson = (filename: string, data: unknown) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 interface ControlPanelProps {
   instructions: any[];
   currentInstruction: string;
   setCurrentInstruction: (value: string) => void;
-  handleSendInstruction: () => void;
+  handleSendInstruction: (schema?: object) => void;
+  handleReplaceInstruction?: (schema?: object) => void;
   handleSendClarification?: (instructionId: string, clarificationText: string, originalInstruction: string) => void;
   isConnected: boolean;
   isProcessing: boolean;
@@ -47,6 +58,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   currentInstruction,
   setCurrentInstruction,
   handleSendInstruction,
+  handleReplaceInstruction,
   handleSendClarification,
   isConnected,
   isProcessing,
@@ -385,6 +397,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
               currentInstruction={currentInstruction}
               setCurrentInstruction={setCurrentInstruction}
               handleSendInstruction={handleSendInstruction}
+              handleReplaceInstruction={handleReplaceInstruction}
               handleSendClarification={handleSendClarification}
               isConnected={isConnected}
               isProcessing={isProcessing}
@@ -455,6 +468,18 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                         )}
                       </div>
                       
+                      {/* Extracted records */}
+                      {item.data && (
+                        <div className="mt-3 flex justify-end">
+                          <button
+                            onClick={() => downloadJson(`extraction-${new Date(item.timestamp).toISOString().replace(/[:.]/g, '-')}.json`, item.data)}
+                            className="px-3 py-1 text-xs text-purple-200 bg-purple-900/40 border border-purple-600/50 rounded hover:bg-purple-800/50 transition-colors"
+                          >
+                            Download JSON
+                          </button>
+                        </div>
+                      )}
+
                       {/* Additional metadata if available */}
                       {(item.url || item.action || item.result) && (
                         <div className="mt-3 pt-2 border-t border-gray-700/50">
@@ -28,7 +28,9 @@ interface InstructionPanelProps {
       timestamp: number;
     };
     loading?: boolean;
-    status?: 'success' | 'error' | 'pending' | 'stopped';
+    /** Waiting in the agent's queue behind the running instruction */
+    queued?: boolean;
+    status?: 'success' | 'error' | 'pending' | 'stopped' | 'budget_exhausted';
     manuallyCompleted?: boolean;
     completed?: boolean;
     response?: {
@@ -39,7 +41,10 @@ interface InstructionPanelProps {
   }[];
   currentInstruction: string;
   setCurrentInstruction: (value: string) => void;
-  handleSendInstruction: () => void;
+  /** `schema` asks the agent to extract records matching that JSON schema */
+  handleSendInstruction: (schema?: object) => void;
+  /** Stop the running and queued instructions and run this one instead */
+  handleReplaceInstruction?: (schema?: object) => void;
   handleSendClarification?: (instructionId: string, clarificationText: string, originalInstruction: string) => void;
   handleMarkTaskCompleted?: () => void;
   isConnected: boolean;
@@ -566,6 +571,7 @@ const InstructionPanel: React.FC<InstructionPanelProps> = ({
   currentInstruction, 
   setCurrentInstruction, 
   handleSendInstruction,
+  handleReplaceInstruction,
   handleSendClarification,
   handleMarkTaskCompleted,
   isConnected,
@@ -575,7 +581,11 @@ const InstructionPanel: React.FC<InstructionPanelProps> = ({
   const [showExecutionDetails, setShowExecutionDetails] = useState<Record<string, boolean>>({});
   const [clarificationResponse, setClarificationResponse] = useState<string>('');
   const [activeClarificationId, setActiveClarificationId] = useState<string | null>(null);
-  const { isManualInterventionRequired, logs, dismissManualIntervention, stopCurrentInstruction, markInstructionComplete } = useSession();
+  // JSON schema for structured extraction; kept between tasks so a monitoring job can be rerun
+  const [showSchema, setShowSchema] = useState(false);
+  const [schemaText, setSchemaText] = useState('');
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+  const { isManualInterventionRequired, logs, dismissManualIntervention, stopCurrentInstruction, markInstructionComplete, isInstructionPaused, pauseInstruction, resumeInstruction } = useSession();
 
   const toggleDetails = (id: string) => {
     setShowExecutionDetails(prev => ({
@@ -589,11 +599,29 @@ const InstructionPanel: React.FC<InstructionPanelProps> = ({
       if (activeClarificationId) {
         handleSubmitClarification();
       } else {
-        handleSendInstruction();
+        submitInstruction(handleSendInstruction);
       }
     }
   };
 
+  // The agent checks the schema's keywords; here we only make sure it is a JSON object
+  const submitInstruction = (send: (schema?: object) => void) => {
+    if (!showSchema || !schemaText.trim()) {
+      send();
+      return;
+    }
+    try {
+      const schema = JSON.parse(schemaText);
+      if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+        throw new Error('The schema must be a JSON object');
+      }
+      setSchemaError(null);
+      send(schema);
+    } catch (error) {
+      setSchemaError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
   const handleSubmitClarification = () => {
     if (activeClarificationId && clarificationResponse.trim() && handleSendClarification) {
       const clarificationMsg = instructions.find(i => i.id === activeClarificationId);
@@ -731,7 +759,11 @@ const InstructionPanel: React.FC<InstructionPanelProps> = ({
                         }`}>
                         {msg.type === 'instruction'
                           ? msg.loading
-                            ? '🧠 Agent Processing Task'
+                            ? msg.queued
+                              ? '⏳ Task Queued'
+                              : isInstructionPaused
+                                ? '⏸️ Task Paused'
+                                : '🧠 Agent Processing Task'
                             : msg.status === 'success'
                               ? msg.completed 
                                 ? '✅ Task Completed by Agent'
@@ -742,7 +774,9 @@ const InstructionPanel: React.FC<InstructionPanelProps> = ({
                                 ? '❌ Task Failed'
                                 : msg.status === 'stopped'
                                   ? '🛑 Task Stopped'
-                                  : '📝 Task'
+                                  : msg.status === 'budget_exhausted'
+                                    ? '⏱️ Budget Exhausted'
+                                    : '📝 Task'
                           : msg.type === 'clarification'
                             ? '❓ Clarification Needed'
                             : msg.type === 'manual_intervention'
@@ -769,7 +803,7 @@ const InstructionPanel: React.FC<InstructionPanelProps> = ({
                         <button
                           onClick={() => stopCurrentInstruction(msg.id!)}
                           className="group relative p-1.5 text-xs text-gray-400 hover:text-red-400 hover:bg-red-900/10 rounded-md transition-all duration-200 flex items-center gap-1"
-                          title="Stop the current instruction"
+                          title={msg.queued ? 'Remove the instruction from the queue' : 'Stop the current instruction'}
                         >
                           <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 20 20">
                             <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8 7a1 1 0 00-1 1v4a1 1 0 001 1h4a1 1 0 001-1V8a1 1 0 00-1-1H8z" clipRule="evenodd" />
@@ -777,17 +811,39 @@ const InstructionPanel: React.FC<InstructionPanelProps> = ({
                           <span className="text-xs whitespace-nowrap">Stop</span>
                         </button>
 
+                        {/* Pause / resume button - minimal design */}
+                        {!msg.queued && (
+                          <button
+                            onClick={() => isInstructionPaused ? resumeInstruction(msg.id!) : pauseInstruction(msg.id!)}
+                            className="group relative p-1.5 text-xs text-gray-400 hover:text-yellow-400 hover:bg-yellow-900/10 rounded-md transition-all duration-200 flex items-center gap-1"
+                            title={isInstructionPaused ? 'Resume the instruction' : 'Pause the instruction after the current action'}
+                          >
+                            {isInstructionPaused ? (
+                              <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 20 20">
+                                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
+                              </svg>
+                            ) : (
+                              <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 20 20">
+                                <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM7 8a1 1 0 012 0v4a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+                              </svg>
+                            )}
+                            <span className="text-xs whitespace-nowrap">{isInstructionPaused ? 'Resume' : 'Pause'}</span>
+                          </button>
+                        )}
+
                         {/* Mark Complete button - minimal design */}
-                        <button
-                          onClick={() => markInstructionComplete(msg.id!)}
-                          className="group relative p-1.5 text-xs text-gray-400 hover:text-green-400 hover:bg-green-900/10 rounded-md transition-all duration-200 flex items-center gap-1"
-                          title="Mark this instruction as complete"
-                        >
-                          <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 20 20">
-                            <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                          </svg>
-                          <span className="text-xs whitespace-nowrap">Complete</span>
-                        </button>
+                        {!msg.queued && (
+                          <button
+                            onClick={() => markInstructionComplete(msg.id!)}
+                            className="group relative p-1.5 text-xs text-gray-400 hover:text-green-400 hover:bg-green-900/10 rounded-md transition-all duration-200 flex items-center gap-1"
+                            title="Mark this instruction as complete"
+                          >
+                            <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 20 20">
+                              <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                            </svg>
+                            <span className="text-xs whitespace-nowrap">Complete</span>
+                          </button>
+                        )}
 
                         {/* Separator */}
                         <div className="w-px h-4 bg-gray-600/30 mx-1"></div>
@@ -1087,7 +1143,7 @@ const InstructionPanel: React.FC<InstructionPanelProps> = ({
                   ? "Enter your next task after completing the manual action..."
                   : "Enter a task for the browser agent..."
               }
-              className={`w-full min-h-[80px] p-3 border rounded-lg text-gray-100 transition-all duration-300 ${!isConnected || isProcessing || activeClarificationId !== null
+              className={`w-full min-h-[80px] p-3 border rounded-lg text-gray-100 transition-all duration-300 ${!isConnected || activeClarificationId !== null
                 ? 'border-gray-600 bg-gray-800'
                 : isManualInterventionRequired
                   ? currentInstruction.trim()
@@ -1097,7 +1153,7 @@ const InstructionPanel: React.FC<InstructionPanelProps> = ({
                     ? 'border-blue-500/50 bg-gray-800 focus:ring-2 focus:ring-blue-500/50 focus:border-blue-400 shadow-blue-400/10 shadow-lg'
                     : 'border-gray-600 bg-gray-800 focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
                 }`}
-            disabled={!isConnected || isProcessing || activeClarificationId !== null}
+            disabled={!isConnected || activeClarificationId !== null}
           />
             {/* Animated border overlay for focused state */}
             {isConnected && currentInstruction.trim() && (
@@ -1119,16 +1175,58 @@ const InstructionPanel: React.FC<InstructionPanelProps> = ({
             )}
           </div>
         </div>
+
+        {showSchema && (
+          <div className="relative mt-2">
+            <textarea
+              value={schemaText}
+              onChange={(e) => {
+                setSchemaText(e.target.value);
+                setSchemaError(null);
+              }}
+              placeholder={'JSON schema of the records to extract, e.g. {"type": "object", "properties": {"name": {"type": "string"}, "price": {"type": "number"}}, "required": ["name", "price"]}'}
+              className={`w-full min-h-[80px] p-2 border rounded-lg bg-gray-900 text-gray-200 font-mono text-xs focus:outline-none ${schemaError ? 'border-red-500/70' : 'border-gray-600 focus:border-purple-500'}`}
+              disabled={!isConnected}
+              spellCheck={false}
+            />
+            {schemaError && <p className="text-xs text-red-400 mt-1">Invalid schema: {schemaError}</p>}
+          </div>
+        )}
         
         <div className="relative mt-2 flex justify-between items-center">
           <span className="text-xs text-gray-400">
-            Press Ctrl+Enter, Cmd+Enter, or Alt+Enter to send
+            {isProcessing
+              ? 'New tasks wait in the queue until the current one finishes'
+              : 'Press Ctrl+Enter, Cmd+Enter, or Alt+Enter to send'}
           </span>
           <div className="flex gap-2">
             <button
-              onClick={handleSendInstruction}
-              disabled={!isConnected || isProcessing || !currentInstruction.trim()}
-              className={`relative px-4 py-2 rounded-lg font-medium text-white flex items-center gap-2 transition-all duration-300 overflow-hidden ${!isConnected || isProcessing || !currentInstruction.trim()
+              onClick={() => setShowSchema(!showSchema)}
+              className={`px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${showSchema
+                ? 'text-purple-200 bg-purple-900/40 border border-purple-600/60'
+                : 'text-gray-400 bg-gray-800 hover:text-gray-200'
+                }`}
+              title="Extract structured data matching a JSON schema, downloadable from the report"
+            >
+              {'{ }'} Extract
+            </button>
+            {isProcessing && handleReplaceInstruction && (
+              <button
+                onClick={() => submitInstruction(handleReplaceInstruction)}
+                disabled={!isConnected || !currentInstruction.trim()}
+                className={`px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${!isConnected || !currentInstruction.trim()
+                  ? 'text-gray-500 bg-gray-800 cursor-not-allowed'
+                  : 'text-orange-300 bg-orange-900/20 border border-orange-700/50 hover:bg-orange-900/40'
+                  }`}
+                title="Stop the current and queued tasks and run this one instead"
+              >
+                Replace
+              </button>
+            )}
+            <button
+              onClick={() => submitInstruction(handleSendInstruction)}
+              disabled={!isConnected || !currentInstruction.trim()}
+              className={`relative px-4 py-2 rounded-lg font-medium text-white flex items-center gap-2 transition-all duration-300 overflow-hidden ${!isConnected || !currentInstruction.trim()
                   ? 'bg-gray-700 cursor-not-allowed'
                 : isManualInterventionRequired
                   ? 'bg-gradient-to-r from-red-600 to-orange-600 hover:from-red-500 hover:to-orange-500 shadow-red-500/20 shadow-lg hover:shadow-red-400/30 hover:shadow-xl transform hover:scale-105'
@@ -1136,7 +1234,7 @@ const InstructionPanel: React.FC<InstructionPanelProps> = ({
                 }`}
             >
               {/* Animated background for active button */}
-              {isConnected && !isProcessing && currentInstruction.trim() && (
+              {isConnected && currentInstruction.trim() && (
                 <div className={`absolute inset-0 ${isManualInterventionRequired
                   ? 'bg-gradient-to-r from-red-400/20 via-orange-400/20 to-red-400/20'
                   : 'bg-gradient-to-r from-blue-400/20 via-purple-400/20 to-blue-400/20'
@@ -1155,7 +1253,7 @@ const InstructionPanel: React.FC<InstructionPanelProps> = ({
               {isProcessing ? (
                 <>
                   <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                  Processing
+                  Queue Task
                 </>
               ) : (
                   <>
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { useSession, LaunchConfig, loadLaunchConfig } from '../context/SessionContext';
+
+interface LaunchForm {
+  device: string;
+  width: string;
+  height: string;
+  locale: string;
+  timezoneId: string;
+  latitude: string;
+  longitude: string;
+  userAgent: string;
+  proxyServer: string;
+  proxyUsername: string;
+  proxyPassword: string;
+  startUrl: string;
+  format: 'jpeg' | 'png';
+  quality: string;
+}
+
+const toForm = (config: LaunchConfig): LaunchForm => ({
+  device: config.device || '',
+  width: config.viewport ? String(config.viewport.width) : '',
+  height: config.viewport ? String(config.viewport.height) : '',
+  locale: config.locale || '',
+  timezoneId: config.timezoneId || '',
+  latitude: config.geolocation ? String(config.geolocation.latitude) : '',
+  longitude: config.geolocation ? String(config.geolocation.longitude) : '',
+  userAgent: config.userAgent || '',
+  proxyServer: config.proxy?.server || '',
+  proxyUsername: config.proxy?.username || '',
+  proxyPassword: config.proxy?.password || '',
+  startUrl: config.startUrl || '',
+  format: config.screencast?.format || 'jpeg',
+  quality: config.screencast?.quality ? String(config.screencast.quality) : ''
+});
+
+// Only filled-in fields are sent; the agent validates them and fills in its defaults
+const fromForm = (form: LaunchForm): LaunchConfig => {
+  const config: LaunchConfig = { screencast: { format: form.format } };
+  if (form.device.trim()) config.device = form.device.trim();
+  if (form.width && form.height) config.viewport = { width: Number(form.width), height: Number(form.height) };
+  if (form.locale.trim()) config.locale = form.locale.trim();
+  if (form.timezoneId.trim()) config.timezoneId = form.timezoneId.trim();
+  if (form.latitude && form.longitude) config.geolocation = { latitude: Number(form.latitude), longitude: Number(form.longitude) };
+  if (form.userAgent.trim()) config.userAgent = form.userAgent.trim();
+  if (form.proxyServer.trim()) {
+    config.proxy = {
+      server: form.proxyServer.trim(),
+      username: form.proxyUsername || undefined,
+      password: form.proxyPassword || undefined
+    };
+  }
+  if (form.startUrl.trim()) config.startUrl = form.startUrl.trim();
+  if (form.quality) config.screencast!.quality = Number(form.quality);
+  return config;
+};
+
+const Field: React.FC<{ label: string; value: string; onChange: (value: string) => void; placeholder?: string; type?: string }> = ({ label, value, onChange, placeholder, type = 'text' }) => (
+  <label className="flex flex-col text-xs text-gray-400">
+    {label}
+    <input
+      className="mt-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-gray-200 focus:outline-none focus:border-blue-500"
+      type={type}
+      value={value}
+      placeholder={placeholder}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  </label>
+);
+
+// Gear button with a popover to change how the session's browser is launched
+const LaunchSettings: React.FC = () => {
+  const { launchConfig, launchConfigError, applyLaunchConfig, isProcessingInstruction } = useSession();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<LaunchForm>(toForm({}));
+
+  const toggle = () => {
+    if (!open) {
+      // The echoed config masks the proxy password, so prefer what this tab applied
+      const saved = loadLaunchConfig() || {};
+      setForm(toForm({ ...launchConfig, ...saved, proxy: saved.proxy ?? launchConfig?.proxy }));
+    }
+    setOpen(!open);
+  };
+
+  const update = (field: keyof LaunchForm) => (value: string) => setForm(current => ({ ...current, [field]: value }));
+
+  const apply = async () => {
+    setOpen(false);
+    await applyLaunchConfig(fromForm(form));
+  };
+
+  return (
+    <div className="relative ml-2">
+      <button
+        className={`p-1 rounded transition-all duration-200 ${launchConfigError ? 'text-orange-400' : 'text-gray-400 hover:text-gray-200'} hover:bg-gray-700/50`}
+        onClick={toggle}
+        title={launchConfigError ? `Launch settings rejected: ${launchConfigError}` : 'Browser launch settings'}
+      >
+        <svg className="w-5 h-5" fill="none" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" viewBox="0 0 24 24" stroke="currentColor">
+          <path d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"></path>
+          <path d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"></path>
+        </svg>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-8 z-50 w-80 p-4 bg-gray-800 border border-gray-600 rounded-lg shadow-2xl space-y-3">
+          <h4 className="text-sm font-semibold text-gray-200">Browser launch settings</h4>
+          {launchConfigError && (
+            <p className="text-xs text-orange-300 bg-orange-900/30 border border-orange-700/50 rounded p-2">
+              The agent rejected the last settings and used its defaults: {launchConfigError}
+            </p>
+          )}
+
+          <Field label="Device to emulate" value={form.device} onChange={update('device')} placeholder="e.g. iPhone 13" />
+          <div className="grid grid-cols-2 gap-2">
+            <Field label="Viewport width" value={form.width} onChange={update('width')} type="number" />
+            <Field label="Viewport height" value={form.height} onChange={update('height')} type="number" />
+            <Field label="Locale" value={form.locale} onChange={update('locale')} placeholder="en-US" />
+            <Field label="Time zone" value={form.timezoneId} onChange={update('timezoneId')} placeholder="Europe/Berlin" />
+            <Field label="Latitude" value={form.latitude} onChange={update('latitude')} type="number" />
+            <Field label="Longitude" value={form.longitude} onChange={update('longitude')} type="number" />
+          </div>
+          <Field label="User agent" value={form.userAgent} onChange={update('userAgent')} placeholder="Browser default" />
+          <Field label="Proxy server" value={form.proxyServer} onChange={update('proxyServer')} placeholder="http://proxy.example.com:3128" />
+          {form.proxyServer && (
+            <div className="grid grid-cols-2 gap-2">
+              <Field label="Proxy username" value={form.proxyUsername} onChange={update('proxyUsername')} />
+              <Field label="Proxy password" value={form.proxyPassword} onChange={update('proxyPassword')} type="password" />
+            </div>
+          )}
+          <Field label="Start page" value={form.startUrl} onChange={update('startUrl')} placeholder="https://www.google.com" />
+          <div className="grid grid-cols-2 gap-2">
+            <label className="flex flex-col text-xs text-gray-400">
+              Stream format
+              <select
+                className="mt-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-gray-200"
+                value={form.format}
+                onChange={(e) => update('format')(e.target.value)}
+              >
+                <option value="jpeg">JPEG</option>
+                <option value="png">PNG</option>
+              </select>
+            </label>
+            <Field label="Stream quality (1-100)" value={form.quality} onChange={update('quality')} type="number" />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-1">
+            <button className="px-3 py-1 text-xs text-gray-300 hover:text-gray-100" onClick={() => setOpen(false)}>
+              Cancel
+            </button>
+            <button
+              className="px-3 py-1 text-xs text-white bg-blue-600 hover:bg-blue-500 rounded disabled:opacity-50"
+              disabled={isProcessingInstruction}
+              onClick={apply}
+              title={isProcessingInstruction ? 'Wait for the current task to finish' : 'Start a new session with these settings'}
+            >
+              Apply & restart
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LaunchSettings;
@@ -11,7 +11,7 @@ interface InstructionMessage {
 
 interface ResponseMessage {
   id: string;
-  status: 'success' | 'error' | 'timeout' | 'manual_intervention' | 'manual_intervention_required' | 'needs_clarification';
+  status: 'success' | 'error' | 'timeout' | 'budget_exhausted' | 'manual_intervention' | 'manual_intervention_required' | 'needs_clarification';
   executed?: string[];
   error?: string;
   actions?: any[];
@@ -48,6 +48,9 @@ interface OutputItem {
   url?: string;
   action?: string;
   result?: string;
+  /** Structured records from the agent's `extract` tool, offered as a JSON download */
+  data?: unknown[];
+  schema?: object | null;
 }
 
 interface LogItem {
@@ -64,6 +67,31 @@ export interface ScreenshotData {
   imageData: ArrayBuffer;
 }
 
+export interface BrowserTab {
+  id: number;
+  url: string;
+  title: string;
+  active: boolean;
+}
+
+/** Browser setup sent in the connection handshake; the agent echoes the validated version back */
+export interface LaunchConfig {
+  device?: string;
+  viewport?: { width: number; height: number };
+  locale?: string;
+  timezoneId?: string;
+  geolocation?: { latitude: number; longitude: number; accuracy?: number };
+  userAgent?: string;
+  proxy?: { server: string; username?: string; password?: string; bypass?: string };
+  startUrl?: string;
+  screencast?: { format?: 'jpeg' | 'png'; quality?: number; maxWidth?: number; maxHeight?: number };
+}
+
+export interface BrowserProfile {
+  name: string;
+  updatedAt: string;
+}
+
 interface StreamingInfo {
   mode: string;
   fps?: number;
@@ -74,14 +102,21 @@ interface SessionContextType {
   logs: LogItem[];
   messages: any[];
   setMessages: (messages: any[]) => void;
-  sendInstruction: (instruction: string) => void;
+  sendInstruction: (instruction: string, replace?: boolean, schema?: object) => void;
   sendClarification: (instructionId: string, clarificationText: string, originalInstruction: string) => void;
   sendMouseAction: (actionType: string, x: number, y: number, button?: string, clickCount?: number, deltaX?: number, deltaY?: number) => Promise<void>;
   sendKeyboardAction: (actionType: string, key?: string, text?: string, modifiers?: string[]) => Promise<void>;
   markTaskCompleted: () => void;
   stopCurrentInstruction: (instructionId: string) => Promise<void>;
   markInstructionComplete: (instructionId: string) => Promise<void>;
+  isInstructionPaused: boolean;
+  pauseInstruction: (instructionId: string) => Promise<void>;
+  resumeInstruction: (instructionId: string) => Promise<void>;
   isConnected: boolean;
+  /** Place in the agent's queue for a free browser, null once one is assigned */
+  browserQueuePosition: number | null;
+  /** Set when the agent ended the session (e.g. after inactivity); no reconnect is attempted */
+  sessionExpiredReason: string | null;
   isProcessingInstruction: boolean;
   screenshotUrl: string | null;
   currentUrl: string;
@@ -96,6 +131,23 @@ interface SessionContextType {
   } | null;
   dismissManualIntervention: () => Promise<void>;
   streamingInfo: StreamingInfo | null;
+  tabs: BrowserTab[];
+  switchTab: (tabId: number) => Promise<void>;
+  closeTab: (tabId: number) => Promise<void>;
+  visionMode: boolean;
+  setVisionMode: (enabled: boolean) => Promise<void>;
+  /** False when the agent has no profile encryption key configured */
+  profilesEnabled: boolean;
+  profiles: BrowserProfile[];
+  selectedProfile: string | null;
+  /** Restart the browser with a saved profile (created if it doesn't exist), or none for null */
+  selectProfile: (name: string | null) => Promise<void>;
+  deleteProfile: (name: string) => Promise<void>;
+  /** Launch settings the current session runs with, as validated by the agent */
+  launchConfig: LaunchConfig | null;
+  launchConfigError: string | null;
+  /** Save launch settings and restart the session with them */
+  applyLaunchConfig: (config: LaunchConfig) => Promise<void>;
 }
 
 // Create context with default values
@@ -110,7 +162,12 @@ const SessionContext = createContext<SessionContextType>({
   markTaskCompleted: () => {},
   stopCurrentInstruction: async () => {},
   markInstructionComplete: async () => {},
+  isInstructionPaused: false,
+  pauseInstruction: async () => {},
+  resumeInstruction: async () => {},
   isConnected: false,
+  browserQueuePosition: null,
+  sessionExpiredReason: null,
   isProcessingInstruction: false,
   screenshotUrl: null,
   currentUrl: '',
@@ -120,6 +177,19 @@ const SessionContext = createContext<SessionContextType>({
   manualInterventionDetails: null,
           dismissManualIntervention: async () => {},
   streamingInfo: null,
+  tabs: [],
+  switchTab: async () => {},
+  closeTab: async () => {},
+  visionMode: false,
+  setVisionMode: async () => {},
+  profilesEnabled: false,
+  profiles: [],
+  selectedProfile: null,
+  selectProfile: async () => {},
+  deleteProfile: async () => {},
+  launchConfig: null,
+  launchConfigError: null,
+  applyLaunchConfig: async () => {},
 });
 
 // API & WebSocket endpoints - direct connection to agent
@@ -130,18 +200,60 @@ const AGENT_WS_URL = process.env.REACT_APP_AGENT_URL ||
 
 console.log('Debug URLs:', { AGENT_WS_URL });
 
+// The agent keeps a session alive for a while after a disconnect; this tab resumes it on reconnect or reload
+const SESSION_STORAGE_KEY = 'agentSessionId';
+// Close code the agent uses for sessions it ended itself; reconnecting would only start a new one
+const SESSION_EXPIRED_CLOSE_CODE = 4001;
+// The browser profile the agent starts new sessions from
+const PROFILE_STORAGE_KEY = 'agentProfile';
+// Launch settings requested for every new session
+const LAUNCH_CONFIG_STORAGE_KEY = 'agentLaunchConfig';
+
+// Proxy credentials are never written to storage; they only last until the page is reloaded
+let proxyCredentials: { username?: string; password?: string } = {};
+
+const saveLaunchConfig = (config: LaunchConfig) => {
+  const { username, password, ...proxy } = config.proxy || { server: '' };
+  proxyCredentials = { username, password };
+  localStorage.setItem(LAUNCH_CONFIG_STORAGE_KEY, JSON.stringify(config.proxy ? { ...config, proxy } : config));
+};
+
+export const loadLaunchConfig = (): LaunchConfig | undefined => {
+  try {
+    const stored = localStorage.getItem(LAUNCH_CONFIG_STORAGE_KEY);
+    if (!stored) return undefined;
+    const config: LaunchConfig = JSON.parse(stored);
+    if (!config.proxy) return config;
+    // Settings saved by older versions still carry the credentials; move them out of storage
+    if (config.proxy.username || config.proxy.password) saveLaunchConfig(config);
+    return { ...config, proxy: { ...config.proxy, ...proxyCredentials } };
+  } catch {
+    return undefined;
+  }
+};
+
 export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { isAuthenticated, getToken, user } = useAuth();
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [screenshotWs, setScreenshotWs] = useState<WebSocket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
+  const [browserQueuePosition, setBrowserQueuePosition] = useState<number | null>(null);
+  const [sessionExpiredReason, setSessionExpiredReason] = useState<string | null>(null);
   const [messages, setMessages] = useState<any[]>([]);
   const [isProcessingInstruction, setIsProcessingInstruction] = useState(false);
+  const [isInstructionPaused, setIsInstructionPaused] = useState(false);
   const [screenshotUrl, setScreenshotUrl] = useState<string | null>(null);
   const [currentUrl, setCurrentUrl] = useState<string>('');
   const [pageTitle, setPageTitle] = useState<string>('');
   const [outputItems, setOutputItems] = useState<any[]>([]);
   const [logs, setLogs] = useState<LogItem[]>([]);
+  const [tabs, setTabs] = useState<BrowserTab[]>([]);
+  const [visionMode, setVisionModeState] = useState<boolean>(false);
+  const [profilesEnabled, setProfilesEnabled] = useState<boolean>(false);
+  const [profiles, setProfiles] = useState<BrowserProfile[]>([]);
+  const [selectedProfile, setSelectedProfile] = useState<string | null>(null);
+  const [launchConfig, setLaunchConfig] = useState<LaunchConfig | null>(null);
+  const [launchConfigError, setLaunchConfigError] = useState<string | null>(null);
   
   // Manual intervention state
   const [isManualInterventionRequired, setIsManualInterventionRequired] = useState<boolean>(false);
@@ -157,6 +269,8 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
   
   // Refs to track current WebSocket state to avoid dependency issues in useEffect
   const screenshotWsRef = useRef<WebSocket | null>(null);
+  // Last replayable event seen, so a resumed session only replays what we missed
+  const lastEventIdRef = useRef<number>(0);
   
   // Refs to track current URL and pageTitle to prevent flickering
   const currentUrlRef = useRef<string>('');
@@ -320,11 +434,29 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
         // Connect directly to the agent WebSocket
         const connection = new WebSocket(AGENT_WS_URL);
         
-        connection.onopen = () => {
+        connection.onopen = async () => {
           console.log('✅ [WebSocket] Agent connected successfully!');
           setScreenshotWs(connection);
           screenshotWsRef.current = connection;
           setIsConnected(true);
+
+          // Identifies us to the agent; browser profiles belong to the signed-in user
+          const token = await getToken();
+          if (connection.readyState !== WebSocket.OPEN) return;
+
+          // Resume our previous session if the agent still has it; otherwise it starts a new one
+          connection.send(JSON.stringify({
+            type: 'resume_session',
+            payload: {
+              sessionId: sessionStorage.getItem(SESSION_STORAGE_KEY),
+              lastEventId: lastEventIdRef.current,
+              token,
+              // Only used if the agent has to start a new session
+              launchConfig: loadLaunchConfig(),
+              profile: localStorage.getItem(PROFILE_STORAGE_KEY)
+            },
+            timestamp: new Date().toISOString()
+          }));
         };
 
         connection.onclose = (event) => {
@@ -332,6 +464,11 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
           setScreenshotWs(null);
           screenshotWsRef.current = null;
           setIsConnected(false);
+
+          if (event.code === SESSION_EXPIRED_CLOSE_CODE) {
+            console.log('⌛ [WebSocket] Session ended by the agent, not reconnecting');
+            return;
+          }
           
           // Schedule reconnection attempt
           const delay = Math.min(INITIAL_RECONNECT_DELAY, MAX_RECONNECT_DELAY);
@@ -347,11 +484,32 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
           try {
             const message = JSON.parse(event.data);
             console.log('📨 [WebSocket] Received message:', message.type);
+            if (typeof message.eventId === 'number') {
+              lastEventIdRef.current = Math.max(lastEventIdRef.current, message.eventId);
+            }
             
             // Handle different message types from agent
             if (message.type === 'connection') {
               console.log('✅ [WebSocket] Connection confirmed:', message.payload);
               setSessionId(message.payload.sessionId);
+              sessionStorage.setItem(SESSION_STORAGE_KEY, message.payload.sessionId);
+              lastEventIdRef.current = 0;
+              setLaunchConfig(message.payload.launchConfig || null);
+              setLaunchConfigError(null);
+              sendWebSocketCommand('profile_action', { action: 'list' }).catch(() => undefined);
+            } else if (message.type === 'session_resumed') {
+              console.log(`🔁 [WebSocket] Session resumed, replaying ${message.payload.replayed} events`);
+              handleSessionResumed(message.payload);
+            } else if (message.type === 'browser_queue_updated') {
+              console.log(`⏳ [WebSocket] Waiting for a browser, position ${message.payload.position}`);
+              setBrowserQueuePosition(message.payload.position);
+            } else if (message.type === 'browser_ready') {
+              console.log('✅ [WebSocket] Browser ready');
+              setBrowserQueuePosition(null);
+            } else if (message.type === 'session_expired') {
+              console.log('⌛ [WebSocket] Session expired:', message.payload.reason);
+              sessionStorage.removeItem(SESSION_STORAGE_KEY);
+              setSessionExpiredReason(message.payload.reason || 'Session expired');
             } else if (message.type === 'response') {
               console.log('📋 [WebSocket] Instruction response:', message.payload);
               handleAgentResponse(message.payload);
@@ -363,6 +521,30 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
               handleManualIntervention(message.payload);
             } else if (message.type === 'manual_intervention_acknowledged') {
               console.log('✅ [WebSocket] Manual intervention acknowledged by agent:', message.payload);
+            } else if (message.type === 'tab_opened' || message.type === 'tab_closed' || message.type === 'tab_switched' || message.type === 'tabs') {
+              console.log(`🗂️ [WebSocket] ${message.type}:`, message.payload);
+              handleTabsUpdate(message.payload);
+            } else if (message.type === 'instruction_queue_updated') {
+              console.log(`📋 [WebSocket] Instruction ${message.payload.instruction?.id} ${message.payload.instruction?.status}`);
+              handleQueueUpdate(message.payload);
+            } else if (message.type === 'instruction_paused' || message.type === 'instruction_resumed') {
+              console.log(`⏯️ [WebSocket] ${message.type}:`, message.payload);
+              setIsInstructionPaused(message.type === 'instruction_paused');
+            } else if (message.type === 'instruction_control_error') {
+              console.error('❌ [WebSocket] Instruction control error:', message.payload.error);
+            } else if (message.type === 'launch_config_error') {
+              console.error('❌ [WebSocket] Launch settings rejected, using defaults:', message.payload.error);
+              setLaunchConfigError(message.payload.error);
+            } else if (message.type === 'profiles') {
+              console.log('👤 [WebSocket] Profiles:', message.payload);
+              handleProfilesUpdate(message.payload);
+            } else if (message.type === 'profile_error') {
+              console.error(`❌ [WebSocket] Profile ${message.payload.action} failed:`, message.payload.error);
+            } else if (message.type === 'vision_mode_updated') {
+              console.log('👁️ [WebSocket] Vision mode updated:', message.payload);
+              setVisionModeState(!!message.payload.vision?.enabled);
+            } else if (message.type === 'vision_mode_error') {
+              console.error('❌ [WebSocket] Vision mode error:', message.payload.error);
             } else if (message.type === 'frame') {
               // Handle screenshot frames from agent
               console.log('📸 [WebSocket] Received frame data');
@@ -407,17 +589,19 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
   };
 
   // Send an instruction to the agent
-  const sendInstruction = async (instructionText: string) => {
-    if (!isConnected || isProcessingInstruction || !sessionId) {
+  // While another instruction runs, the agent queues this one - or, with `replace`, stops everything else first
+  // With a JSON `schema`, the agent extracts records matching it and returns them with agent_complete
+  const sendInstruction = async (instructionText: string, replace: boolean = false, schema?: object) => {
+    if (!isConnected || !sessionId) {
       return;
     }
     
+    // Generate a unique ID for this instruction
+    const instructionId = uuidv4();
+
     try {
       setIsProcessingInstruction(true);
       
-      // Generate a unique ID for this instruction
-      const instructionId = uuidv4();
-      
       // Create a new instruction message
       const instruction: InstructionMessage = {
         id: instructionId,
@@ -425,7 +609,7 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
       };
       
       // Add to messages with loading state
-      setMessages(prev => [...prev, { ...instruction, type: 'instruction', loading: true }]);
+      setMessages(prev => [...prev, { ...instruction, type: 'instruction', loading: true, queued: isProcessingInstruction && !replace }]);
       
       console.log('Sending instruction to agent:', instructionText);
       
@@ -433,6 +617,8 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
       await sendWebSocketCommand('instruction', {
         id: instructionId,
         text: instructionText,
+        replace,
+        ...(schema && { schema }),
         sessionId
       });
       
@@ -443,7 +629,7 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
       // Update messages with error
       setMessages(prev => 
         prev.map(msg => 
-          msg.loading 
+          msg.id === instructionId
             ? { ...msg, loading: false, status: 'error', error: 'Failed to send instruction' }
             : msg
         )
@@ -469,16 +655,38 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
   // Helper function to handle agent completion
   const handleAgentComplete = (payload: any) => {
     console.log("Agent task completed:", payload);
-    setIsProcessingInstruction(false);
+    setIsInstructionPaused(false);
+
+    // The agent tags its messages with the instruction they belong to
+    const isTarget = (msg: any) => payload.instructionId ? msg.id === payload.instructionId : msg.loading;
+
+    // Extracted records go to the report, also when the task was stopped part way
+    if (payload.extraction) {
+      handleExtraction(payload);
+    }
+
+    // Stopped or marked complete by the user: keep the instruction text, just record the outcome
+    if (payload.status === 'cancelled' || payload.status === 'completed_by_user') {
+      setMessages(prev =>
+        prev.map(msg =>
+          isTarget(msg)
+            ? payload.status === 'cancelled'
+              ? { ...msg, loading: false, status: 'stopped', response: payload }
+              : { ...msg, loading: false, status: 'success', response: payload, manuallyCompleted: true }
+            : msg
+        )
+      );
+      return;
+    }
     
     // Update the message with completion status
     setMessages(prev => 
       prev.map(msg => 
-        msg.loading
+        isTarget(msg)
           ? { 
               ...msg, 
               loading: false, 
-              status: 'success', 
+              status: payload.status === 'budget_exhausted' ? 'budget_exhausted' : 'success', 
               response: payload,
               text: payload.answer || payload.message || msg.text,
               completed: true
@@ -488,6 +696,85 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
     );
   };
 
+  // Helper function to add an instruction's extracted records to the report (replaced, not duplicated, on replay)
+  const handleExtraction = (payload: any) => {
+    const { schema, records } = payload.extraction;
+    const id = `extraction_${payload.instructionId || uuidv4()}`;
+    const preview = records.slice(0, 5).map((record: unknown) => JSON.stringify(record)).join('\n');
+    const item: OutputItem = {
+      id,
+      title: `Extracted ${records.length} ${records.length === 1 ? 'record' : 'records'}`,
+      type: 'extraction',
+      content: records.length > 0
+        ? `\`\`\`json\n${preview}${records.length > 5 ? `\n… ${records.length - 5} more` : ''}\n\`\`\``
+        : '_No records were extracted._',
+      timestamp: Date.now(),
+      result: schema ? 'Validated against the instruction\'s schema' : undefined,
+      data: records,
+      schema
+    };
+
+    setOutputItems(prev => prev.some(existing => existing.id === id)
+      ? prev.map(existing => existing.id === id ? item : existing)
+      : [...prev, item]);
+  };
+
+  // Helper function to track instructions through the agent's queue
+  const handleQueueUpdate = (payload: any) => {
+    const { instruction, queue } = payload;
+    setIsProcessingInstruction((queue || []).length > 0);
+
+    setMessages(prev => {
+      // Replayed after a page reload: the instruction was sent before this page existed
+      const known = prev.some(msg => msg.id === instruction.id);
+      const base = known ? prev : [...prev, { id: instruction.id, text: instruction.text, type: 'instruction', loading: true }];
+
+      return base.map(msg => {
+        if (msg.type !== 'instruction' || msg.id !== instruction.id) return msg;
+
+        switch (instruction.status) {
+          case 'queued':
+          case 'running':
+            return { ...msg, queued: instruction.status === 'queued' };
+          case 'failed':
+            return { ...msg, loading: false, queued: false, status: 'error', error: instruction.error };
+          case 'cancelled':
+            return msg.loading ? { ...msg, loading: false, queued: false, status: 'stopped' } : msg;
+          default:
+            // Finished without an agent_complete, e.g. when there was nothing left to do
+            return msg.loading ? { ...msg, loading: false, queued: false, status: 'success' } : msg;
+        }
+      });
+    });
+  };
+
+  // Helper function to restore state when the agent hands us back our session
+  const handleSessionResumed = (payload: any) => {
+    setSessionId(payload.sessionId);
+    sessionStorage.setItem(SESSION_STORAGE_KEY, payload.sessionId);
+    setIsProcessingInstruction((payload.queue || []).length > 0);
+    setIsInstructionPaused(!!payload.paused);
+    setBrowserQueuePosition(payload.browserQueuePosition ?? null);
+    setSelectedProfile(payload.profile ?? null);
+    setLaunchConfig(payload.launchConfig || null);
+    handleTabsUpdate({ tabs: payload.tabs });
+    sendWebSocketCommand('profile_action', { action: 'list' }).catch(() => undefined);
+  };
+
+  // Helper function to handle the profile list sent after every profile action
+  const handleProfilesUpdate = (payload: any) => {
+    setProfilesEnabled(!!payload.enabled);
+    setProfiles(payload.profiles || []);
+    setSelectedProfile(payload.selected ?? null);
+    // Signed out or profiles off on the agent: keep the remembered profile for next time
+    if (!payload.enabled) return;
+    if (payload.selected) {
+      localStorage.setItem(PROFILE_STORAGE_KEY, payload.selected);
+    } else {
+      localStorage.removeItem(PROFILE_STORAGE_KEY);
+    }
+  };
+
   // Helper function to handle manual intervention request from agent
   const handleManualIntervention = (payload: any) => {
     console.log("Manual intervention requested by agent:", payload);
@@ -514,6 +801,17 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
     setMessages(prev => [...prev, manualInterventionMessage]);
   };
 
+  // Helper function to handle tab list updates from agent
+  const handleTabsUpdate = (payload: any) => {
+    const updatedTabs: BrowserTab[] = payload.tabs || [];
+    setTabs(updatedTabs);
+
+    const activeTab = updatedTabs.find(tab => tab.active);
+    if (activeTab) {
+      updateUrlAndTitle(activeTab.url, activeTab.title);
+    }
+  };
+
   // Helper function to handle frame data from agent
   const handleFrameData = (payload: any) => {
     try {
@@ -525,7 +823,7 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
           bytes[i] = binaryString.charCodeAt(i);
         }
         
-        const blob = new Blob([bytes], { type: 'image/jpeg' });
+        const blob = new Blob([bytes], { type: `image/${payload.format || 'jpeg'}` });
         const url = URL.createObjectURL(blob);
         
         // Clean up previous URL
@@ -625,6 +923,97 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   };
 
+  // Switch the browser (and the stream) to another tab
+  const switchTab = async (tabId: number): Promise<void> => {
+    try {
+      await sendWebSocketCommand('tab_action', { action: 'switch', tabId, sessionId });
+    } catch (error) {
+      console.error('Error switching tab:', error);
+    }
+  };
+
+  // Close a browser tab
+  const closeTab = async (tabId: number): Promise<void> => {
+    try {
+      await sendWebSocketCommand('tab_action', { action: 'close', tabId, sessionId });
+    } catch (error) {
+      console.error('Error closing tab:', error);
+    }
+  };
+
+  // Stop the running instruction; the agent answers with agent_complete (status 'cancelled')
+  const stopCurrentInstruction = async (instructionId: string): Promise<void> => {
+    try {
+      await sendWebSocketCommand('cancel_instruction', { instructionId, sessionId });
+    } catch (error) {
+      console.error('Error stopping instruction:', error);
+    }
+  };
+
+  // Declare the running instruction done; the agent stops and answers with status 'completed_by_user'
+  const markInstructionComplete = async (instructionId: string): Promise<void> => {
+    try {
+      await sendWebSocketCommand('cancel_instruction', { instructionId, markComplete: true, sessionId });
+    } catch (error) {
+      console.error('Error marking instruction complete:', error);
+    }
+  };
+
+  // Pause the running instruction after its current action
+  const pauseInstruction = async (instructionId: string): Promise<void> => {
+    try {
+      await sendWebSocketCommand('pause', { instructionId, sessionId });
+    } catch (error) {
+      console.error('Error pausing instruction:', error);
+    }
+  };
+
+  const resumeInstruction = async (instructionId: string): Promise<void> => {
+    try {
+      await sendWebSocketCommand('resume', { instructionId, sessionId });
+    } catch (error) {
+      console.error('Error resuming instruction:', error);
+    }
+  };
+
+  // Toggle sending annotated screenshots to the agent for this session
+  const setVisionMode = async (enabled: boolean): Promise<void> => {
+    try {
+      await sendWebSocketCommand('vision_mode', { enabled, sessionId });
+    } catch (error) {
+      console.error('Error toggling vision mode:', error);
+    }
+  };
+
+  // Switch the browser to a profile; the agent answers with the updated profile list
+  const selectProfile = async (name: string | null): Promise<void> => {
+    try {
+      await sendWebSocketCommand('profile_action', { action: 'select', name, sessionId });
+    } catch (error) {
+      console.error('Error selecting profile:', error);
+    }
+  };
+
+  const deleteProfile = async (name: string): Promise<void> => {
+    try {
+      await sendWebSocketCommand('profile_action', { action: 'delete', name, sessionId });
+    } catch (error) {
+      console.error('Error deleting profile:', error);
+    }
+  };
+
+  // Launch settings are fixed per session: end this one and let the reconnect start a new one with them
+  const applyLaunchConfig = async (config: LaunchConfig): Promise<void> => {
+    saveLaunchConfig(config);
+    sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    setScreenshotUrl(null);
+    try {
+      await sendWebSocketCommand('end_session', { sessionId });
+    } catch (error) {
+      console.error('Error ending the session:', error);
+    }
+  };
+
   return (
     <SessionContext.Provider
       value={{
@@ -636,9 +1025,14 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
         sendMouseAction,
         sendKeyboardAction,
         markTaskCompleted: () => {},
-        stopCurrentInstruction: async () => {},
-        markInstructionComplete: async () => {},
+        stopCurrentInstruction,
+        markInstructionComplete,
+        isInstructionPaused,
+        pauseInstruction,
+        resumeInstruction,
         isConnected,
+        browserQueuePosition,
+        sessionExpiredReason,
         isProcessingInstruction,
         screenshotUrl,
         currentUrl,
@@ -648,6 +1042,19 @@ export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ child
         manualInterventionDetails,
         dismissManualIntervention,
         streamingInfo: null,
+        tabs,
+        switchTab,
+        closeTab,
+        visionMode,
+        setVisionMode,
+        profilesEnabled,
+        profiles,
+        selectedProfile,
+        selectProfile,
+        deleteProfile,
+        launchConfig,
+        launchConfigError,
+        applyLaunchConfig,
       }}
     >
       {children}